@@ -16,7 +16,12 @@
  */
 
 import * as eb_lib_compiler from './lib/compiler';
+import * as eb_lib_diff from './lib/diff';
 import * as eb_lib_helpers from './lib/helpers';
+import * as eb_lib_import from './lib/import';
+import * as eb_lib_schema from './lib/schema';
+import * as eb_lib_targets from './lib/targets';
+import * as eb_lib_validation from './lib/validation';
 import * as Enumerable from 'node-enumerable';
 import * as FS from 'fs';
 import * as Minimist from 'minimist';
@@ -26,29 +31,603 @@ import * as YAML from 'yamljs';
 
 
 interface AppSettings {
+    check: boolean;
+    clean: boolean;
+    cleanExtensions: boolean;
+    configFiles: string[];
+    diff: {
+        context?: string;
+        format?: string;
+        name?: string;
+        'namespace'?: string;
+        outFile?: string;
+    };
     doctrine: {
         generate: boolean;
+        phpVersion?: string;
         xmlOutDir?: string;
     };
+    dryRun: boolean;
     entityFramework: boolean;
     entityFrameworkCore: boolean;
+    'import': {
+        importer?: string;
+        'namespace'?: string;
+        outFile?: string;
+        source?: string;
+    };
     inputFiles: string[];
+    manifest: boolean;
     outDirs: string[];
-}
-
-interface ConfigFile {
-    readonly doctrine?: boolean;
-    readonly entityFramework?: boolean;
-    readonly entityFrameworkCore?: boolean;
-    readonly inputFiles: string | string[];
-    readonly outDir?: string;
+    plugins: string[];
+    prisma: {
+        generate: boolean;
+        provider?: string;
+    };
+    sequelize: {
+        generate: boolean;
+        typescript: boolean;
+    };
+    sql: {
+        dialect?: string;
+        generate: boolean;
+    };
+    targets: string[];
+    typeorm: boolean;
+    watch: boolean;
 }
 
 type EntityFileLoader = (entityFile: string) => PromiseLike<eb_lib_compiler.EntityFile>;
 
+type EntityFileSaver = (entityFile: string, obj: eb_lib_compiler.EntityFile) => PromiseLike<void>;
+
 
 const XML_ENTITY_FILE_ROOT = 'entity_baker';
 
+function applyCommandLineArgs(settings: AppSettings) {
+    for (const A in CMD_ARGS) {
+        const ARGS = eb_lib_helpers.asArray(CMD_ARGS[A]);
+
+        let isKnownOption = true;
+
+        switch (A) {
+            case '_':
+                eb_lib_helpers.pushMany(
+                    settings.inputFiles,
+                    ARGS.slice(IS_VALIDATE ? 1 : 0).filter(a => {
+                        return eb_lib_helpers.isString(a) &&
+                               !eb_lib_helpers.isEmptyString(a);
+                    }),
+                );
+                break;
+
+            case 'c':
+            case 'config':
+                break;
+
+            case 'check':
+                settings.check = Enumerable.from(ARGS)
+                                           .all(a => true === a);
+                break;
+
+            case 'clean':
+                settings.clean = Enumerable.from(ARGS)
+                                           .all(a => true === a);
+                break;
+
+            case 'clean-extensions':
+                settings.cleanExtensions = Enumerable.from(ARGS)
+                                                     .all(a => true === a);
+                break;
+
+            case 'dry-run':
+                settings.dryRun = Enumerable.from(ARGS)
+                                            .all(a => true === a);
+                break;
+
+            case 'manifest':
+                settings.manifest = Enumerable.from(ARGS)
+                                              .all(a => true === a);
+                break;
+
+            case 'o':
+            case 'out':
+                // output directory
+                eb_lib_helpers.pushMany(
+                    settings.outDirs,
+                    ARGS.filter(a => {
+                        return eb_lib_helpers.isString(a) &&
+                               !eb_lib_helpers.isEmptyString(a);
+                    }),
+                );
+                break;
+
+            case 'd':
+            case 'doctrine':
+                settings.doctrine.generate = Enumerable.from(ARGS)
+                                                       .all(a => true === a);
+                break;
+
+            case 'ef':
+            case 'entity-framework':
+                settings.entityFramework = Enumerable.from(ARGS)
+                                                     .all(a => true === a);
+                break;
+
+            case 'efc':
+            case 'entity-framework-core':
+                settings.entityFrameworkCore = Enumerable.from(ARGS)
+                                                         .all(a => true === a);
+                break;
+
+            case 'prisma':
+                settings.prisma.generate = Enumerable.from(ARGS)
+                                                     .all(a => true === a);
+                break;
+
+            case 'sequelize':
+                settings.sequelize.generate = Enumerable.from(ARGS)
+                                                        .all(a => true === a);
+                break;
+
+            case 'sql':
+                settings.sql.generate = Enumerable.from(ARGS)
+                                                  .all(a => true === a);
+                break;
+
+            case 't':
+            case 'target':
+                eb_lib_helpers.pushMany(
+                    settings.targets,
+                    ARGS.filter(a => {
+                        return eb_lib_helpers.isString(a) &&
+                               !eb_lib_helpers.isEmptyString(a);
+                    }),
+                );
+                break;
+
+            case 'typeorm':
+                settings.typeorm = Enumerable.from(ARGS)
+                                             .all(a => true === a);
+                break;
+
+            case 'watch':
+                settings.watch = Enumerable.from(ARGS)
+                                           .all(a => true === a);
+                break;
+
+            case '?':
+            case 'help':
+                showHelp();
+                break;
+
+            default:
+                isKnownOption = false;
+                break;
+        }
+
+        if (!isKnownOption) {
+            if (IS_IMPORT && eb_lib_import.getImporter(A)) {
+                // source of an importer, like '--sqlite=./database.sqlite'
+                isKnownOption = true;
+
+                settings['import'].importer = A;
+                settings['import'].source = ARGS.filter(a => {
+                    return eb_lib_helpers.isString(a) &&
+                           !eb_lib_helpers.isEmptyString(a);
+                }).map(a => {
+                    return eb_lib_helpers.toStringSafe(a);
+                }).pop();
+            }
+            else if (A.startsWith('doctrine-') || ['dpv', 'dxo'].indexOf(A) > -1) {
+                isKnownOption = true;
+
+                switch (A) {
+                    case 'dpv':
+                    case 'doctrine-php-version':
+                        ARGS.filter(a => {
+                            return !eb_lib_helpers.isEmptyString(a);
+                        }).forEach(a => {
+                            settings.doctrine.phpVersion = eb_lib_helpers.toStringSafe(a).trim();
+                        });
+                        break;
+
+                    case 'dxo':
+                    case 'doctrine-xml-out':
+                        ARGS.filter(a => {
+                            return eb_lib_helpers.isString(a) &&
+                                   !eb_lib_helpers.isEmptyString(a);
+                        }).forEach(a => {
+                            settings.doctrine.xmlOutDir = a;
+                        });
+                        break;
+
+                    default:
+                        isKnownOption = false;
+                        break;
+                }
+            }
+            else if (A.startsWith('sequelize-')) {
+                isKnownOption = true;
+
+                switch (A) {
+                    case 'sequelize-typescript':
+                        settings.sequelize.typescript = Enumerable.from(ARGS)
+                                                                  .all(a => true === a);
+                        break;
+
+                    default:
+                        isKnownOption = false;
+                        break;
+                }
+            }
+            else if (A.startsWith('sql-')) {
+                isKnownOption = true;
+
+                switch (A) {
+                    case 'sql-dialect':
+                        ARGS.filter(a => {
+                            return eb_lib_helpers.isString(a) &&
+                                   !eb_lib_helpers.isEmptyString(a);
+                        }).forEach(a => {
+                            settings.sql.dialect = eb_lib_helpers.normalizeString(a);
+                        });
+                        break;
+
+                    default:
+                        isKnownOption = false;
+                        break;
+                }
+            }
+            else if (A.startsWith('diff-')) {
+                isKnownOption = true;
+
+                const GET_VALUE = () => {
+                    return ARGS.filter(a => {
+                        return eb_lib_helpers.isString(a) &&
+                               !eb_lib_helpers.isEmptyString(a);
+                    }).map(a => {
+                        return eb_lib_helpers.toStringSafe(a).trim();
+                    }).pop();
+                };
+
+                switch (A) {
+                    case 'diff-context':
+                        settings.diff.context = GET_VALUE();
+                        break;
+
+                    case 'diff-format':
+                        settings.diff.format = eb_lib_helpers.normalizeString(GET_VALUE());
+                        break;
+
+                    case 'diff-name':
+                        settings.diff.name = GET_VALUE();
+                        break;
+
+                    case 'diff-namespace':
+                        settings.diff['namespace'] = GET_VALUE();
+                        break;
+
+                    case 'diff-out':
+                        settings.diff.outFile = GET_VALUE();
+                        break;
+
+                    default:
+                        isKnownOption = false;
+                        break;
+                }
+            }
+            else if (A.startsWith('import-')) {
+                isKnownOption = true;
+
+                const GET_VALUE = () => {
+                    return ARGS.filter(a => {
+                        return eb_lib_helpers.isString(a) &&
+                               !eb_lib_helpers.isEmptyString(a);
+                    }).map(a => {
+                        return eb_lib_helpers.toStringSafe(a).trim();
+                    }).pop();
+                };
+
+                switch (A) {
+                    case 'import-namespace':
+                        settings['import']['namespace'] = GET_VALUE();
+                        break;
+
+                    case 'import-out':
+                        settings['import'].outFile = GET_VALUE();
+                        break;
+
+                    default:
+                        isKnownOption = false;
+                        break;
+                }
+            }
+            else if (A.startsWith('prisma-')) {
+                isKnownOption = true;
+
+                switch (A) {
+                    case 'prisma-provider':
+                        ARGS.filter(a => {
+                            return eb_lib_helpers.isString(a) &&
+                                   !eb_lib_helpers.isEmptyString(a);
+                        }).forEach(a => {
+                            settings.prisma.provider = eb_lib_helpers.toStringSafe(a).trim();
+                        });
+                        break;
+
+                    default:
+                        isKnownOption = false;
+                        break;
+                }
+            }
+        }
+
+        if (!isKnownOption) {
+            eb_lib_helpers.write_err_ln(`Unknown option '${A}'!`);
+            eb_lib_helpers.write_err_ln();
+            showHelp(4);
+        }
+    }
+}
+
+function applyConfigFile(settings: AppSettings, cf: string) {
+    let cfgLoader: () => eb_lib_schema.ConfigFile;
+
+    const CFG = FS.readFileSync(cf, 'utf8');
+    if (eb_lib_helpers.isEmptyString(CFG)) {
+        return;
+    }
+
+    switch (Path.extname(cf)) {
+        case '.xml':
+            cfgLoader = () => {
+                let xmlFile: eb_lib_schema.ConfigFile;
+                XML.parseString({
+                    toString: () => CFG,
+                }, {
+                    async: false,
+                    explicitArray: false,
+                    explicitRoot: true,
+                    rootName: XML_ENTITY_FILE_ROOT,
+                }, (err, result) => {
+                    if (err) {
+                        throw err;
+                    }
+                    else {
+                        if (result) {
+                            xmlFile = result[ XML_ENTITY_FILE_ROOT ];
+                        }
+                    }
+                });
+
+                return xmlFile;
+            };
+            break;
+
+        case '.yaml':
+            cfgLoader = () => YAML.parse(CFG);
+            break;
+
+        default:
+            cfgLoader = () => JSON.parse(CFG);
+            break;
+    }
+
+    const LOADED_CFG_FILE = cfgLoader();
+    if (!LOADED_CFG_FILE) {
+        return;
+    }
+
+    if ('.xml' !== Path.extname(cf)) {
+        const SCHEMA_ERRORS = eb_lib_schema.validateSchema(LOADED_CFG_FILE, eb_lib_schema.getConfigFileSchema());
+        if (SCHEMA_ERRORS.length > 0) {
+            throw new Error([ `The config file '${cf}' is invalid:` ].concat(SCHEMA_ERRORS.map(e => {
+                return `\t${eb_lib_schema.toJsonPath(e.path)}: ${e.message}`;
+            })).join('\n'));
+        }
+    }
+
+    // apply settings...
+
+    // frameworks
+    settings.doctrine.generate = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.doctrine,
+                                                              settings.doctrine.generate);
+    settings.entityFramework = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.entityFramework,
+                                                            settings.entityFramework);
+    settings.entityFrameworkCore = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.entityFrameworkCore,
+                                                                settings.entityFrameworkCore);
+    settings.prisma.generate = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.prisma,
+                                                            settings.prisma.generate);
+    settings.sequelize.generate = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.sequelize,
+                                                               settings.sequelize.generate);
+    settings.sql.generate = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.sql,
+                                                         settings.sql.generate);
+    settings.typeorm = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.typeorm,
+                                                    settings.typeorm);
+
+    settings.manifest = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.manifest,
+                                                     settings.manifest);
+
+    // input / entity files
+    eb_lib_helpers.asArray(LOADED_CFG_FILE.inputFiles).map(i => {
+        return eb_lib_helpers.toStringSafe(i);
+    }).filter(i => !eb_lib_helpers.isEmptyString(i)).forEach(i => {
+        settings.inputFiles.push(i);
+    });
+
+    // output directory
+    if (!eb_lib_helpers.isEmptyString(LOADED_CFG_FILE.outDir)) {
+        settings.outDirs.push(
+            eb_lib_helpers.toStringSafe(LOADED_CFG_FILE.outDir)
+        );
+    }
+
+    // plugins
+    eb_lib_helpers.asArray(LOADED_CFG_FILE.plugins).map(p => {
+        return eb_lib_helpers.toStringSafe(p).trim();
+    }).filter(p => '' !== p).forEach(p => {
+        if (p.startsWith('.')) {
+            // relative to config file
+            p = Path.resolve(
+                Path.join(Path.dirname(cf), p)
+            );
+        }
+
+        settings.plugins.push(p);
+    });
+
+    // additional targets
+    eb_lib_helpers.asArray(LOADED_CFG_FILE.targets).map(t => {
+        return eb_lib_helpers.toStringSafe(t);
+    }).filter(t => !eb_lib_helpers.isEmptyString(t)).forEach(t => {
+        settings.targets.push(t);
+    });
+}
+
+function findEntityFiles(): string[] {
+    let entityFiles: string[] = [];
+    for (const FP of SETTINGS.inputFiles) {
+        const MATCHING_FILES = eb_lib_helpers.globSync(FP, {
+            cwd: process.cwd(),
+            nosort: false,
+            root: process.cwd(),
+        });
+
+        eb_lib_helpers.pushMany(entityFiles, MATCHING_FILES);
+    }
+
+    return Enumerable.from(entityFiles).distinct().orderBy(x => {
+        return eb_lib_helpers.normalizeString( Path.dirname(x) ).length;
+    }).thenBy(x => {
+        return eb_lib_helpers.normalizeString( Path.dirname(x) );
+    }).thenBy(x => {
+        return eb_lib_helpers.normalizeString( Path.basename(x) );
+    }).toArray();
+}
+
+function getDefaultSettings(): AppSettings {
+    return {
+        check: false,
+        clean: false,
+        cleanExtensions: false,
+        configFiles: [],
+        diff: {},
+        doctrine: {
+            generate: false,
+        },
+        dryRun: false,
+        entityFramework: false,
+        entityFrameworkCore: false,
+        'import': {},
+        inputFiles: [],
+        manifest: false,
+        outDirs: [],
+        plugins: [],
+        prisma: {
+            generate: false,
+        },
+        sequelize: {
+            generate: false,
+            typescript: false,
+        },
+        sql: {
+            generate: false,
+        },
+        targets: [],
+        typeorm: false,
+        watch: false,
+    };
+}
+
+function getEntityFileFormat(entityFile: string): string {
+    switch (Path.extname(entityFile)) {
+        case '.xml':
+            return 'xml';
+
+        case '.yaml':
+            return 'yaml';
+    }
+
+    return 'json';
+}
+
+function getEntityFileLoader(entityFile: string): EntityFileLoader {
+    switch (Path.extname(entityFile)) {
+        case '.xml':
+            return loadFromXml;
+
+        case '.yaml':
+            return loadFromYaml;
+    }
+
+    return loadFromJson;
+}
+
+function getEntityFileSaver(entityFile: string): EntityFileSaver {
+    switch (Path.extname(entityFile)) {
+        case '.xml':
+            return saveAsXml;
+
+        case '.yaml':
+            return saveAsYaml;
+    }
+
+    return saveAsJson;
+}
+
+function getFrameworks(settings: AppSettings): eb_lib_compiler.EntityTarget[] {
+    const FRAMEWORKS: eb_lib_compiler.EntityTarget[] = [];
+    if (settings.doctrine.generate) {
+        FRAMEWORKS.push(eb_lib_compiler.EntityFramework.Doctrine);
+    }
+    if (settings.entityFramework) {
+        FRAMEWORKS.push(eb_lib_compiler.EntityFramework.EntityFramework);
+    }
+    if (settings.entityFrameworkCore) {
+        FRAMEWORKS.push(eb_lib_compiler.EntityFramework.EntityFrameworkCore);
+    }
+    if (settings.typeorm) {
+        FRAMEWORKS.push(eb_lib_compiler.EntityFramework.TypeORM);
+    }
+    if (settings.prisma.generate) {
+        FRAMEWORKS.push(eb_lib_compiler.EntityFramework.Prisma);
+    }
+    if (settings.sequelize.generate) {
+        FRAMEWORKS.push(eb_lib_compiler.EntityFramework.Sequelize);
+    }
+    if (settings.sql.generate) {
+        FRAMEWORKS.push(eb_lib_compiler.EntityFramework.Sql);
+    }
+    for (const T of settings.targets) {
+        if (!eb_lib_targets.hasTarget(T)) {
+            throw new Error(`Unknown target '${T}'! Known targets are: ${eb_lib_targets.getTargetNames().join(', ')}`);
+        }
+
+        FRAMEWORKS.push(T);
+    }
+
+    return Enumerable.from(FRAMEWORKS).distinctBy(f => {
+        return eb_lib_targets.toTargetName(f);
+    }).toArray();
+}
+
+function getOutDirs(settings: AppSettings): string[] {
+    return Enumerable.from(settings.outDirs).select(x => {
+        if (!Path.isAbsolute(x)) {
+            x = Path.join(process.cwd(), x);
+        }
+
+        return Path.resolve(x);
+    }).distinct().orderBy(x => {
+        return eb_lib_helpers.normalizeString( Path.dirname(x) ).length;
+    }).thenBy(x => {
+        return eb_lib_helpers.normalizeString( Path.dirname(x) );
+    }).thenBy(x => {
+        return eb_lib_helpers.normalizeString( Path.basename(x) );
+    }).toArray();
+}
+
 async function loadFromJson(entityFile: string): Promise<eb_lib_compiler.EntityFile> {
     return JSON.parse(
         (await eb_lib_helpers.readFile(entityFile)).toString('utf8')
@@ -92,14 +671,91 @@ async function loadFromYaml(entityFile: string): Promise<eb_lib_compiler.EntityF
     );
 }
 
+function loadPlugins(settings: AppSettings) {
+    for (const P of eb_lib_targets.findTargetPlugins(process.cwd()).concat(settings.plugins)) {
+        try {
+            eb_lib_targets.loadTargetPlugin(P, process.cwd());
+        }
+        catch (e) {
+            throw new Error(`Could not load plugin '${P}': '${eb_lib_helpers.toStringSafe(e)}'`);
+        }
+    }
+}
+
+function loadSettings(): AppSettings {
+    const NEW_SETTINGS = getDefaultSettings();
+
+    // config files, which are overwritten by the command line
+    eb_lib_helpers.asArray(CMD_ARGS['c']).concat(CMD_ARGS['config']).filter(a => {
+        return eb_lib_helpers.isString(a) &&
+               !eb_lib_helpers.isEmptyString(a);
+    }).map(cf => {
+        if (!Path.isAbsolute(cf)) {
+            cf = Path.join(process.cwd(), cf);
+        }
+
+        return Path.resolve(cf);
+    }).forEach(cf => {
+        NEW_SETTINGS.configFiles.push(cf);
+
+        applyConfigFile(NEW_SETTINGS, cf);
+    });
+
+    applyCommandLineArgs(NEW_SETTINGS);
+
+    NEW_SETTINGS.inputFiles = eb_lib_helpers.distinctArray(NEW_SETTINGS.inputFiles);
+    if (NEW_SETTINGS.inputFiles.length < 1) {
+        NEW_SETTINGS.inputFiles
+                    .push(eb_lib_compiler.DEFAULT_ENTITY_FILE);
+    }
+
+    NEW_SETTINGS.outDirs = eb_lib_helpers.distinctArray(NEW_SETTINGS.outDirs);
+    if (NEW_SETTINGS.outDirs.length < 1) {
+        NEW_SETTINGS.outDirs
+                    .push('./out');
+    }
+
+    return NEW_SETTINGS;
+}
+
+async function saveAsJson(entityFile: string, obj: eb_lib_compiler.EntityFile) {
+    await eb_lib_helpers.writeFile(
+        entityFile, JSON.stringify(obj, null, 4) + '\n', 'utf8'
+    );
+}
+
+async function saveAsXml(entityFile: string, obj: eb_lib_compiler.EntityFile) {
+    const BUILDER = new XML.Builder({
+        rootName: XML_ENTITY_FILE_ROOT,
+    });
+
+    await eb_lib_helpers.writeFile(
+        entityFile, BUILDER.buildObject(obj) + '\n', 'utf8'
+    );
+}
+
+async function saveAsYaml(entityFile: string, obj: eb_lib_compiler.EntityFile) {
+    await eb_lib_helpers.writeFile(
+        entityFile, YAML.stringify(obj, 10, 2), 'utf8'
+    );
+}
+
 function showHelp(exitCode = 2) {
     eb_lib_helpers.write_ln(`node-entity-baker`);
     eb_lib_helpers.write_ln(`Syntax:    [entity files ...] [options]`);
+    eb_lib_helpers.write_ln(`           diff [old entity file] [new entity file] [options]`);
+    eb_lib_helpers.write_ln(`           import --sqlite [database file] [options]`);
+    eb_lib_helpers.write_ln(`           import --doctrine-xml [directory or glob pattern] [options]`);
+    eb_lib_helpers.write_ln(`           validate [entity files ...] [options]`);
     eb_lib_helpers.write_ln();
     eb_lib_helpers.write_ln(`Examples:  entity-baker --doctrine`);
     eb_lib_helpers.write_ln(`           entity-baker /path/to/entities.json --entity-framework`);
     eb_lib_helpers.write_ln(`           entity-baker my-entities.yaml --efc --out=C:/path/to/output/dir`);
     eb_lib_helpers.write_ln(`           entity-baker --config=/path/to/my/config/file.json`);
+    eb_lib_helpers.write_ln(`           entity-baker diff old.json new.json --diff-format=sql --sql-dialect=mysql`);
+    eb_lib_helpers.write_ln(`           entity-baker import --sqlite=./database.sqlite --import-out=entities.yaml`);
+    eb_lib_helpers.write_ln(`           entity-baker import --doctrine-xml=./config/doctrine`);
+    eb_lib_helpers.write_ln(`           entity-baker validate my-entities.yaml`);
     eb_lib_helpers.write_ln();
     eb_lib_helpers.write_ln(`Entity files:`);
     eb_lib_helpers.write_ln(`  Those files can be defined in JSON, XML or YAML format.`);
@@ -107,289 +763,331 @@ function showHelp(exitCode = 2) {
     eb_lib_helpers.write_ln(`Options:`);
     eb_lib_helpers.write_ln(` -?, --h, --help                   Show this help screen.`);
     eb_lib_helpers.write_ln(` -c, --config                      Loads a config file (JSON, XML or YAML).`);
+    eb_lib_helpers.write_ln(` --check                           Exits with code 1, if generated files differ from the ones on disk.`);
+    eb_lib_helpers.write_ln(` --clean                           Deletes generated files of removed entities (uses the manifest).`);
+    eb_lib_helpers.write_ln(` --clean-extensions                Like --clean, but also deletes their extension files.`);
     eb_lib_helpers.write_ln(` --d, --doctrine                   Build for Doctrine.`);
+    eb_lib_helpers.write_ln(` --dry-run                         Shows the changes as unified diffs, without writing files.`);
     eb_lib_helpers.write_ln(` --ef, --entity-framework          Build for Entity Framework.`);
     eb_lib_helpers.write_ln(` --efc, --entity-framework-core    Build for Entity Framework Core.`);
+    eb_lib_helpers.write_ln(` --manifest                        Skips unchanged classes by a manifest inside the output directory.`);
     eb_lib_helpers.write_ln(` -o, --out                         The output directory.`);
+    eb_lib_helpers.write_ln(` --prisma                          Build a Prisma schema.`);
+    eb_lib_helpers.write_ln(` --sequelize                       Build for Sequelize.`);
+    eb_lib_helpers.write_ln(` --sql                             Build a SQL script with 'CREATE TABLE' statements.`);
+    eb_lib_helpers.write_ln(` -t, --target                      Build for a registered target, like one of a plugin.`);
+    eb_lib_helpers.write_ln(` --typeorm                         Build for TypeORM.`);
+    eb_lib_helpers.write_ln(` --watch                           Recompiles entity files, when they or a config file change.`);
+    eb_lib_helpers.write_ln();
+    eb_lib_helpers.write_ln(`Plugins:`);
+    eb_lib_helpers.write_ln(`  npm packages, called '${eb_lib_targets.TARGET_PLUGIN_PREFIX}*', are loaded automatically.`);
+    eb_lib_helpers.write_ln(`  Other ones can be defined in the 'plugins' list of a config file.`);
     eb_lib_helpers.write_ln();
     eb_lib_helpers.write_ln(`Doctrine options:`);
-    eb_lib_helpers.write_ln(` -dxo, --doctrine-xml-out          Custom output directory for XML files.`);
+    eb_lib_helpers.write_ln(` --dpv, --doctrine-php-version     The PHP version of the project, like '7.4'.`);
+    eb_lib_helpers.write_ln(` --dxo, --doctrine-xml-out         Custom output directory for XML files.`);
+    eb_lib_helpers.write_ln();
+    eb_lib_helpers.write_ln(`Sequelize options:`);
+    eb_lib_helpers.write_ln(` --sequelize-typescript            Generate TypeScript instead of JavaScript modules.`);
+    eb_lib_helpers.write_ln();
+    eb_lib_helpers.write_ln(`SQL options:`);
+    eb_lib_helpers.write_ln(` --sql-dialect                     'mssql', 'mysql', 'postgres' or 'sqlite'. Default: 'postgres'`);
+    eb_lib_helpers.write_ln();
+    eb_lib_helpers.write_ln(`Prisma options:`);
+    eb_lib_helpers.write_ln(` --prisma-provider                 The provider of the datasource, like 'mysql'. Default: 'postgresql'`);
+    eb_lib_helpers.write_ln();
+    eb_lib_helpers.write_ln(`Diff options:`);
+    eb_lib_helpers.write_ln(` --diff-context                    The DbContext class of an Entity Framework Core migration.`);
+    eb_lib_helpers.write_ln(` --diff-format                     'list', 'sql', 'doctrine' or 'efcore'. Default: 'list'`);
+    eb_lib_helpers.write_ln(` --diff-name                       The name of the migration class.`);
+    eb_lib_helpers.write_ln(` --diff-namespace                  The namespace of the migration class.`);
+    eb_lib_helpers.write_ln(` --diff-out                        Writes the result to a file instead of the console.`);
+    eb_lib_helpers.write_ln();
+    eb_lib_helpers.write_ln(`Import options:`);
+    eb_lib_helpers.write_ln(` --doctrine-xml                    Imports Doctrine XML mapping files ('*.dcm.xml').`);
+    eb_lib_helpers.write_ln(` --sqlite                          Imports the tables of a SQLite database file.`);
+    eb_lib_helpers.write_ln(` --import-namespace                The namespace of the entity file.`);
+    eb_lib_helpers.write_ln(` --import-out                      The entity file to write (JSON, XML or YAML). Default: '${eb_lib_compiler.DEFAULT_ENTITY_FILE}'`);
     eb_lib_helpers.write_ln();
 
     process.exit(exitCode);
 }
 
+function validateEntityFile(entityFile: string, obj: eb_lib_compiler.EntityFile): eb_lib_validation.Diagnostic[] {
+    return eb_lib_validation.validate(obj, {
+        format: getEntityFileFormat(entityFile),
+        source: FS.readFileSync(entityFile, 'utf8'),
+    });
+}
+
+function writeDiagnostic(entityFile: string, diagnostic: eb_lib_validation.Diagnostic, prefix = '') {
+    let location = entityFile;
+    if (!eb_lib_helpers.isNullOrUndefined(diagnostic.line)) {
+        location += `:${diagnostic.line}:${diagnostic.column}`;
+    }
+
+    eb_lib_helpers.write_ln(`${prefix}${location}: ${diagnostic.severity} [${diagnostic.code}] ${diagnostic.message} (${diagnostic.path})`);
+}
 
-const SETTINGS: AppSettings = {
-    doctrine: {
-        generate: false,
-    },
-    entityFramework: false,
-    entityFrameworkCore: false,
-    inputFiles: [],
-    outDirs: [],
-};
 
 const CMD_ARGS = Minimist( process.argv.slice(2) );
+const IS_DIFF = 'diff' === eb_lib_helpers.normalizeString(CMD_ARGS._[0]);
+const IS_IMPORT = 'import' === eb_lib_helpers.normalizeString(CMD_ARGS._[0]);
+const IS_VALIDATE = 'validate' === eb_lib_helpers.normalizeString(CMD_ARGS._[0]);
 
-// config files
-{
-    const CONFIG_FILES = eb_lib_helpers.asArray(CMD_ARGS['c']).concat(CMD_ARGS['config']).filter(a => {
-        return eb_lib_helpers.isString(a) &&
-               !eb_lib_helpers.isEmptyString(a);
-    }).map(cf => {
-        if (!Path.isAbsolute(cf)) {
-            cf = Path.join(process.cwd(), cf);
-        }
+// settings, which are re-read in watch mode, if a config file changes
+let SETTINGS: AppSettings;
+let frameworks: eb_lib_compiler.EntityTarget[];
+let outDirs: string[];
+try {
+    SETTINGS = loadSettings();
 
-        return Path.resolve(cf);
-    }).forEach(cf => {
-        let cfgLoader: () => ConfigFile;
+    loadPlugins(SETTINGS);
 
-        const CFG = FS.readFileSync(cf, 'utf8');
-        if (eb_lib_helpers.isEmptyString(CFG)) {
-            return;
-        }
+    outDirs = getOutDirs(SETTINGS);
+}
+catch (e) {
+    eb_lib_helpers.write_err_ln(`[ERROR] ${eb_lib_helpers.toStringSafe(e)}`);
+    process.exit(1);
+}
+try {
+    frameworks = getFrameworks(SETTINGS);
+}
+catch (e) {
+    eb_lib_helpers.write_err_ln(eb_lib_helpers.toStringSafe(e));
+    eb_lib_helpers.write_err_ln();
 
-        switch (Path.extname(cf)) {
-            case '.xml':
-                cfgLoader = () => {
-                    let xmlFile: ConfigFile;
-                    XML.parseString({
-                        toString: () => CFG,
-                    }, {
-                        async: false,
-                        explicitArray: false,
-                        explicitRoot: true,
-                        rootName: XML_ENTITY_FILE_ROOT,
-                    }, (err, result) => {
-                        if (err) {
-                            throw err;
-                        }
-                        else {
-                            if (result) {
-                                xmlFile = result[ XML_ENTITY_FILE_ROOT ];
-                            }
-                        }
-                    });
+    showHelp(4);
+}
 
-                    return xmlFile;
-                };
-                break;
+if (frameworks.length < 1 && !IS_DIFF && !IS_IMPORT && !IS_VALIDATE) {
+    eb_lib_helpers.write_err_ln(`No target defined!`);
+    eb_lib_helpers.write_err_ln();
 
-            case '.yaml':
-                cfgLoader = () => YAML.parse(CFG);
-                break;
+    showHelp(4);  // no target(s) defined
+}
 
-            default:
-                cfgLoader = () => JSON.parse(CFG);
-                break;
+
+// results of all compile operations
+const COMPILE_RESULTS: eb_lib_compiler.EntityCompilerResult[] = [];
+let hasFailed = false;
+
+const COMPLETED = (err: any) => {
+    eb_lib_helpers.write_ln();
+
+    const CLASSES = Enumerable.from(COMPILE_RESULTS).selectMany(r => r.classes).toArray();
+    const FILES = Enumerable.from(COMPILE_RESULTS).selectMany(r => r.files).toArray();
+    const FAILED_CLASSES = CLASSES.filter(c => !eb_lib_helpers.isNullOrUndefined(c.error));
+
+    const COUNT_FILES = (action: string) => {
+        return FILES.filter(f => action === f.action).length;
+    };
+
+    eb_lib_helpers.write_ln(`Summary:`);
+    eb_lib_helpers.write_ln(`\tClasses:  ${CLASSES.length} (${FAILED_CLASSES.length} failed, ${CLASSES.filter(c => c.skipped).length} unchanged)`);
+    eb_lib_helpers.write_ln(`\tFiles:    ${COUNT_FILES(eb_lib_compiler.FILE_CREATED)} created, ${COUNT_FILES(eb_lib_compiler.FILE_OVERWRITTEN)} overwritten, ${COUNT_FILES(eb_lib_compiler.FILE_SKIPPED)} skipped, ${COUNT_FILES(eb_lib_compiler.FILE_UNCHANGED)} unchanged, ${COUNT_FILES(eb_lib_compiler.FILE_REMOVED)} removed`);
+    if (!SETTINGS.check && !SETTINGS.dryRun) {
+        for (const F of FILES.filter(f => eb_lib_compiler.FILE_REMOVED === f.action)) {
+            eb_lib_helpers.write_ln(`\t\t[${F.action}] ${F.path}`);
         }
+    }
 
-        const LOADED_CFG_FILE = cfgLoader();
-        if (!LOADED_CFG_FILE) {
-            return;
+    let warnings: string[] = [];
+    for (const R of COMPILE_RESULTS) {
+        for (const C of R.classes) {
+            warnings = warnings.concat(C.warnings.map(w => {
+                return `[${C.name}] ${w}`;
+            }));
         }
 
-        // apply settings...
+        warnings = warnings.concat(R.warnings);
+    }
+    warnings = eb_lib_helpers.distinctArray(warnings);
 
-        // frameworks
-        SETTINGS.doctrine.generate = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.doctrine,
-                                                                  SETTINGS.doctrine);
-        SETTINGS.entityFramework = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.entityFramework,
-                                                                SETTINGS.entityFramework);
-        SETTINGS.entityFrameworkCore = eb_lib_helpers.toBooleanSafe(LOADED_CFG_FILE.entityFrameworkCore,
-                                                                    SETTINGS.entityFrameworkCore);
+    if (warnings.length > 0) {
+        eb_lib_helpers.write_ln(`\tWarnings: ${warnings.length}`);
+        for (const W of warnings) {
+            eb_lib_helpers.write_ln(`\t\t${W}`);
+        }
+    }
+    let outdatedFiles = 0;
+    if (SETTINGS.check || SETTINGS.dryRun) {
+        // first change of each file
+        const CHANGES = Enumerable.from(FILES).where(f => {
+            return eb_lib_compiler.FILE_CREATED === f.action ||
+                   eb_lib_compiler.FILE_OVERWRITTEN === f.action ||
+                   eb_lib_compiler.FILE_REMOVED === f.action;
+        }).distinctBy(f => f.path)
+          .toArray();
+
+        const GENERATED_FILES = CHANGES.filter(f => !f.isExtension);
+        const EXTENSION_FILES = CHANGES.filter(f => f.isExtension);
+
+        if (SETTINGS.dryRun) {
+            for (const F of GENERATED_FILES.filter(f => !eb_lib_helpers.isEmptyString(f.diff))) {
+                eb_lib_helpers.write_ln();
+                eb_lib_helpers.write(F.diff);
+            }
+            eb_lib_helpers.write_ln();
+        }
 
-        // input / entity files
-        eb_lib_helpers.asArray(LOADED_CFG_FILE.inputFiles).map(i => {
-            return eb_lib_helpers.toStringSafe(i);
-        }).filter(i => !eb_lib_helpers.isEmptyString(i)).forEach(i => {
-            SETTINGS.inputFiles.push(i);
-        });
+        if (GENERATED_FILES.length > 0) {
+            eb_lib_helpers.write_ln(`Files, which would change:`);
+            for (const F of GENERATED_FILES) {
+                eb_lib_helpers.write_ln(`\t[${F.action}] ${F.path}`);
+            }
+        }
+        if (EXTENSION_FILES.length > 0) {
+            eb_lib_helpers.write_ln(`Extension files, which would be created once or removed:`);
+            for (const F of EXTENSION_FILES) {
+                eb_lib_helpers.write_ln(`\t[${F.action}] ${F.path}`);
+            }
+        }
 
-        // output directory
-        if (!eb_lib_helpers.isEmptyString(LOADED_CFG_FILE.outDir)) {
-            SETTINGS.outDirs.push(
-                eb_lib_helpers.toStringSafe(LOADED_CFG_FILE.outDir)
-            );
+        if (SETTINGS.check) {
+            outdatedFiles = GENERATED_FILES.length;
         }
-    });
-}
+    }
 
-for (const A in CMD_ARGS) {
-    const ARGS = eb_lib_helpers.asArray(CMD_ARGS[A]);
+    for (const C of FAILED_CLASSES) {
+        const TARGET_NAME = eb_lib_compiler.EntityFramework[ <any>C.target ] || eb_lib_targets.toTargetName(C.target);
 
-    let isKnownOption = true;
+        eb_lib_helpers.write_err_ln(`[ERROR] Class '${C.name}' (${TARGET_NAME}): '${eb_lib_helpers.toStringSafe(C.error)}'`);
+    }
 
-    switch (A) {
-        case '_':
-            eb_lib_helpers.pushMany(
-                SETTINGS.inputFiles,
-                ARGS.filter(a => {
-                    return eb_lib_helpers.isString(a) &&
-                           !eb_lib_helpers.isEmptyString(a);
-                }),
-            );
-            break;
+    let exitCode = 0;
+    if (err) {
+        eb_lib_helpers.write_err_ln(`[ERROR] '${eb_lib_helpers.toStringSafe(err)}'`);
+        exitCode = 1;
+    }
+    else {
+        if (outdatedFiles > 0) {
+            eb_lib_helpers.write_err_ln(`[ERROR] ${outdatedFiles} generated file(s) are not up to date!`);
+        }
 
-        case 'c':
-        case 'config':
-            break;
+        exitCode = hasFailed || FAILED_CLASSES.length > 0 || outdatedFiles > 0 ? 1 : 0;
+    }
 
-        case 'o':
-        case 'out':
-            // output directory
-            eb_lib_helpers.pushMany(
-                SETTINGS.outDirs,
-                ARGS.filter(a => {
-                    return eb_lib_helpers.isString(a) &&
-                           !eb_lib_helpers.isEmptyString(a);
-                }),
-            );
-            break;
+    if (SETTINGS.watch) {
+        // reset for next run
+        COMPILE_RESULTS.splice(0, COMPILE_RESULTS.length);
+        hasFailed = false;
 
-        case 'd':
-        case 'doctrine':
-            SETTINGS.doctrine.generate = Enumerable.from(ARGS)
-                                                   .all(a => true === a);
-            break;
+        WATCH();
+    }
+    else {
+        process.exit(exitCode);
+    }
+};
 
-        case 'ef':
-        case 'entity-framework':
-            SETTINGS.entityFramework = Enumerable.from(ARGS)
-                                                 .all(a => true === a);
-            break;
 
-        case 'efc':
-        case 'entity-framework-core':
-            SETTINGS.entityFrameworkCore = Enumerable.from(ARGS)
-                                                     .all(a => true === a);
-            break;
+// last modification times of the watched files
+const WATCHED_FILES: { [file: string]: number } = {};
+let isCompiling = true;
+let watcher: NodeJS.Timer;
 
-        case '?':
-        case 'help':
-            showHelp();
-            break;
+// reads the changed config files, and keeps
+// the current settings, if they are invalid
+const RELOAD_SETTINGS = () => {
+    const NEW_SETTINGS = loadSettings();
 
-        default:
-            isKnownOption = false;
-            break;
+    loadPlugins(NEW_SETTINGS);
+
+    const NEW_FRAMEWORKS = getFrameworks(NEW_SETTINGS);
+    if (NEW_FRAMEWORKS.length < 1) {
+        throw new Error(`No target defined!`);
     }
 
-    if (!isKnownOption) {
-        if (A.startsWith('doctrine-')) {
-            isKnownOption = true;
+    SETTINGS = NEW_SETTINGS;
+    frameworks = NEW_FRAMEWORKS;
+    outDirs = getOutDirs(NEW_SETTINGS);
 
-            switch (A) {
-                case 'dxo':
-                case 'doctrine-xml-out':
-                    ARGS.filter(a => {
-                        return eb_lib_helpers.isString(a) &&
-                               !eb_lib_helpers.isEmptyString(a);
-                    }).forEach(a => {
-                        SETTINGS.doctrine.xmlOutDir = a;
-                    });
-                    break;
-
-                default:
-                    isKnownOption = false;
-                    break;
+    eb_lib_helpers.write_ln();
+    eb_lib_helpers.write_ln(`Reloaded the settings of ${SETTINGS.configFiles.length} config file(s).`);
+};
+
+const WATCH = () => {
+    isCompiling = false;
+
+    const GET_MTIME = (file: string) => {
+        try {
+            return FS.statSync(file).mtime.getTime();
+        }
+        catch (e) {
+            return false;  // removed
+        }
+    };
+
+    // updates the list and returns the changed files
+    const UPDATE_WATCHED_FILES = (files: string[]) => {
+        const CHANGED_FILES: string[] = [];
+
+        for (const F of files) {
+            const MTIME = GET_MTIME(F);
+            if (false === MTIME) {
+                delete WATCHED_FILES[F];
+                continue;
             }
+
+            if (WATCHED_FILES[F] !== MTIME) {
+                CHANGED_FILES.push(F);
+            }
+
+            WATCHED_FILES[F] = MTIME;
         }
-    }
 
-    if (!isKnownOption) {
-        eb_lib_helpers.write_err_ln(`Unknown option '${A}'!`);
-        eb_lib_helpers.write_err_ln();
-        showHelp(4);
+        return CHANGED_FILES;
+    };
+
+    if (watcher) {
+        return;
     }
-}
 
-SETTINGS.inputFiles = eb_lib_helpers.distinctArray(SETTINGS.inputFiles);
-if (SETTINGS.inputFiles.length < 1) {
-    SETTINGS.inputFiles
-            .push(eb_lib_compiler.DEFAULT_ENTITY_FILE);
-}
+    UPDATE_WATCHED_FILES(SETTINGS.configFiles.concat(findEntityFiles()));
 
-SETTINGS.outDirs = eb_lib_helpers.distinctArray(SETTINGS.outDirs);
-if (SETTINGS.outDirs.length < 1) {
-    SETTINGS.outDirs
-            .push('./out');
-}
+    eb_lib_helpers.write_ln(`Watching for changes... (press CTRL+C to stop)`);
 
-// entity files
-let entityFiles: string[] = [];
-for (const FP of SETTINGS.inputFiles) {
-    const MATCHING_FILES = eb_lib_helpers.globSync(FP, {
-        cwd: process.cwd(),
-        nosort: false,
-        root: process.cwd(),
-    });
+    watcher = setInterval(() => {
+        if (isCompiling) {
+            return;
+        }
 
-    eb_lib_helpers.pushMany(entityFiles, MATCHING_FILES);
-}
-entityFiles = Enumerable.from(entityFiles).distinct().orderBy(x => {
-    return eb_lib_helpers.normalizeString( Path.dirname(x) ).length;
-}).thenBy(x => {
-    return eb_lib_helpers.normalizeString( Path.dirname(x) );
-}).thenBy(x => {
-    return eb_lib_helpers.normalizeString( Path.basename(x) );
-}).toArray();
-
-// output directories
-let outDirs = Enumerable.from(SETTINGS.outDirs).select(x => {
-    if (!Path.isAbsolute(x)) {
-        x = Path.join(process.cwd(), x);
-    }
-
-    return Path.resolve(x);
-}).distinct().orderBy(x => {
-    return eb_lib_helpers.normalizeString( Path.dirname(x) ).length;
-}).thenBy(x => {
-    return eb_lib_helpers.normalizeString( Path.dirname(x) );
-}).thenBy(x => {
-    return eb_lib_helpers.normalizeString( Path.basename(x) );
-}).toArray();
-
-
-// targets
-let frameworks: eb_lib_compiler.EntityFramework[] = [];
-if (SETTINGS.doctrine.generate) {
-    frameworks.push(eb_lib_compiler.EntityFramework.Doctrine);
-}
-if (SETTINGS.entityFramework) {
-    frameworks.push(eb_lib_compiler.EntityFramework.EntityFramework);
-}
-if (SETTINGS.entityFrameworkCore) {
-    frameworks.push(eb_lib_compiler.EntityFramework.EntityFrameworkCore);
-}
+        try {
+            const HAS_CHANGED_CONFIG = UPDATE_WATCHED_FILES(SETTINGS.configFiles).length > 0;
+            if (HAS_CHANGED_CONFIG) {
+                RELOAD_SETTINGS();
+            }
 
-if (frameworks.length < 1) {
-    eb_lib_helpers.write_err_ln(`No target defined!`);
-    eb_lib_helpers.write_err_ln();
+            const CURRENT_ENTITY_FILES = findEntityFiles();
 
-    showHelp(4);  // no target(s) defined
-}
+            let filesToCompile = UPDATE_WATCHED_FILES(CURRENT_ENTITY_FILES);
+            if (HAS_CHANGED_CONFIG) {
+                // recompile all
+                filesToCompile = CURRENT_ENTITY_FILES;
+            }
 
+            if (filesToCompile.length > 0) {
+                isCompiling = true;
 
-const COMPLETED = (err: any) => {
-    eb_lib_helpers.write_ln();
+                eb_lib_helpers.write_ln();
+                eb_lib_helpers.pushMany(ENTITY_FILES, filesToCompile);
 
-    if (err) {
-        eb_lib_helpers.write_err_ln(`[ERROR] '${eb_lib_helpers.toStringSafe(err)}'`);
-        process.exit(1);
-    }
-    else {
-        process.exit(0);
-    }
+                NEXT_FILE();
+            }
+        }
+        catch (e) {
+            eb_lib_helpers.write_err_ln(`[ERROR] '${eb_lib_helpers.toStringSafe(e)}'`);
+        }
+    }, 1000);
 };
 
 
-const ENTITY_FILES = entityFiles.map(f => f);
+const ENTITY_FILES = findEntityFiles();
 const NEXT_FILE = function (err?: any) {
     if (arguments.length > 0) {
         if (err) {
+            hasFailed = true;
+
             eb_lib_helpers.write_ln(`[ERROR] '${eb_lib_helpers.toStringSafe(err)}'`);
         }
         else {
@@ -404,6 +1102,8 @@ const NEXT_FILE = function (err?: any) {
 
     const DIR_COMPLETED = (err: any) => {
         if (err) {                    
+            hasFailed = true;
+
             eb_lib_helpers.write_ln(`\t[ERROR] '${eb_lib_helpers.toStringSafe(err)}'`);
         }
         else {
@@ -416,27 +1116,26 @@ const NEXT_FILE = function (err?: any) {
     try {
         const EF = ENTITY_FILES.shift();
 
-        let entityFileLoader: EntityFileLoader;
-        switch (Path.extname(EF)) {
-            case '.xml':
-                entityFileLoader = loadFromXml;
-                break;
-
-            case '.yaml':
-                entityFileLoader = loadFromYaml;
-                break;
-
-            default:
-                entityFileLoader = loadFromJson;
-                break;
-        }
-
-        entityFileLoader(EF).then((entityFileObject) => {
+        getEntityFileLoader(EF)(EF).then((entityFileObject) => {
             if (!eb_lib_helpers.isObj<eb_lib_compiler.EntityFile>(entityFileObject)) {
                 NEXT_FILE(null);
                 return;
             }
 
+            // validation phase
+            const ERRORS = validateEntityFile(EF, entityFileObject).filter(d => {
+                return eb_lib_validation.SEVERITY_ERROR === d.severity;
+            });
+            if (ERRORS.length > 0) {
+                eb_lib_helpers.write_ln(`Validating entities of '${EF}'... `);
+                for (const D of ERRORS) {
+                    writeDiagnostic(EF, D, '\t');
+                }
+
+                NEXT_FILE(new Error(`The entity file contains ${ERRORS.length} error(s)!`));
+                return;
+            }
+
             eb_lib_helpers.write_ln(`Compiling entities of '${EF}'... `);
             try {
                 const OUT_DIRS = outDirs.map(d => d);
@@ -452,12 +1151,14 @@ const NEXT_FILE = function (err?: any) {
                         const ENTITY_FRAMEWORKS = frameworks.map(f => f);
                         const NEXT_TARGET = () => {
                             if (ENTITY_FRAMEWORKS.length < 1) {
-                                DIR_COMPLETED(null);
+                                NEXT_DIR();
                                 return;
                             }
 
                             const TARGET_COMPLETED = (err: any) => {
                                 if (err) {                    
+                                    hasFailed = true;
+
                                     eb_lib_helpers.write_ln(`\t[ERROR] '${eb_lib_helpers.toStringSafe(err)}'`);
                                 }
                                 else {
@@ -484,16 +1185,25 @@ const NEXT_FILE = function (err?: any) {
                                         case eb_lib_compiler.EntityFramework.EntityFrameworkCore:
                                             outDir = Path.join(outDir, 'ef-core');
                                             break;
+
+                                        default:
+                                            outDir = Path.join(outDir, eb_lib_targets.toTargetName(EF));
+                                            break;
                                     }
                                 }
                                 outDir = Path.resolve(outDir);
 
-                                let frameworkName = eb_lib_compiler.EntityFramework[EF];
+                                let frameworkName = eb_lib_compiler.EntityFramework[ <any>EF ] || eb_lib_targets.toTargetName(EF);
 
                                 eb_lib_helpers.write_ln(`\tWriting ${frameworkName} entities to '${OD}'... `);
                                 eb_lib_compiler.compile({
+                                    check: SETTINGS.check,
+                                    clean: SETTINGS.clean,
+                                    cleanExtensions: SETTINGS.cleanExtensions,
                                     cwd: process.cwd(),
+                                    dryRun: SETTINGS.dryRun,
                                     file: entityFileObject,
+                                    manifest: SETTINGS.manifest,
                                     outDir: outDir,
                                     target: EF,
             
@@ -513,9 +1223,24 @@ const NEXT_FILE = function (err?: any) {
                                     },
 
                                     doctrine: {
+                                        phpVersion: SETTINGS.doctrine.phpVersion,
                                         xmlOutDir: SETTINGS.doctrine.xmlOutDir,
-                                    }
-                                }).then(() => {
+                                    },
+
+                                    prisma: {
+                                        provider: SETTINGS.prisma.provider,
+                                    },
+
+                                    sequelize: {
+                                        typescript: SETTINGS.sequelize.typescript,
+                                    },
+
+                                    sql: {
+                                        dialect: SETTINGS.sql.dialect,
+                                    },
+                                }).then((result) => {
+                                    COMPILE_RESULTS.push(result);
+
                                     TARGET_COMPLETED(null);
                                 }, (err) => {
                                     TARGET_COMPLETED(err);
@@ -547,4 +1272,165 @@ const NEXT_FILE = function (err?: any) {
     }
 };
 
-NEXT_FILE();
+const DIFF = async () => {
+    const FILES = CMD_ARGS._.slice(1).map(f => {
+        return eb_lib_helpers.toStringSafe(f);
+    });
+    if (2 !== FILES.length) {
+        throw new Error(`The 'diff' command requires an old and a new entity file!`);
+    }
+
+    const LOAD_FILE = async (entityFile: string) => {
+        const ENTITY_FILE = await getEntityFileLoader(entityFile)(entityFile);
+
+        const ERRORS = validateEntityFile(entityFile, ENTITY_FILE).filter(d => {
+            return eb_lib_validation.SEVERITY_ERROR === d.severity;
+        });
+        if (ERRORS.length > 0) {
+            for (const D of ERRORS) {
+                writeDiagnostic(entityFile, D);
+            }
+
+            throw new Error(`The entity file '${entityFile}' contains ${ERRORS.length} error(s)!`);
+        }
+
+        return ENTITY_FILE;
+    };
+
+    const OLD_FILE = await LOAD_FILE(FILES[0]);
+    const NEW_FILE = await LOAD_FILE(FILES[1]);
+
+    const CHANGES = eb_lib_diff.diffEntityFiles(OLD_FILE, NEW_FILE);
+    const MIGRATION_OPTIONS: eb_lib_diff.MigrationOptions = {
+        context: SETTINGS.diff.context,
+        dialect: SETTINGS.sql.dialect,
+        name: SETTINGS.diff.name,
+        'namespace': SETTINGS.diff['namespace'],
+    };
+
+    let output: string;
+    switch (eb_lib_helpers.normalizeString(SETTINGS.diff.format)) {
+        case '':
+        case 'list':
+            output = CHANGES.entities.map(e => {
+                let entity = `[${e.kind}] ${e.name}`;
+                if (eb_lib_diff.CHANGE_RENAMED === e.kind) {
+                    entity = `[${e.kind}] ${e.oldName} -> ${e.name}`;
+                }
+                if (e.primaryKeyChanged) {
+                    entity += ' (primary key)';
+                }
+
+                return [ entity ].concat(e.columns.map(c => {
+                    let column = `    [${c.kind}] ${c.name}`;
+                    if (eb_lib_diff.CHANGE_RENAMED === c.kind) {
+                        if (c.oldName !== c.name) {
+                            column = `    [${c.kind}] ${c.oldName} -> ${c.name}`;
+                        }
+                        else {
+                            // only the database column has been renamed
+                            column = `    [${c.kind}] ${c.name} ('${eb_lib_compiler.getColumnDbName(c.name, c.oldColumn)}' -> '${eb_lib_compiler.getColumnDbName(c.name, c.newColumn)}')`;
+                        }
+                    }
+                    if (c.changes.length > 0) {
+                        column += ` (${c.changes.join(', ')})`;
+                    }
+
+                    return column;
+                })).join('\n');
+            }).join('\n') + '\n';
+            break;
+
+        case 'doctrine':
+            output = eb_lib_diff.toDoctrineMigration(CHANGES, MIGRATION_OPTIONS);
+            break;
+
+        case 'efcore':
+            output = eb_lib_diff.toEntityFrameworkCoreMigration(CHANGES, MIGRATION_OPTIONS);
+            break;
+
+        case 'sql':
+            output = eb_lib_diff.toSqlMigration(CHANGES, MIGRATION_OPTIONS);
+            break;
+
+        default:
+            throw new Error(`The diff format '${SETTINGS.diff.format}' is not supported!`);
+    }
+
+    if (eb_lib_helpers.isEmptyString(SETTINGS.diff.outFile)) {
+        eb_lib_helpers.write(output);
+    }
+    else {
+        await eb_lib_helpers.writeFile(Path.resolve(SETTINGS.diff.outFile), output, 'utf8');
+    }
+};
+
+const IMPORT = async () => {
+    const SOURCE = SETTINGS['import'].source;
+    if (eb_lib_helpers.isEmptyString(SETTINGS['import'].importer) || eb_lib_helpers.isEmptyString(SOURCE)) {
+        throw new Error(`No source defined! Known importers are: ${eb_lib_import.getImporterNames().map(i => '--' + i).join(', ')}`);
+    }
+
+    let outFile = SETTINGS['import'].outFile;
+    if (eb_lib_helpers.isEmptyString(outFile)) {
+        outFile = eb_lib_compiler.DEFAULT_ENTITY_FILE;
+
+        if (await eb_lib_helpers.exists(Path.resolve(outFile))) {
+            throw new Error(`The file '${outFile}' already exists! Use --import-out to define the output file.`);
+        }
+    }
+    outFile = Path.resolve(outFile);
+
+    eb_lib_helpers.write(`Importing entities from '${SOURCE}'... `);
+
+    const ENTITY_FILE = await eb_lib_import.importEntities(SETTINGS['import'].importer, SOURCE, {
+        'namespace': SETTINGS['import']['namespace'],
+    });
+
+    await getEntityFileSaver(outFile)(outFile, ENTITY_FILE);
+
+    eb_lib_helpers.write_ln(`[OK: ${Object.keys(ENTITY_FILE.entities).length} entities written to '${outFile}']`);
+};
+
+const VALIDATE = async () => {
+    const FILES = findEntityFiles();
+    if (FILES.length < 1) {
+        throw new Error(`No entity files found!`);
+    }
+
+    let errors = 0;
+    let warnings = 0;
+    for (const F of FILES) {
+        const DIAGNOSTICS = validateEntityFile(F, await getEntityFileLoader(F)(F));
+
+        for (const D of DIAGNOSTICS) {
+            if (eb_lib_validation.SEVERITY_ERROR === D.severity) {
+                ++errors;
+            }
+            else {
+                ++warnings;
+            }
+
+            writeDiagnostic(F, D);
+        }
+    }
+
+    eb_lib_helpers.write_ln(`${errors} error(s), ${warnings} warning(s) in ${FILES.length} entity file(s)`);
+
+    if (errors > 0) {
+        throw new Error(`The entity files contain ${errors} error(s)!`);
+    }
+};
+
+
+if (IS_DIFF || IS_IMPORT || IS_VALIDATE) {
+    (IS_DIFF ? DIFF() : (IS_IMPORT ? IMPORT() : VALIDATE())).then(() => {
+        process.exit(0);
+    }, (err) => {
+        eb_lib_helpers.write_err_ln(`[ERROR] '${eb_lib_helpers.toStringSafe(err)}'`);
+        process.exit(1);
+    });
+}
+else {
+    NEXT_FILE();
+}
@@ -16,6 +16,13 @@
  */
 
 export * from './lib/compiler';
+export * from './lib/diff';
+export * from './lib/import';
+export * from './lib/naming';
+export * from './lib/output';
+export * from './lib/schema';
+export * from './lib/targets';
+export * from './lib/validation';
 
 if (require.main === module) {
     // called from command line
@@ -15,10 +15,13 @@
  * along with this program. If not, see <http://www.gnu.org/licenses/>.
  */
 
-import * as eb_lib_doctrine from './doctrine';
-import * as eb_lib_ef from './ef';
-import * as eb_lib_ef_core from './efcore';
 import * as eb_lib_helpers from './helpers';
+import * as eb_lib_manifest from './manifest';
+import * as eb_lib_naming from './naming';
+import * as eb_lib_output from './output';
+import * as eb_lib_targets from './targets';
+import * as eb_lib_validation from './validation';
+import * as Diff from 'diff';
 import * as Enumerable from 'node-enumerable';
 import * as FSExtra from 'fs-extra';
 import * as Path from 'path';
@@ -32,18 +35,18 @@ export interface CompilerCallbacks {
      * Is invoked before a class is being generated.
      * 
      * @param {string} className The name of the class.
-     * @param {EntityFramework} target The target framework.
+     * @param {EntityTarget} target The target framework.
      */
-    readonly onBeforeGenerateClass?: (className: string, target: EntityFramework) => void | PromiseLike<void>;
+    readonly onBeforeGenerateClass?: (className: string, target: EntityTarget) => void | PromiseLike<void>;
     
     /**
      * Is invoked after a class has been generated.
      * 
      * @param {any} err The error (if occurred).
      * @param {string} className The name of the class.
-     * @param {EntityFramework} target The target framework.
+     * @param {EntityTarget} target The target framework.
      */
-    readonly onClassGenerated?: (err: any, className: string, target: EntityFramework) => void | PromiseLike<void>;
+    readonly onClassGenerated?: (err: any, className: string, target: EntityTarget) => void | PromiseLike<void>;
 }
 
 /**
@@ -54,10 +57,26 @@ export interface EntityClass {
      * Table columns.
      */
     readonly columns?: EntityColumnDescriptions;
+    /**
+     * Indexes.
+     */
+    readonly indexes?: EntityIndex | EntityIndex[];
+    /**
+     * Relations to other entities.
+     */
+    readonly relations?: EntityRelationDescriptions;
+    /**
+     * The name of the entity in a previous version of the entity file (schema diffs only).
+     */
+    readonly renamedFrom?: string;
     /**
      * The (custom) name of the underlying name.
      */
     readonly table?: string;
+    /**
+     * Unique constraints.
+     */
+    readonly uniqueConstraints?: EntityIndex | EntityIndex[];
 }
 
 /**
@@ -73,18 +92,62 @@ export interface EntityColumn {
      * Is auto generated value or not.
      */
     readonly auto?: boolean;
+    /**
+     * A raw SQL expression, which is used as default value by the database, like 'CURRENT_TIMESTAMP'.
+     */
+    readonly dbDefault?: string;
+    /**
+     * The (custom) name of the underlying database column.
+     */
+    readonly dbName?: string;
+    /**
+     * A literal, which is used as initial / default value.
+     */
+    readonly 'default'?: any;
+    /**
+     * The name of an enum, which is defined in the entity file (enum columns only).
+     */
+    readonly 'enum'?: string;
     /**
      * Is ID value or not.
      */
     readonly id?: boolean;
+    /**
+     * The maximum length.
+     */
+    readonly length?: number;
     /**
      * Can be (null) or not.
      */
     readonly 'null'?: boolean;
+    /**
+     * The position inside a composite primary key.
+     */
+    readonly order?: number;
+    /**
+     * The precision (number of digits) of a decimal value.
+     */
+    readonly precision?: number;
+    /**
+     * The name of the column in a previous version of the entity file (schema diffs only).
+     */
+    readonly renamedFrom?: string;
+    /**
+     * The scale (number of digits after the decimal point) of a decimal value.
+     */
+    readonly scale?: number;
     /**
      * The data type.
      */
     readonly type?: string;
+    /**
+     * Is unsigned value or not.
+     */
+    readonly unsigned?: boolean;
+    /**
+     * The values of an inline enum (enum columns only).
+     */
+    readonly values?: EntityEnumValues;
 }
 
 /**
@@ -110,6 +173,19 @@ export interface EntityCompilerOptions {
      * Callbacks
      */
     readonly callbacks?: CompilerCallbacks;
+    /**
+     * Only compare the generated files with the existing ones, without writing anything.
+     */
+    readonly check?: boolean;
+    /**
+     * Delete generated files, which do not belong to any entity anymore.
+     * This requires the manifest, s. 'manifest' option.
+     */
+    readonly clean?: boolean;
+    /**
+     * Like 'clean', but also delete the extension files of removed entities.
+     */
+    readonly cleanExtensions?: boolean;
     /**
      * The custom working directory.
      */
@@ -118,29 +194,163 @@ export interface EntityCompilerOptions {
      * Special options for Doctrine.
      */
     readonly doctrine?: {
+        /**
+         * The PHP version of the target project, like '7.4'.
+         * Enums are generated as classes with constants for versions older than 8.1.
+         */
+        readonly phpVersion?: string;
         /**
          *The directory where to store the XML files.
          */        
         readonly xmlOutDir?: string;
     };
+    /**
+     * Like 'check', but also stores unified diffs of the changed files in the result.
+     */
+    readonly dryRun?: boolean;
     /**
      * The file with the entity descriptions.
      */
     readonly file?: EntityFile;
+    /**
+     * Keep a manifest with the hashes of the input and the output inside the output directory
+     * ('.entity-baker-manifest.json'), so that unchanged classes are not generated again.
+     */
+    readonly manifest?: boolean;
+    /**
+     * The naming strategy, which overwrites the one of the entity file.
+     */
+    readonly naming?: eb_lib_naming.NamingStrategy | eb_lib_naming.NamingStrategyOptions;
     /**
      * The output directory.
      */
     readonly outDir?: string;
+    /**
+     * The writer for the generated files. Default: The file system.
+     */
+    readonly output?: eb_lib_output.OutputWriter;
+    /**
+     * Special options for Prisma.
+     */
+    readonly prisma?: {
+        /**
+         * The provider of the datasource, like 'mysql'. Default: 'postgresql'
+         */
+        readonly provider?: string;
+    };
+    /**
+     * Special options for Sequelize.
+     */
+    readonly sequelize?: {
+        /**
+         * Generate TypeScript instead of JavaScript modules or not.
+         */
+        readonly typescript?: boolean;
+    };
+    /**
+     * Special options for SQL scripts.
+     */
+    readonly sql?: {
+        /**
+         * The dialect: 'mssql', 'mysql', 'postgres' or 'sqlite'. Default: 'postgres'
+         */
+        readonly dialect?: string;
+    };
+    /**
+     * The target framework / system, like 'EntityFramework.Doctrine' or the name of a registered target.
+     */
+    readonly target: EntityTarget;
+}
+
+/**
+ * A class, which has been processed by an entity compiler.
+ */
+export interface EntityCompilerClassResult {
+    /**
+     * The error, if occurred.
+     */
+    readonly error?: any;
+    /**
+     * The files, which have been handled for the class.
+     */
+    readonly files: EntityCompilerFileResult[];
+    /**
+     * The name of the entity.
+     */
+    readonly name: string;
+    /**
+     * The generation has been skipped, because neither the class nor its files have
+     * been changed since the last run (s. 'manifest' option of 'EntityCompilerOptions').
+     */
+    readonly skipped: boolean;
+    /**
+     * The target framework / system.
+     */
+    readonly target: EntityTarget;
+    /**
+     * Warnings.
+     */
+    readonly warnings: string[];
+}
+
+/**
+ * A file, which has been handled by an entity compiler.
+ */
+export interface EntityCompilerFileResult {
+    /**
+     * What has been done (or would be done, on dry runs and checks) with the file, like 'created' or 'removed'.
+     */
+    readonly action: string;
+    /**
+     * The name of the entity, if the file belongs to a single class.
+     */
+    readonly className?: string;
+    /**
+     * The unified diff between the existing and the new content, on dry runs.
+     */
+    readonly diff?: string;
+    /**
+     * The SHA-256 hash of the generated content.
+     */
+    readonly hash?: string;
+    /**
+     * Is a user-owned extension file, which is only created once, or not.
+     */
+    readonly isExtension: boolean;
+    /**
+     * The full path of the file.
+     */
+    readonly path: string;
     /**
      * The target framework / system.
      */
-    readonly target: EntityFramework;
+    readonly target: EntityTarget;
 }
 
 /**
  * Result of a compile operation of an entity compiler.
  */
 export interface EntityCompilerResult {
+    /**
+     * All classes, which have been processed.
+     */
+    readonly classes: EntityCompilerClassResult[];
+    /**
+     * All files, which have been handled.
+     */
+    readonly files: EntityCompilerFileResult[];
+    /**
+     * The number of files, which have not been written, because they are unchanged or existing extension files.
+     */
+    readonly skipped: number;
+    /**
+     * Warnings, which do not belong to a single class.
+     */
+    readonly warnings: string[];
+    /**
+     * The number of files, which have been created or overwritten.
+     */
+    readonly written: number;
 }
 
 /**
@@ -148,18 +358,64 @@ export interface EntityCompilerResult {
  */
 export type EntityDescriptions = { [className: string]: EntityClass };
 
+/**
+ * Describes an enum.
+ */
+export interface EntityEnum {
+    /**
+     * The data type of the values ('string' or 'int').
+     */
+    readonly type?: string;
+    /**
+     * The values, either as list or as object with the case names as keys.
+     */
+    readonly values?: EntityEnumValues;
+}
+
+/**
+ * An entity enum description entry.
+ */
+export type EntityEnumDescriptionEntry = EntityEnumValues | EntityEnum;
+
+/**
+ * Entity enum descriptions.
+ */
+export type EntityEnumDescriptions = { [enumName: string]: EntityEnumDescriptionEntry };
+
+/**
+ * A storage of entity enums.
+ */
+export type EntityEnumStorage = { [enumName: string]: EntityEnum };
+
+/**
+ * The values of an enum.
+ */
+export type EntityEnumValues = (string | number)[] | { [caseName: string]: string | number };
+
 /**
  * An entity file.
  */
 export interface EntityFile {
+    /**
+     * The URL or path of the JSON schema, which is used by editors.
+     */
+    readonly '$schema'?: string;
     /**
      * Entity descriptions.
      */
     readonly entities?: EntityDescriptions;
+    /**
+     * Enums, which can be used by the columns of all entities.
+     */
+    readonly enums?: EntityEnumDescriptions;
     /**
      * The namespace for the classes to use.
      */
     readonly 'namespace'?: string;
+    /**
+     * The naming strategy.
+     */
+    readonly naming?: eb_lib_naming.NamingStrategyOptions;
 }
 
 /**
@@ -178,12 +434,130 @@ export enum EntityFramework {
      * Microsoft's Entity Framework Core
      */
     EntityFrameworkCore = 3,
+    /**
+     * TypeORM (TypeScript)
+     */
+    TypeORM = 4,
+    /**
+     * Prisma (schema file)
+     */
+    Prisma = 5,
+    /**
+     * Sequelize (JavaScript / TypeScript)
+     */
+    Sequelize = 6,
+    /**
+     * SQL script with 'CREATE TABLE' statements
+     */
+    Sql = 7,
+}
+
+/**
+ * Describes an index or a unique constraint of an entity.
+ */
+export interface EntityIndex {
+    /**
+     * One or more columns.
+     */
+    readonly columns: string | string[];
+    /**
+     * The (custom) name.
+     */
+    readonly name?: string;
+    /**
+     * Is unique or not.
+     */
+    readonly unique?: boolean;
+    /**
+     * An optional SQL condition for a partial index.
+     */
+    readonly where?: string;
+}
+
+/**
+ * Describes a relation to another entity.
+ */
+export interface EntityRelation {
+    /**
+     * One or more operations to cascade, like 'persist' or 'remove' (Doctrine and TypeORM only).
+     */
+    readonly cascade?: string | string[];
+    /**
+     * The name of the join column (owning side only).
+     * For many-to-many relations, this is the join column, which refers to the entity itself.
+     */
+    readonly column?: string;
+    /**
+     * The fetch mode ('lazy', 'eager' or 'extra_lazy').
+     */
+    readonly fetch?: string;
+    /**
+     * The name of the join column, which refers to the target entity (many-to-many only).
+     */
+    readonly inverseColumn?: string;
+    /**
+     * The column of the target entity, the inverse join column refers to (many-to-many only).
+     */
+    readonly inverseReferencedColumn?: string;
+    /**
+     * The name of the relation of the target entity, which is the inverse side.
+     */
+    readonly inversedBy?: string;
+    /**
+     * The name of the join table (many-to-many only).
+     */
+    readonly joinTable?: string;
+    /**
+     * The name of the relation of the target entity, which is the owning side.
+     */
+    readonly mappedBy?: string;
+    /**
+     * The join column of the owning side, which refers to the entity itself
+     * (inverse side of one-to-many and one-to-one relations only).
+     */
+    readonly mappedByColumn?: string;
+    /**
+     * The column of the target entity, the join column refers to.
+     */
+    readonly referencedColumn?: string;
+    /**
+     * The name of the target entity.
+     */
+    readonly target?: string;
+    /**
+     * The type / kind of the relation, like 'many-to-one'.
+     */
+    readonly type?: string;
 }
 
+/**
+ * An entity relation description entry.
+ */
+export type EntityRelationDescriptionEntry = string | EntityRelation;
+
+/**
+ * Entity relation descriptions.
+ */
+export type EntityRelationDescriptions = { [relationName: string]: EntityRelationDescriptionEntry };
+
+/**
+ * A storage of entity relations.
+ */
+export type EntityRelationStorage = { [relationName: string]: EntityRelation };
+
+/**
+ * A target framework / system or the name of a registered target.
+ */
+export type EntityTarget = EntityFramework | string;
+
 /**
  * Context for generating a class.
  */
 export interface GenerateClassContext {
+    /**
+     * Sorted list of the names of all classes of the entity file.
+     */
+    readonly classNames: string[];
     /**
      * Sorted list of column names.
      */
@@ -196,6 +570,22 @@ export interface GenerateClassContext {
      * The entity / class description.
      */
     readonly entity: EntityClass;
+    /**
+     * The enums, which are used by the columns.
+     */
+    readonly enums: EntityEnumStorage;
+    /**
+     * Sorted list of the columns of the primary key.
+     */
+    readonly idColumnNames: string[];
+    /**
+     * Indexes and unique constraints.
+     */
+    readonly indexes: EntityIndex[];
+    /**
+     * Method names of the inverse sides of the relations.
+     */
+    readonly inverseMethods: EntityClassMethodNames;
     /**
      * Method names.
      */
@@ -216,6 +606,98 @@ export interface GenerateClassContext {
      * The output directory.
      */
     readonly outDir: string;
+    /**
+     * The writer for files and directories.
+     */
+    readonly output: eb_lib_output.OutputWriter;
+    /**
+     * Sorted list of relation names.
+     */
+    readonly relationNames: string[];
+    /**
+     * The relations.
+     */
+    readonly relations: EntityRelationStorage;
+    /**
+     * Marks a file as skipped, like an extension file, which already exists.
+     * 
+     * @param {string} file The path of the file.
+     * @param {boolean} [isExtension] Is a user-owned extension file or not.
+     */
+    readonly skipFile: (file: string, isExtension?: boolean) => EntityCompilerFileResult;
+    /**
+     * The name of the underlying table.
+     */
+    readonly table: string;
+    /**
+     * Adds a warning for the class.
+     * 
+     * @param {string} message The message.
+     */
+    readonly warn: (message: string) => void;
+    /**
+     * Writes a generated file.
+     * 
+     * @param {string} file The path of the file.
+     * @param {string} content The content.
+     * @param {boolean} [isExtension] Is a user-owned extension file, which is skipped if it already exists, or not.
+     * 
+     * @return {Promise<EntityCompilerFileResult>} The promise with the result.
+     */
+    readonly writeFile: (file: string, content: string, isExtension?: boolean) => Promise<EntityCompilerFileResult>;
+}
+
+/**
+ * Context for generating the files of a whole entity file at once.
+ */
+export interface GenerateFileContext {
+    /**
+     * The contexts of all classes, sorted by name.
+     */
+    readonly classes: GenerateClassContext[];
+    /**
+     * All enums, which are used by the columns.
+     */
+    readonly enums: EntityEnumStorage;
+    /**
+     * The namespace.
+     */
+    readonly 'namespace': string[];
+    /**
+     * Compiler options.
+     */
+    readonly options: EntityCompilerOptions;
+    /**
+     * The output directory.
+     */
+    readonly outDir: string;
+    /**
+     * The writer for files and directories.
+     */
+    readonly output: eb_lib_output.OutputWriter;
+    /**
+     * Marks a file as skipped.
+     * 
+     * @param {string} file The path of the file.
+     * @param {boolean} [isExtension] Is a user-owned extension file or not.
+     */
+    readonly skipFile: (file: string, isExtension?: boolean) => EntityCompilerFileResult;
+    /**
+     * Adds a warning, which does not belong to a single class.
+     * 
+     * @param {string} message The message.
+     */
+    readonly warn: (message: string) => void;
+    /**
+     * Writes a generated file.
+     * 
+     * @param {string} file The path of the file.
+     * @param {string} content The content.
+     * @param {boolean} [isExtension] Is a user-owned extension file, which is skipped if it already exists, or not.
+     * 
+     * @return {Promise<EntityCompilerFileResult>} The promise with the result.
+     */
+    readonly writeFile: (file: string, content: string, isExtension?: boolean) => Promise<EntityCompilerFileResult>;
 }
 
 
@@ -224,6 +706,30 @@ export interface GenerateClassContext {
  */
 export const DEFAULT_ENTITY_FILE = 'entities.json';
 
+// actions of generated files
+export const FILE_CREATED = 'created';
+export const FILE_OVERWRITTEN = 'overwritten';
+export const FILE_REMOVED = 'removed';
+export const FILE_SKIPPED = 'skipped';
+export const FILE_UNCHANGED = 'unchanged';
+
+// relation types
+export const RELATION_MANY_TO_MANY = 'many-to-many';
+export const RELATION_MANY_TO_ONE = 'many-to-one';
+export const RELATION_ONE_TO_MANY = 'one-to-many';
+export const RELATION_ONE_TO_ONE = 'one-to-one';
+
+// fetch modes
+export const FETCH_EAGER = 'eager';
+export const FETCH_EXTRA_LAZY = 'extra_lazy';
+export const FETCH_LAZY = 'lazy';
+
+// SQL dialects
+export const SQL_DIALECT_MSSQL = 'mssql';
+export const SQL_DIALECT_MYSQL = 'mysql';
+export const SQL_DIALECT_POSTGRES = 'postgres';
+export const SQL_DIALECT_SQLITE = 'sqlite';
+
 // data types
 export const TYPE__DEFAULT = '';
 export const TYPE_BIGINT = 'bigint';
@@ -237,6 +743,7 @@ export const TYPE_DATETIME = 'datetime';
 export const TYPE_DATETIME_TZ = 'datetimetz';
 export const TYPE_FLOAT = 'float';
 export const TYPE_DECIMAL = 'decimal';
+export const TYPE_ENUM = 'enum';
 export const TYPE_GUID = 'guid';
 export const TYPE_INT = 'int';
 export const TYPE_INT16 = 'int16';
@@ -249,17 +756,175 @@ export const TYPE_STR = 'str';
 export const TYPE_STRING = 'string';
 export const TYPE_TEXT = 'text';
 export const TYPE_TIME = 'time';
-export const TYPE_UINT16 = 'int16';
-export const TYPE_UINT32 = 'int32';
-export const TYPE_UINT64 = 'int64';
+export const TYPE_UINT16 = 'uint16';
+export const TYPE_UINT32 = 'uint32';
+export const TYPE_UINT64 = 'uint64';
 export const TYPE_UUID = 'uuid';
 
 /**
- * An entity compiler.
+ * The names of all supported data types.
  */
-export class EntityCompiler {
-    /**
-     * Initializes a new instance of that class.
+export const DATA_TYPES: string[] = [
+    TYPE_BIGINT,
+    TYPE_BIN,
+    TYPE_BINARY,
+    TYPE_BLOB,
+    TYPE_BOOL,
+    TYPE_BOOLEAN,
+    TYPE_DATE,
+    TYPE_DATETIME,
+    TYPE_DATETIME_TZ,
+    TYPE_DECIMAL,
+    TYPE_ENUM,
+    TYPE_FLOAT,
+    TYPE_GUID,
+    TYPE_INT,
+    TYPE_INT16,
+    TYPE_INT32,
+    TYPE_INT64,
+    TYPE_INTEGER,
+    TYPE_JSON,
+    TYPE_SMALLINT,
+    TYPE_STR,
+    TYPE_STRING,
+    TYPE_TEXT,
+    TYPE_TIME,
+    TYPE_UINT16,
+    TYPE_UINT32,
+    TYPE_UINT64,
+    TYPE_UUID,
+];
+
+/**
+ * The SQL types of the data types, by dialect.
+ */
+export const SQL_TYPES: { [dialect: string]: { [type: string]: string } } = {
+    [SQL_DIALECT_MSSQL]: {
+        [TYPE_BIGINT]: 'BIGINT',
+        [TYPE_BIN]: 'VARBINARY',
+        [TYPE_BINARY]: 'VARBINARY',
+        [TYPE_BLOB]: 'VARBINARY(MAX)',
+        [TYPE_BOOL]: 'BIT',
+        [TYPE_BOOLEAN]: 'BIT',
+        [TYPE_DATE]: 'DATE',
+        [TYPE_DATETIME]: 'DATETIME2',
+        [TYPE_DATETIME_TZ]: 'DATETIMEOFFSET',
+        [TYPE_DECIMAL]: 'DECIMAL',
+        [TYPE_FLOAT]: 'REAL',
+        [TYPE_GUID]: 'UNIQUEIDENTIFIER',
+        [TYPE_INT]: 'INT',
+        [TYPE_INT16]: 'SMALLINT',
+        [TYPE_INT32]: 'INT',
+        [TYPE_INT64]: 'BIGINT',
+        [TYPE_INTEGER]: 'INT',
+        [TYPE_JSON]: 'NVARCHAR(MAX)',
+        [TYPE_SMALLINT]: 'SMALLINT',
+        [TYPE_STR]: 'NVARCHAR',
+        [TYPE_STRING]: 'NVARCHAR',
+        [TYPE_TEXT]: 'NVARCHAR(MAX)',
+        [TYPE_TIME]: 'TIME',
+        [TYPE_UINT16]: 'INT',
+        [TYPE_UINT32]: 'BIGINT',
+        [TYPE_UINT64]: 'DECIMAL(20, 0)',
+        [TYPE_UUID]: 'UNIQUEIDENTIFIER',
+    },
+    [SQL_DIALECT_MYSQL]: {
+        [TYPE_BIGINT]: 'BIGINT',
+        [TYPE_BIN]: 'VARBINARY',
+        [TYPE_BINARY]: 'VARBINARY',
+        [TYPE_BLOB]: 'BLOB',
+        [TYPE_BOOL]: 'BOOLEAN',
+        [TYPE_BOOLEAN]: 'BOOLEAN',
+        [TYPE_DATE]: 'DATE',
+        [TYPE_DATETIME]: 'DATETIME',
+        [TYPE_DATETIME_TZ]: 'DATETIME',
+        [TYPE_DECIMAL]: 'DECIMAL',
+        [TYPE_FLOAT]: 'FLOAT',
+        [TYPE_GUID]: 'CHAR(36)',
+        [TYPE_INT]: 'INT',
+        [TYPE_INT16]: 'SMALLINT',
+        [TYPE_INT32]: 'INT',
+        [TYPE_INT64]: 'BIGINT',
+        [TYPE_INTEGER]: 'INT',
+        [TYPE_JSON]: 'JSON',
+        [TYPE_SMALLINT]: 'SMALLINT',
+        [TYPE_STR]: 'VARCHAR',
+        [TYPE_STRING]: 'VARCHAR',
+        [TYPE_TEXT]: 'TEXT',
+        [TYPE_TIME]: 'TIME',
+        [TYPE_UINT16]: 'SMALLINT UNSIGNED',
+        [TYPE_UINT32]: 'INT UNSIGNED',
+        [TYPE_UINT64]: 'BIGINT UNSIGNED',
+        [TYPE_UUID]: 'CHAR(36)',
+    },
+    [SQL_DIALECT_POSTGRES]: {
+        [TYPE_BIGINT]: 'BIGINT',
+        [TYPE_BIN]: 'BYTEA',
+        [TYPE_BINARY]: 'BYTEA',
+        [TYPE_BLOB]: 'BYTEA',
+        [TYPE_BOOL]: 'BOOLEAN',
+        [TYPE_BOOLEAN]: 'BOOLEAN',
+        [TYPE_DATE]: 'DATE',
+        [TYPE_DATETIME]: 'TIMESTAMP',
+        [TYPE_DATETIME_TZ]: 'TIMESTAMP WITH TIME ZONE',
+        [TYPE_DECIMAL]: 'NUMERIC',
+        [TYPE_FLOAT]: 'REAL',
+        [TYPE_GUID]: 'UUID',
+        [TYPE_INT]: 'INTEGER',
+        [TYPE_INT16]: 'SMALLINT',
+        [TYPE_INT32]: 'INTEGER',
+        [TYPE_INT64]: 'BIGINT',
+        [TYPE_INTEGER]: 'INTEGER',
+        [TYPE_JSON]: 'JSON',
+        [TYPE_SMALLINT]: 'SMALLINT',
+        [TYPE_STR]: 'VARCHAR',
+        [TYPE_STRING]: 'VARCHAR',
+        [TYPE_TEXT]: 'TEXT',
+        [TYPE_TIME]: 'TIME',
+        [TYPE_UINT16]: 'INTEGER',
+        [TYPE_UINT32]: 'BIGINT',
+        [TYPE_UINT64]: 'NUMERIC(20, 0)',
+        [TYPE_UUID]: 'UUID',
+    },
+    [SQL_DIALECT_SQLITE]: {
+        [TYPE_BIGINT]: 'INTEGER',
+        [TYPE_BIN]: 'BLOB',
+        [TYPE_BINARY]: 'BLOB',
+        [TYPE_BLOB]: 'BLOB',
+        [TYPE_BOOL]: 'BOOLEAN',
+        [TYPE_BOOLEAN]: 'BOOLEAN',
+        [TYPE_DATE]: 'DATE',
+        [TYPE_DATETIME]: 'DATETIME',
+        [TYPE_DATETIME_TZ]: 'DATETIME',
+        [TYPE_DECIMAL]: 'NUMERIC',
+        [TYPE_FLOAT]: 'REAL',
+        [TYPE_GUID]: 'TEXT',
+        [TYPE_INT]: 'INTEGER',
+        [TYPE_INT16]: 'INTEGER',
+        [TYPE_INT32]: 'INTEGER',
+        [TYPE_INT64]: 'INTEGER',
+        [TYPE_INTEGER]: 'INTEGER',
+        [TYPE_JSON]: 'TEXT',
+        [TYPE_SMALLINT]: 'INTEGER',
+        [TYPE_STR]: 'VARCHAR',
+        [TYPE_STRING]: 'VARCHAR',
+        [TYPE_TEXT]: 'TEXT',
+        [TYPE_TIME]: 'TIME',
+        [TYPE_UINT16]: 'INTEGER',
+        [TYPE_UINT32]: 'INTEGER',
+        [TYPE_UINT64]: 'INTEGER',
+        [TYPE_UUID]: 'TEXT',
+    },
+};
+
+/**
+ * An entity compiler.
+ */
+export class EntityCompiler {
+    private _output: eb_lib_output.OutputWriter;
+
+    /**
+     * Initializes a new instance of that class.
      * 
      * @param {EntityCompilerOptions} [options] Options for compilation operations.
      */
@@ -270,38 +935,32 @@ export class EntityCompiler {
     }
 
     /**
-     * Compiles entities.
+     * Compiles entities, after the entity file has been checked by 'validate()'.
      * 
      * @return {Promise<EntityCompilerResult>} The promise with the result.
      */
     public async compile(): Promise<EntityCompilerResult> {
-        const RESULT: EntityCompilerResult = {};
-
-        let cwd = eb_lib_helpers.toStringSafe(this.options.cwd);
-        if (eb_lib_helpers.isEmptyString(cwd)) {
-            cwd = process.cwd();
-        }
-        if (!Path.isAbsolute(cwd)) {
-            cwd = Path.join(process.cwd(), cwd);
-        }
-        cwd = Path.resolve(cwd);
-
-        let outDir = eb_lib_helpers.toStringSafe(this.options.outDir);
-        if (eb_lib_helpers.isEmptyString(cwd)) {
-            outDir = cwd;
-        }
-        if (!Path.isAbsolute(outDir)) {
-            outDir = Path.join(cwd, outDir);
-        }
-        outDir = Path.resolve(outDir);
+        const RESULT: EntityCompilerResult = {
+            classes: [],
+            files: [],
+            skipped: 0,
+            warnings: [],
+            written: 0,
+        };
 
         const FILE = this.options.file;
         if (eb_lib_helpers.isObj<EntityFile>(FILE)) {
-            const NAMESPACE = eb_lib_helpers.toStringSafe(FILE['namespace']).split('.').map(x => {
-                return x.trim();
-            }).filter(x => {
-                return '' !== x;
+            // validation phase
+            const ERRORS = eb_lib_validation.validate(FILE, {
+                naming: this.options.naming,
+            }).filter(d => {
+                return eb_lib_validation.SEVERITY_ERROR === d.severity;
             });
+            if (ERRORS.length > 0) {
+                throw new Error(`The entity file contains ${ERRORS.length} error(s): ${ERRORS.map(d => {
+                    return `${d.message} (${d.path})`;
+                }).join(' ')}`);
+            }
 
             const ENTITIES = FILE.entities;
             if (eb_lib_helpers.isObj<EntityDescriptions>(ENTITIES)) {
@@ -311,15 +970,30 @@ export class EntityCompiler {
                 }
 
                 await this.compileEntities(
-                    NAMESPACE,
+                    this.getNamespace(),
                     ENTITIES,
+                    this.getEnums(),
+                    this.getNamingStrategy(),
                     callbacks,
-                    outDir,
+                    this.getOutDir(),
+                    RESULT,
                 );
             }
         }
 
-        return RESULT;
+        return {
+            classes: RESULT.classes,
+            files: RESULT.files,
+            skipped: RESULT.files.filter(f => {
+                return FILE_SKIPPED === f.action ||
+                       FILE_UNCHANGED === f.action;
+            }).length,
+            warnings: RESULT.warnings,
+            written: RESULT.files.filter(f => {
+                return FILE_CREATED === f.action ||
+                       FILE_OVERWRITTEN === f.action;
+            }).length,
+        };
     }
 
     /**
@@ -327,15 +1001,59 @@ export class EntityCompiler {
      * 
      * @param {string[]} ns The namespace without dots.
      * @param {EntityDescriptions} entities The entities.
+     * @param {EntityEnumDescriptions} enums The enums of the entity file.
+     * @param {NamingStrategy} naming The naming strategy.
      * @param {CompilerCallbacks} callbacks Callbacks.
      * @param {string} outDir The output directory.
+     * @param {EntityCompilerResult} result The result, which should be filled.
      */
     protected async compileEntities(
         ns: string[],
         entities: EntityDescriptions,
+        enums: EntityEnumDescriptions,
+        naming: eb_lib_naming.NamingStrategy,
         callbacks: CompilerCallbacks,
         outDir: string,
+        result: EntityCompilerResult,
     ) {
+        const TARGET = this.options.target;
+        const CLASS_GENERATOR = eb_lib_targets.getTarget(TARGET);
+        const FILE_GENERATOR = eb_lib_targets.getFileTarget(TARGET);
+        const OUTPUT = this.getOutput();
+
+        // contexts for a whole-file generator
+        const CLASSES: GenerateClassContext[] = [];
+        let hasInvalidClasses = false;
+
+        const CLEAN_EXTENSIONS = eb_lib_helpers.toBooleanSafe(this.options.cleanExtensions);
+        const CLEAN = CLEAN_EXTENSIONS || eb_lib_helpers.toBooleanSafe(this.options.clean);
+
+        let manifest: eb_lib_manifest.Manifest;
+        let oldManifestTarget: eb_lib_manifest.ManifestTarget;
+        let newManifestTarget: eb_lib_manifest.ManifestTarget;
+        if (CLEAN || eb_lib_helpers.toBooleanSafe(this.options.manifest)) {
+            manifest = await eb_lib_manifest.loadManifest(OUTPUT, outDir);
+
+            oldManifestTarget = manifest.targets[ eb_lib_targets.toTargetName(TARGET) ];
+            if (!eb_lib_helpers.isObj<eb_lib_manifest.ManifestTarget>(oldManifestTarget)) {
+                oldManifestTarget = {
+                    classes: {},
+                };
+            }
+
+            // without removed entities
+            newManifestTarget = {
+                classes: {},
+            };
+        }
+
+        // reports the files of an up-to-date manifest entry
+        const ADD_UNCHANGED_FILES = (entry: eb_lib_manifest.ManifestEntry, classResult?: EntityCompilerClassResult) => {
+            for (const F in entry.files) {
+                addFileResult(Path.resolve(outDir, F), FILE_UNCHANGED, false, TARGET, result, classResult, undefined, entry.files[F]);
+            }
+        };
+
         for (const E in entities) {
             if (callbacks.onBeforeGenerateClass) {
                 await Promise.resolve(
@@ -343,111 +1061,529 @@ export class EntityCompiler {
                 );
             }
 
+            const CLASS_RESULT: EntityCompilerClassResult = {
+                files: [],
+                name: E,
+                skipped: false,
+                target: TARGET,
+                warnings: [],
+            };
+
             let err: any;
+            let isProcessed = true;
+            let isSkipped = false;
             try {
-                const CLASS_NAME = parseForClass(E);
-                if (false === CLASS_NAME) {
-                    throw new Error(`The class name '${E}' is invalid!`);
-                }
-    
-                const ENTITY_CLASS = entities[E];
-                if (!eb_lib_helpers.isObj<EntityClass>(ENTITY_CLASS)) {
+                const CTX = this.createClassContext(E, ns, entities, enums, naming, outDir, result, CLASS_RESULT);
+                if (!CTX) {
+                    isProcessed = false;
                     continue;
                 }
 
-                const COLUMNS: EntityColumnStorage = {};
-                if (eb_lib_helpers.isObj<EntityColumnDescriptions>(ENTITY_CLASS.columns)) {
-                    for (const C in ENTITY_CLASS.columns) {
-                        const COLUMN_NAME = parseForClass(C);
-                        if (false === COLUMN_NAME) {
-                            throw new Error(`The column name '${C}' is invalid!`);
+                let generatorThisArg: any = this;
+
+                if (!CLASS_GENERATOR && !FILE_GENERATOR) {
+                    throw new Error(`Target ${eb_lib_helpers.toStringSafe(TARGET)} is not supported!`);
+                }
+
+                if (CLASS_GENERATOR) {
+                    if (manifest) {
+                        const INPUT_HASH = eb_lib_manifest.toClassInputHash(CTX);
+                        const OLD_ENTRY = oldManifestTarget.classes[E];
+
+                        if (await eb_lib_manifest.isManifestEntryUpToDate(OUTPUT, outDir, OLD_ENTRY, INPUT_HASH)) {
+                            isSkipped = true;
+
+                            ADD_UNCHANGED_FILES(OLD_ENTRY, CLASS_RESULT);
+                            newManifestTarget.classes[E] = OLD_ENTRY;
+                        }
+                        else {
+                            await Promise.resolve(
+                                CLASS_GENERATOR.apply(generatorThisArg,
+                                                      [ CTX ])
+                            );
+
+                            newManifestTarget.classes[E] = eb_lib_manifest.toManifestEntry(INPUT_HASH, CLASS_RESULT.files, outDir);
                         }
+                    }
+                    else {
+                        await Promise.resolve(
+                            CLASS_GENERATOR.apply(generatorThisArg,
+                                                  [ CTX ])
+                        );
+                    }
+                }
+
+                // generated with the whole file
+                CLASSES.push(CTX);
+            }
+            catch (e) {
+                err = e;
+
+                hasInvalidClasses = true;
+
+                if (manifest && oldManifestTarget.classes[E]) {
+                    // keep the files of the last run
+                    newManifestTarget.classes[E] = oldManifestTarget.classes[E];
+                }
+            }
+            finally {
+                if (isProcessed) {
+                    result.classes.push({
+                        error: err,
+                        files: CLASS_RESULT.files,
+                        name: E,
+                        skipped: isSkipped,
+                        target: TARGET,
+                        warnings: CLASS_RESULT.warnings,
+                    });
+                }
+
+                if (callbacks.onClassGenerated) {
+                    await Promise.resolve(
+                        callbacks.onClassGenerated(err, E, this.options.target)
+                    );
+                }
+            }
+        }
+
+        if (FILE_GENERATOR && hasInvalidClasses && CLASS_GENERATOR) {
+            // the classes have been reported already,
+            // so keep the shared files of the last run
+            if (manifest && oldManifestTarget.file) {
+                newManifestTarget.file = oldManifestTarget.file;
+            }
+        }
+        else if (FILE_GENERATOR) {
+            if (hasInvalidClasses) {
+                throw new Error(`The files of target ${eb_lib_helpers.toStringSafe(TARGET)} have not been generated, because of invalid entities!`);
+            }
+
+            const FILE_CTX = toGenerateFileContext(CLASSES, ns, this.options, outDir, OUTPUT, result);
+
+            if (manifest) {
+                const INPUT_HASH = eb_lib_manifest.toFileInputHash(FILE_CTX);
+                const OLD_ENTRY = oldManifestTarget.file;
+
+                if (await eb_lib_manifest.isManifestEntryUpToDate(OUTPUT, outDir, OLD_ENTRY, INPUT_HASH)) {
+                    ADD_UNCHANGED_FILES(OLD_ENTRY);
+                    newManifestTarget.file = OLD_ENTRY;
+                }
+                else {
+                    const FILES_BEFORE = result.files.length;
+
+                    await Promise.resolve(
+                        FILE_GENERATOR.apply(this,
+                                             [ FILE_CTX ])
+                    );
+
+                    newManifestTarget.file = eb_lib_manifest.toManifestEntry(INPUT_HASH, result.files.slice(FILES_BEFORE), outDir);
+                }
+            }
+            else {
+                await Promise.resolve(
+                    FILE_GENERATOR.apply(this,
+                                         [ FILE_CTX ])
+                );
+            }
+        }
+
+        if (manifest) {
+            const STALE_FILES = eb_lib_manifest.getStaleFiles(oldManifestTarget, newManifestTarget);
+
+            const REMOVE_FILE = async (file: string, isExtension: boolean) => {
+                file = Path.resolve(outDir, file);
+
+                if (await OUTPUT.exists(file)) {
+                    await OUTPUT.remove(file);
+
+                    addFileResult(file, FILE_REMOVED, isExtension, TARGET, result);
+                }
+            };
+
+            // generated files
+            if (CLEAN) {
+                for (const F of STALE_FILES.files) {
+                    await REMOVE_FILE(F, false);
+                }
+            }
+            else if (STALE_FILES.files.length > 0) {
+                newManifestTarget.staleFiles = STALE_FILES.files;
+            }
+
+            // user-owned extension files
+            if (CLEAN_EXTENSIONS) {
+                for (const F of STALE_FILES.extensions) {
+                    await REMOVE_FILE(F, true);
+                }
+            }
+            else if (STALE_FILES.extensions.length > 0) {
+                newManifestTarget.staleExtensions = STALE_FILES.extensions;
+            }
+
+            manifest.targets[ eb_lib_targets.toTargetName(TARGET) ] = newManifestTarget;
+
+            await eb_lib_manifest.saveManifest(OUTPUT, outDir, manifest);
+        }
+    }
+
+    /**
+     * Creates the context of a class.
+     * 
+     * @param {string} entityName The name of the entity inside the entity file.
+     * @param {string[]} ns The namespace without dots.
+     * @param {EntityDescriptions} entities The entities.
+     * @param {EntityEnumDescriptions} enums The enums of the entity file.
+     * @param {NamingStrategy} naming The naming strategy.
+     * @param {string} outDir The output directory.
+     * @param {EntityCompilerResult} [result] The result, which should collect the written files and the warnings.
+     * @param {EntityCompilerClassResult} [classResult] The result of the class.
+     * 
+     * @return {GenerateClassContext} The context or (undefined) if entity is no object.
+     */
+    protected createClassContext(
+        entityName: string,
+        ns: string[],
+        entities: EntityDescriptions,
+        enums: EntityEnumDescriptions,
+        naming: eb_lib_naming.NamingStrategy,
+        outDir: string,
+        result?: EntityCompilerResult,
+        classResult?: EntityCompilerClassResult,
+    ): GenerateClassContext {
+        const CLASS_NAME = parseForClass(naming.toClassName(entityName));
+        if (false === CLASS_NAME) {
+            throw new Error(`The class name '${naming.toClassName(entityName)}' of entity '${entityName}' is invalid!`);
+        }
+    
+        const ENTITY_CLASS = entities[entityName];
+        if (!eb_lib_helpers.isObj<EntityClass>(ENTITY_CLASS)) {
+            return undefined;
+        }
+
+        const OUTPUT = this.getOutput();
 
-                        if (eb_lib_helpers.isObj<EntityColumn>(COLUMNS[ COLUMN_NAME ])) {
-                            throw new Error(`The column '${COLUMN_NAME}' has already been defined!`);
+        const COLUMNS: EntityColumnStorage = {};
+        const ENUMS: EntityEnumStorage = {};
+        if (eb_lib_helpers.isObj<EntityColumnDescriptions>(ENTITY_CLASS.columns)) {
+            for (const C in ENTITY_CLASS.columns) {
+                const COLUMN_NAME = parseForClass(C);
+                if (false === COLUMN_NAME) {
+                    throw new Error(`The column name '${C}' is invalid!`);
+                }
+
+                if (eb_lib_helpers.isObj<EntityColumn>(COLUMNS[ COLUMN_NAME ])) {
+                    throw new Error(`The column '${COLUMN_NAME}' has already been defined!`);
+                }
+
+                let colEntry = ENTITY_CLASS.columns[C];
+                if (!eb_lib_helpers.isObj<EntityColumn>(colEntry)) {
+                    colEntry = {
+                        type: eb_lib_helpers.normalizeString(colEntry),
+                    };
+                }
+
+                if (TYPE_ENUM === eb_lib_helpers.normalizeString(colEntry.type)) {
+                    let enumName: string | false;
+                    let enumEntry: EntityEnumDescriptionEntry;
+                    if (eb_lib_helpers.isEmptyString(colEntry['enum'])) {
+                        // inline enum
+                        enumName = CLASS_NAME + eb_lib_naming.toPascalCase(COLUMN_NAME);
+                        enumEntry = colEntry.values;
+
+                        if (!eb_lib_helpers.isNullOrUndefined(getEnumOf(enums, enumName))) {
+                            throw new Error(`The inline enum of column '${COLUMN_NAME}' has the same name as enum '${enumName}' of the entity file!`);
+                        }
+                    }
+                    else {
+                        enumName = parseForClass(colEntry['enum']);
+                        if (false !== enumName) {
+                            enumEntry = getEnumOf(enums, enumName);
                         }
 
-                        let colEntry = ENTITY_CLASS.columns[C];
-                        if (!eb_lib_helpers.isObj<EntityColumn>(colEntry)) {
-                            colEntry = {
-                                type: eb_lib_helpers.normalizeString(colEntry),
-                            };
+                        if (false === enumName || eb_lib_helpers.isNullOrUndefined(enumEntry)) {
+                            throw new Error(`The enum '${eb_lib_helpers.toStringSafe(colEntry['enum'])}' of column '${COLUMN_NAME}' does not exist!`);
                         }
+                    }
+
+                    if (Object.keys(entities).some(e => naming.toClassName(e) === enumName)) {
+                        throw new Error(`The name of enum '${enumName}' is already used by an entity!`);
+                    }
 
-                        COLUMNS[ COLUMN_NAME ] = colEntry;
+                    ENUMS[ enumName ] = toEntityEnum(enumName, enumEntry);
+
+                    colEntry = Object.assign({}, colEntry, {
+                        'enum': enumName,
+                    });
+                }
+
+                let column = toEntityColumn(COLUMN_NAME, colEntry, ENUMS);
+                if (eb_lib_helpers.isEmptyString(column.dbName)) {
+                    const DB_NAME = naming.toColumnName(COLUMN_NAME);
+                    if (DB_NAME !== COLUMN_NAME) {
+                        column = Object.assign({}, column, {
+                            dbName: DB_NAME,
+                        });
                     }
                 }
 
-                const METHODS: EntityClassMethodNames = {};
+                const DB_NAME = getColumnDbName(COLUMN_NAME, column);
                 for (const C in COLUMNS) {
-                    let wordsOfColumn = eb_lib_helpers.replaceAll(C, '_', ' ');
-                    wordsOfColumn = eb_lib_helpers.replaceAll(C, '-', ' ');
-                    wordsOfColumn = eb_lib_helpers.replaceAll(C, "\t", '    ');
-
-                    const WORDS = Enumerable.from( wordsOfColumn.split(' ') ).select(w => {
-                        return w.trim();
-                    }).where(w => {
-                        return '' !== w;
-                    }).select(w => {
-                        return w[0].toUpperCase() + w.substr(1).trim();
-                    }).toArray();
-
-                    METHODS[C] = WORDS.join('');
+                    if (getColumnDbName(C, COLUMNS[C]) === DB_NAME) {
+                        throw new Error(`The database column '${DB_NAME}' of column '${COLUMN_NAME}' is already used by column '${C}'!`);
+                    }
                 }
 
-                let generator: (context: GenerateClassContext) => void | PromiseLike<void>;
-                let generatorThisArg: any = this;
+                COLUMNS[ COLUMN_NAME ] = column;
+            }
+        }
 
-                const TARGET = this.options.target;
-                switch (TARGET) {
-                    case EntityFramework.Doctrine:
-                        generator = eb_lib_doctrine.generateClassForDoctrine;
-                        break;
-                    
-                    case EntityFramework.EntityFramework:
-                        generator = eb_lib_ef.generateClassForEntityFramework;
-                        break;
-
-                    case EntityFramework.EntityFrameworkCore:
-                        generator = eb_lib_ef_core.generateClassForEntityFrameworkCore;
-                        break;
+        const ID_COLUMNS = Enumerable.from( Object.keys(COLUMNS) ).where(c => {
+            return eb_lib_helpers.toBooleanSafe(COLUMNS[c].id);
+        }).orderBy(c => {
+            const ORDER = COLUMNS[c].order;
+
+            return eb_lib_helpers.isNullOrUndefined(ORDER) ? Number.MAX_SAFE_INTEGER : ORDER;
+        }).thenBy(c => {
+            return eb_lib_helpers.normalizeString(c);
+        }).toArray();
+        if (ID_COLUMNS.length > 1) {
+            for (const C of ID_COLUMNS) {
+                if (eb_lib_helpers.toBooleanSafe(COLUMNS[C].auto)) {
+                    throw new Error(`The column '${C}' is part of a composite primary key and cannot be an auto generated value!`);
                 }
+            }
+        }
 
-                if (!generator) {
-                    throw new Error(`Target ${eb_lib_helpers.toStringSafe(TARGET)} is not supported!`);
+        const RELATIONS: EntityRelationStorage = {};
+        if (eb_lib_helpers.isObj<EntityRelationDescriptions>(ENTITY_CLASS.relations)) {
+            for (const R in ENTITY_CLASS.relations) {
+                const RELATION_NAME = parseForClass(R);
+                if (false === RELATION_NAME) {
+                    throw new Error(`The relation name '${R}' is invalid!`);
                 }
 
-                const CTX: GenerateClassContext = {
-                    columnNames: Object.keys(COLUMNS).sort((x, y) => {
-                        return eb_lib_helpers.compareValuesBy(x, y, c => {
-                            return eb_lib_helpers.normalizeString(c);
-                        });
-                    }),
-                    columns: COLUMNS,
-                    entity: ENTITY_CLASS,
-                    methods: METHODS,
-                    name: CLASS_NAME,
-                    'namespace': ns,
-                    options: this.options,
-                    outDir: outDir,
-                };
+                if (eb_lib_helpers.isObj<EntityColumn>(COLUMNS[ RELATION_NAME ]) ||
+                    eb_lib_helpers.isObj<EntityRelation>(RELATIONS[ RELATION_NAME ])) {
+                    throw new Error(`The relation '${RELATION_NAME}' has already been defined!`);
+                }
 
-                await Promise.resolve(
-                    generator.apply(generatorThisArg,
-                                    [ CTX ])
-                );
+                let relEntry = ENTITY_CLASS.relations[R];
+                if (!eb_lib_helpers.isObj<EntityRelation>(relEntry)) {
+                    relEntry = {
+                        target: eb_lib_helpers.toStringSafe(relEntry),
+                    };
+                }
+
+                RELATIONS[ RELATION_NAME ] = toEntityRelation(entityName.trim(), RELATION_NAME, relEntry, entities, naming);
             }
-            catch (e) {
-                err = e;
+        }
+
+        const INDEXES: EntityIndex[] = [];
+        for (const I of eb_lib_helpers.asArray(ENTITY_CLASS.indexes).map(i => {
+            return toEntityIndex(i, false, entityName.trim(), ENTITY_CLASS, COLUMNS, naming);
+        }).concat(eb_lib_helpers.asArray(ENTITY_CLASS.uniqueConstraints).map(uc => {
+            return toEntityIndex(uc, true, entityName.trim(), ENTITY_CLASS, COLUMNS, naming);
+        }))) {
+            if (INDEXES.some(i => i.name === I.name)) {
+                throw new Error(`The index '${I.name}' has already been defined!`);
             }
-            finally {
-                if (callbacks.onClassGenerated) {
-                    await Promise.resolve(
-                        callbacks.onClassGenerated(err, E, this.options.target)
-                    );
+
+            INDEXES.push(I);
+        }
+
+        // the results of a naming strategy are used as identifiers
+        const TO_METHOD_NAME = (name: string) => {
+            const METHOD_NAME = parseForClass(naming.toMethodName(name));
+            if (false === METHOD_NAME) {
+                throw new Error(`The property / method name '${naming.toMethodName(name)}' of '${name}' in entity '${entityName}' is invalid!`);
+            }
+
+            return METHOD_NAME;
+        };
+
+        const METHODS: EntityClassMethodNames = {};
+        for (const C of Object.keys(COLUMNS).concat( Object.keys(RELATIONS) )) {
+            METHODS[C] = TO_METHOD_NAME(C);
+        }
+
+        const INVERSE_METHODS: EntityClassMethodNames = {};
+        for (const R in RELATIONS) {
+            const INVERSE = eb_lib_helpers.toStringSafe(RELATIONS[R].inversedBy) ||
+                            eb_lib_helpers.toStringSafe(RELATIONS[R].mappedBy);
+
+            if ('' !== INVERSE) {
+                INVERSE_METHODS[R] = TO_METHOD_NAME(INVERSE);
+            }
+        }
+        return {
+            classNames: Object.keys(entities).map(e => {
+                return parseForClass(naming.toClassName(e));
+            }).filter(cn => false !== cn).map(cn => <string>cn).sort((x, y) => {
+                return eb_lib_helpers.compareValuesBy(x, y, cn => {
+                    return eb_lib_helpers.normalizeString(cn);
+                });
+            }),
+            columnNames: Object.keys(COLUMNS).sort((x, y) => {
+                return eb_lib_helpers.compareValuesBy(x, y, c => {
+                    return eb_lib_helpers.normalizeString(c);
+                });
+            }),
+            columns: COLUMNS,
+            entity: ENTITY_CLASS,
+            enums: ENUMS,
+            idColumnNames: ID_COLUMNS,
+            indexes: INDEXES,
+            inverseMethods: INVERSE_METHODS,
+            methods: METHODS,
+            name: CLASS_NAME,
+            'namespace': ns,
+            options: this.options,
+            outDir: outDir,
+            output: OUTPUT,
+            relationNames: Object.keys(RELATIONS).sort((x, y) => {
+                return eb_lib_helpers.compareValuesBy(x, y, r => {
+                    return eb_lib_helpers.normalizeString(r);
+                });
+            }),
+            relations: RELATIONS,
+            skipFile: (file, isExtension?) => {
+                return addFileResult(file, FILE_SKIPPED, isExtension, this.options.target, result, classResult);
+            },
+            table: getTableNameOf(entityName.trim(), ENTITY_CLASS, naming),
+            warn: (message) => {
+                if (classResult) {
+                    classResult.warnings.push(eb_lib_helpers.toStringSafe(message));
+                }
+            },
+            writeFile: (file, content, isExtension?) => {
+                return writeGeneratedFile(OUTPUT, this.options, file, content, isExtension, result, classResult);
+            },
+        };
+    }
+
+    /**
+     * Creates the context of the whole entity file, without generating anything.
+     * 
+     * @return {GenerateFileContext} The context.
+     */
+    public createFileContext(): GenerateFileContext {
+        const CLASSES: GenerateClassContext[] = [];
+
+        const FILE = this.options.file;
+        if (eb_lib_helpers.isObj<EntityFile>(FILE)) {
+            const ENTITIES = FILE.entities;
+            if (eb_lib_helpers.isObj<EntityDescriptions>(ENTITIES)) {
+                const ENUMS = this.getEnums();
+                const NAMING = this.getNamingStrategy();
+
+                for (const E in ENTITIES) {
+                    const CTX = this.createClassContext(E, this.getNamespace(), ENTITIES, ENUMS, NAMING, this.getOutDir());
+                    if (CTX) {
+                        CLASSES.push(CTX);
+                    }
                 }
             }
         }
+
+        return toGenerateFileContext(CLASSES, this.getNamespace(), this.options, this.getOutDir(), this.getOutput());
+    }
+
+    /**
+     * Returns the enums of the entity file.
+     * 
+     * @return {EntityEnumDescriptions} The enums.
+     */
+    protected getEnums(): EntityEnumDescriptions {
+        let enums: EntityEnumDescriptions;
+        if (eb_lib_helpers.isObj<EntityFile>(this.options.file)) {
+            enums = this.options.file.enums;
+        }
+        if (!eb_lib_helpers.isObj<EntityEnumDescriptions>(enums)) {
+            enums = {};
+        }
+
+        return enums;
+    }
+
+    /**
+     * Returns the namespace of the entity file.
+     * 
+     * @return {string[]} The namespace without dots.
+     */
+    protected getNamespace(): string[] {
+        let ns: any;
+        if (eb_lib_helpers.isObj<EntityFile>(this.options.file)) {
+            ns = this.options.file['namespace'];
+        }
+
+        return eb_lib_helpers.toStringSafe(ns).split('.').map(x => {
+            return x.trim();
+        }).filter(x => {
+            return '' !== x;
+        });
+    }
+
+    /**
+     * Returns the naming strategy to use.
+     * 
+     * @return {NamingStrategy} The naming strategy.
+     */
+    protected getNamingStrategy(): eb_lib_naming.NamingStrategy {
+        let naming = this.options.naming;
+        if (!eb_lib_helpers.isObj(naming) && eb_lib_helpers.isObj<EntityFile>(this.options.file)) {
+            naming = this.options.file.naming;
+        }
+
+        return eb_lib_naming.toNamingStrategy(naming);
+    }
+
+    /**
+     * Returns the writer for the generated files.
+     * 
+     * @return {OutputWriter} The writer.
+     */
+    protected getOutput(): eb_lib_output.OutputWriter {
+        if (!this._output) {
+            let output = this.options.output;
+            if (!output) {
+                output = new eb_lib_output.FileSystemOutputWriter();
+            }
+
+            if (eb_lib_helpers.toBooleanSafe(this.options.check) || eb_lib_helpers.toBooleanSafe(this.options.dryRun)) {
+                // keep written files in memory
+                output = new eb_lib_output.DryRunOutputWriter(output);
+            }
+
+            this._output = output;
+        }
+
+        return this._output;
+    }
+
+    /**
+     * Returns the full path of the output directory.
+     * 
+     * @return {string} The output directory.
+     */
+    protected getOutDir(): string {
+        let cwd = eb_lib_helpers.toStringSafe(this.options.cwd);
+        if (eb_lib_helpers.isEmptyString(cwd)) {
+            cwd = process.cwd();
+        }
+        if (!Path.isAbsolute(cwd)) {
+            cwd = Path.join(process.cwd(), cwd);
+        }
+        cwd = Path.resolve(cwd);
+
+        let outDir = eb_lib_helpers.toStringSafe(this.options.outDir);
+        if (eb_lib_helpers.isEmptyString(cwd)) {
+            outDir = cwd;
+        }
+        if (!Path.isAbsolute(outDir)) {
+            outDir = Path.join(cwd, outDir);
+        }
+
+        return Path.resolve(outDir);
     }
 }
 
@@ -466,37 +1602,122 @@ export async function compile(opts?: EntityCompilerOptions) {
 }
 
 /**
- * Parses a value for a class or for use in a class.
+ * Returns the name of the underlying database column of a column.
  * 
- * @param {any} val The input value.
+ * @param {string} name The name of the column.
+ * @param {EntityColumn} column The column.
  * 
- * @return {string|false} The parsed name or (false) if invalid.
+ * @return {string} The name of the database column.
  */
-export function parseForClass(val: any): string | false {
-    val = eb_lib_helpers.toStringSafe(val).trim();
-
-    if (/^([a-z|A-Z|0-9|_]+)$/i.test(val) &&
-        !/^([0-9]+)/i.test(val)) {
-        return val;
+export function getColumnDbName(name: string, column: EntityColumn): string {
+    let dbName: string;
+    if (eb_lib_helpers.isObj<EntityColumn>(column)) {
+        dbName = eb_lib_helpers.toStringSafe(column.dbName).trim();
     }
 
-    return false;
+    return eb_lib_helpers.isEmptyString(dbName) ? name.trim() : dbName;
 }
 
 /**
- * Converts a data type from a entity file to a CLR type.
+ * Returns the name of the case of an enum, which has a specific value.
  * 
- * @param {string} type The entity type.
- * @param {Function} canBeNull The function that provides if value can be (null) or not.
- * @param {Function} isID The function that provides if value is an ID value or not.
+ * @param {EntityEnum} e The (normalized) enum.
+ * @param {any} val The value.
  * 
- * @return {string} The CLR type.
+ * @return {string|false} The name of the case or (false) if not found.
  */
-export function toClrType
-(
+export function getEnumCase(e: EntityEnum, val: any): string | false {
+    if (eb_lib_helpers.isObj<EntityEnum>(e)) {
+        const VALUES = e.values;
+
+        for (const CASE_NAME in VALUES) {
+            if (eb_lib_helpers.toStringSafe(VALUES[CASE_NAME]) === eb_lib_helpers.toStringSafe(val)) {
+                return CASE_NAME;
+            }
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Parses a value for a class or for use in a class.
+ * 
+ * @param {any} val The input value.
+ * 
+ * @return {string|false} The parsed name or (false) if invalid.
+ */
+export function parseForClass(val: any): string | false {
+    val = eb_lib_helpers.toStringSafe(val).trim();
+
+    if (/^([a-z|A-Z|0-9|_]+)$/i.test(val) &&
+        !/^([0-9]+)/i.test(val)) {
+        return val;
+    }
+
+    return false;
+}
+
+/**
+ * Converts a value to a C# literal.
+ * 
+ * @param {any} val The value to convert.
+ * @param {string} clrType The CLR type, which is returned by 'toClrType()'.
+ * 
+ * @return {string} The value as C# literal.
+ */
+export function toClrLiteral(val: any, clrType: string): string {
+    if (eb_lib_helpers.isNullOrUndefined(val)) {
+        return 'null';
+    }
+
+    switch (eb_lib_helpers.toStringSafe(clrType).trim().replace(/\?$/, '')) {
+        case 'bool':
+            return eb_lib_helpers.toBooleanSafe(val) ? 'true' : 'false';
+
+        case 'decimal':
+            return `${val}m`;
+
+        case 'float':
+            return `${val}f`;
+
+        case 'long':
+            return `${val}L`;
+
+        case 'uint':
+            return `${val}U`;
+
+        case 'ulong':
+            return `${val}UL`;
+
+        case 'global::System.Guid':
+            return `new global::System.Guid(${JSON.stringify( eb_lib_helpers.toStringSafe(val) )})`;
+
+        case 'int':
+        case 'short':
+        case 'ushort':
+            return eb_lib_helpers.toStringSafe(val);
+    }
+
+    return JSON.stringify( eb_lib_helpers.toStringSafe(val) );
+}
+
+/**
+ * Converts a data type from a entity file to a CLR type.
+ * 
+ * @param {string} type The entity type.
+ * @param {Function} canBeNull The function that provides if value can be (null) or not.
+ * @param {Function} isID The function that provides if value is an ID value or not.
+ * @param {Function} [isUnsigned] The function that provides if value is unsigned or not.
+ * 
+ * @return {string} The CLR type.
+ */
+export function toClrType
+(
     type: string,
     canBeNull: () => boolean,
-    isID: () => boolean
+    isID: () => boolean,
+    isUnsigned?: () => boolean
 )
 {
     type = eb_lib_helpers.normalizeString(type);
@@ -587,6 +1808,22 @@ export function toClrType
             throw new Error(`The data type '${type}' is not supported by CLR!`);
     }
 
+    if (isUnsigned && isUnsigned()) {
+        switch (type) {
+            case 'int':
+                type = 'uint';
+                break;
+
+            case 'long':
+                type = 'ulong';
+                break;
+
+            case 'short':
+                type = 'ushort';
+                break;
+        }
+    }
+
     if (canBeNull()) {
         switch (type) {
             case 'bool':
@@ -609,3 +1846,815 @@ export function toClrType
 
     return type;
 }
+
+/**
+ * Converts a literal to a default value of a column.
+ * 
+ * @param {string} type The entity type.
+ * @param {any} val The literal.
+ * @param {Function} isID The function that provides if value is an ID value or not.
+ * 
+ * @return {any} The default value or (undefined) if literal does not match the type.
+ */
+export function toDefaultValue
+(
+    type: string,
+    val: any,
+    isID: () => boolean
+): any
+{
+    const TO_INTEGER = () => {
+        const NUMBER = TO_NUMBER();
+        if (Number.isInteger(NUMBER)) {
+            return NUMBER;
+        }
+    };
+
+    const TO_NUMBER = () => {
+        if (eb_lib_helpers.isNumber(val)) {
+            return val;
+        }
+
+        if (eb_lib_helpers.isString(val)) {
+            const NUMBER = Number(val.trim());
+            if ('' !== val.trim() && !isNaN(NUMBER)) {
+                return NUMBER;
+            }
+        }
+    };
+
+    const TO_STRING = () => {
+        if (eb_lib_helpers.isString(val)) {
+            return val;
+        }
+    };
+
+    type = eb_lib_helpers.normalizeString(type);
+    switch (type) {
+        case TYPE_BIGINT:
+        case TYPE_INT:
+        case TYPE_INT16:
+        case TYPE_INT32:
+        case TYPE_INT64:
+        case TYPE_INTEGER:
+        case TYPE_SMALLINT:
+        case TYPE_UINT16:
+        case TYPE_UINT32:
+        case TYPE_UINT64:
+            return TO_INTEGER();
+
+        case TYPE_BOOL:
+        case TYPE_BOOLEAN:
+            if (eb_lib_helpers.isBool(val)) {
+                return val;
+            }
+            switch (eb_lib_helpers.normalizeString(val)) {
+                case 'true':
+                    return true;
+
+                case 'false':
+                    return false;
+            }
+            break;
+
+        case TYPE_DECIMAL:
+        case TYPE_FLOAT:
+            return TO_NUMBER();
+
+        case TYPE_ENUM:
+            if (eb_lib_helpers.isNumber(val)) {
+                return val;
+            }
+            return TO_STRING();
+
+        case TYPE_GUID:
+        case TYPE_UUID:
+            if (/^([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})$/i.test(TO_STRING())) {
+                return val;
+            }
+            break;
+
+        case TYPE_STR:
+        case TYPE_STRING:
+        case TYPE_TEXT:
+            return TO_STRING();
+
+        case TYPE__DEFAULT:
+            if (isID()) {
+                return TO_INTEGER();
+            }
+            return TO_STRING();
+
+        case TYPE_BIN:
+        case TYPE_BINARY:
+        case TYPE_BLOB:
+        case TYPE_DATE:
+        case TYPE_DATETIME:
+        case TYPE_DATETIME_TZ:
+        case TYPE_JSON:
+        case TYPE_TIME:
+            throw new Error(`The data type '${type}' does not support literals as default values! Use 'dbDefault' instead.`);
+
+        default:
+            throw new Error(`The data type '${type}' is not supported!`);
+    }
+}
+
+/**
+ * Converts a data type from a entity file to a SQL type.
+ * 
+ * @param {string} type The entity type.
+ * @param {string} dialect The SQL dialect, like 'postgres'.
+ * @param {Function} isID The function that provides if value is an ID value or not.
+ * @param {EntityColumn} [column] The column, which provides length, precision, scale and the unsigned flag.
+ * 
+ * @return {string} The SQL type.
+ */
+export function toSqlType
+(
+    type: string,
+    dialect: string,
+    isID: () => boolean,
+    column?: EntityColumn
+)
+{
+    dialect = eb_lib_helpers.normalizeString(dialect);
+
+    const TYPES = SQL_TYPES[dialect];
+    if (!TYPES) {
+        throw new Error(`The SQL dialect '${dialect}' is not supported!`);
+    }
+
+    if (!column) {
+        column = {};
+    }
+
+    type = eb_lib_helpers.normalizeString(type);
+    if (TYPE__DEFAULT === type) {
+        type = isID() ? TYPE_INT : TYPE_STRING;
+    }
+
+    let sqlType = TYPES[type];
+    if (eb_lib_helpers.isNullOrUndefined(sqlType)) {
+        throw new Error(`The data type '${type}' is not supported by SQL dialect '${dialect}'!`);
+    }
+
+    switch (sqlType) {
+        case 'NVARCHAR':
+        case 'VARBINARY':
+        case 'VARCHAR':
+            sqlType += `(${eb_lib_helpers.isNullOrUndefined(column.length) ? 255 : column.length})`;
+            break;
+
+        case 'DECIMAL':
+        case 'NUMERIC':
+            if (!eb_lib_helpers.isNullOrUndefined(column.precision)) {
+                sqlType += `(${column.precision}${eb_lib_helpers.isNullOrUndefined(column.scale) ? '' : `, ${column.scale}`})`;
+            }
+            break;
+    }
+
+    if (SQL_DIALECT_MYSQL === dialect && eb_lib_helpers.toBooleanSafe(column.unsigned)) {
+        switch (sqlType) {
+            case 'BIGINT':
+            case 'INT':
+            case 'SMALLINT':
+                sqlType += ' UNSIGNED';
+                break;
+        }
+    }
+
+    return sqlType;
+}
+
+/**
+ * Converts a data type from a entity file to a TypeScript type.
+ * 
+ * @param {string} type The entity type.
+ * @param {Function} canBeNull The function that provides if value can be (null) or not.
+ * @param {Function} isID The function that provides if value is an ID value or not.
+ * 
+ * @return {string} The TypeScript type.
+ */
+export function toTypeScriptType
+(
+    type: string,
+    canBeNull: () => boolean,
+    isID: () => boolean
+)
+{
+    type = eb_lib_helpers.normalizeString(type);
+    switch (type) {
+        case TYPE_BIGINT:
+        case TYPE_DECIMAL:
+        case TYPE_INT64:
+        case TYPE_UINT64:
+            // values, which do not fit into a JavaScript number,
+            // are returned as strings
+            type = 'string';
+            break;
+
+        case TYPE_BIN:
+        case TYPE_BINARY:
+        case TYPE_BLOB:
+            type = 'Buffer';
+            break;
+
+        case TYPE_BOOL:
+        case TYPE_BOOLEAN:
+            type = 'boolean';
+            break;
+
+        case TYPE_DATE:
+        case TYPE_DATETIME:
+        case TYPE_DATETIME_TZ:
+            type = 'Date';
+            break;
+
+        case TYPE_FLOAT:
+        case TYPE_INT:
+        case TYPE_INT16:
+        case TYPE_INT32:
+        case TYPE_INTEGER:
+        case TYPE_SMALLINT:
+        case TYPE_UINT16:
+        case TYPE_UINT32:
+            type = 'number';
+            break;
+
+        case TYPE_GUID:
+        case TYPE_STR:
+        case TYPE_STRING:
+        case TYPE_TEXT:
+        case TYPE_TIME:
+        case TYPE_UUID:
+            type = 'string';
+            break;
+
+        case TYPE_JSON:
+            type = 'any';
+            break;
+
+        case TYPE__DEFAULT:
+            type = 'string';
+            if (isID()) {
+                type = 'number';
+            }
+            break;
+
+        default:
+            throw new Error(`The data type '${type}' is not supported by TypeScript!`);
+    }
+
+    if (canBeNull() && 'any' !== type) {
+        type += ' | null';
+    }
+
+    return type;
+}
+
+function addFileResult(
+    file: string,
+    action: string,
+    isExtension: boolean,
+    target: EntityTarget,
+    result?: EntityCompilerResult,
+    classResult?: EntityCompilerClassResult,
+    diff?: string,
+    hash?: string,
+): EntityCompilerFileResult {
+    const FILE_RESULT: EntityCompilerFileResult = {
+        action: action,
+        className: classResult ? classResult.name : undefined,
+        diff: diff,
+        hash: hash,
+        isExtension: eb_lib_helpers.toBooleanSafe(isExtension),
+        path: Path.resolve(file),
+        target: target,
+    };
+
+    if (classResult) {
+        classResult.files.push(FILE_RESULT);
+    }
+    if (result) {
+        result.files.push(FILE_RESULT);
+    }
+
+    return FILE_RESULT;
+}
+
+function getEnumOf(enums: EntityEnumDescriptions, name: string): EntityEnumDescriptionEntry {
+    if (eb_lib_helpers.isObj<EntityEnumDescriptions>(enums)) {
+        for (const E in enums) {
+            if (E.trim() === name) {
+                return enums[E];
+            }
+        }
+    }
+}
+
+function getIdColumnsOf(entity: EntityClass, naming: eb_lib_naming.NamingStrategy): string[] {
+    const ID_COLUMNS: string[] = [];
+
+    if (eb_lib_helpers.isObj<EntityClass>(entity)) {
+        if (eb_lib_helpers.isObj<EntityColumnDescriptions>(entity.columns)) {
+            for (const C in entity.columns) {
+                const COLUMN = entity.columns[C];
+
+                if (eb_lib_helpers.isObj<EntityColumn>(COLUMN)) {
+                    if (eb_lib_helpers.toBooleanSafe(COLUMN.id)) {
+                        ID_COLUMNS.push(
+                            eb_lib_helpers.isEmptyString(COLUMN.dbName) ? naming.toColumnName(C) : getColumnDbName(C, COLUMN)
+                        );
+                    }
+                }
+            }
+        }
+    }
+
+    return ID_COLUMNS;
+}
+
+function getJoinColumnName(className: string, entity: EntityClass, naming: eb_lib_naming.NamingStrategy) {
+    let idColumn = getIdColumnsOf(entity, naming)[0];
+    if (eb_lib_helpers.isEmptyString(idColumn)) {
+        idColumn = 'id';
+    }
+
+    return naming.toColumnName(`${className.toLowerCase()}_${idColumn}`);
+}
+
+function getJoinTableName(
+    className: string, entity: EntityClass, targetName: string, target: EntityClass,
+    naming: eb_lib_naming.NamingStrategy,
+) {
+    return [
+        getTableNameOf(className, entity, naming),
+        getTableNameOf(targetName, target, naming),
+    ].sort((x, y) => {
+        return eb_lib_helpers.compareValuesBy(x, y, t => {
+            return eb_lib_helpers.normalizeString(t);
+        });
+    }).join('_');
+}
+
+function getRelationOf(entity: EntityClass, name: string): EntityRelation {
+    if (eb_lib_helpers.isObj<EntityClass>(entity)) {
+        if (eb_lib_helpers.isObj<EntityRelationDescriptions>(entity.relations)) {
+            for (const R in entity.relations) {
+                if (R.trim() !== name) {
+                    continue;
+                }
+
+                const RELATION = entity.relations[R];
+                if (eb_lib_helpers.isObj<EntityRelation>(RELATION)) {
+                    return RELATION;
+                }
+
+                return {
+                    target: eb_lib_helpers.toStringSafe(RELATION),
+                };
+            }
+        }
+    }
+}
+
+function getTableNameOf(className: string, entity: EntityClass, naming: eb_lib_naming.NamingStrategy) {
+    let table = eb_lib_helpers.toStringSafe(entity.table).trim();
+    if ('' === table) {
+        table = naming.toTableName(naming.toClassName(className));
+    }
+
+    return table;
+}
+
+function toEntityColumn(name: string, column: EntityColumn, enums: EntityEnumStorage): EntityColumn {
+    const TO_NUMBER = (prop: 'length' | 'order' | 'precision' | 'scale') => {
+        const VALUE = column[prop];
+        if (eb_lib_helpers.isEmptyString(VALUE)) {
+            return undefined;
+        }
+
+        const NUMBER = parseInt(eb_lib_helpers.toStringSafe(VALUE).trim());
+        if (isNaN(NUMBER) || NUMBER < 0 || NUMBER.toString() !== eb_lib_helpers.toStringSafe(VALUE).trim()) {
+            throw new Error(`The ${prop} '${eb_lib_helpers.toStringSafe(VALUE)}' of column '${name}' is invalid!`);
+        }
+
+        return NUMBER;
+    };
+
+    const LENGTH = TO_NUMBER('length');
+    const ORDER = TO_NUMBER('order');
+    const PRECISION = TO_NUMBER('precision');
+    const SCALE = TO_NUMBER('scale');
+    if (!eb_lib_helpers.isNullOrUndefined(SCALE)) {
+        if (eb_lib_helpers.isNullOrUndefined(PRECISION)) {
+            throw new Error(`The column '${name}' defines a scale without a precision!`);
+        }
+
+        if (SCALE > PRECISION) {
+            throw new Error(`The scale of column '${name}' is greater than its precision!`);
+        }
+    }
+
+    let unsigned = eb_lib_helpers.toBooleanSafe(column.unsigned);
+    switch (eb_lib_helpers.normalizeString(column.type)) {
+        case TYPE_UINT16:
+        case TYPE_UINT32:
+        case TYPE_UINT64:
+            unsigned = true;
+            break;
+    }
+
+    let defaultValue: any;
+    if (!eb_lib_helpers.isNullOrUndefined(column['default'])) {
+        defaultValue = toDefaultValue(
+            column.type, column['default'],
+            () => eb_lib_helpers.toBooleanSafe(column.id),
+        );
+        if (eb_lib_helpers.isNullOrUndefined(defaultValue)) {
+            throw new Error(`The default value '${eb_lib_helpers.toStringSafe(column['default'])}' of column '${name}' does not match its data type!`);
+        }
+
+        if (unsigned && eb_lib_helpers.isNumber(defaultValue) && defaultValue < 0) {
+            throw new Error(`The default value '${defaultValue}' of unsigned column '${name}' is negative!`);
+        }
+
+        if (TYPE_ENUM === eb_lib_helpers.normalizeString(column.type)) {
+            const ENUM = enums[ column['enum'] ];
+
+            const CASE_NAME = getEnumCase(ENUM, defaultValue);
+            if (false === CASE_NAME) {
+                throw new Error(`The default value '${eb_lib_helpers.toStringSafe(defaultValue)}' of column '${name}' is not a value of enum '${column['enum']}'!`);
+            }
+
+            defaultValue = ENUM.values[ CASE_NAME ];
+        }
+    }
+
+    let dbDefault = eb_lib_helpers.toStringSafe(column.dbDefault).trim();
+    let dbName = eb_lib_helpers.toStringSafe(column.dbName).trim();
+
+    return Object.assign({}, column, {
+        dbDefault: '' === dbDefault ? undefined : dbDefault,
+        dbName: '' === dbName ? undefined : dbName,
+        'default': defaultValue,
+        length: LENGTH,
+        order: ORDER,
+        precision: PRECISION,
+        scale: SCALE,
+        unsigned: unsigned,
+    });
+}
+
+function toEntityEnum(name: string, entry: EntityEnumDescriptionEntry): EntityEnum {
+    let e = <EntityEnum>entry;
+    if (!eb_lib_helpers.isObj<EntityEnum>(e) ||
+        (!Array.isArray(e.values) && !eb_lib_helpers.isObj(e.values))) {
+        e = {
+            values: <EntityEnumValues>entry,
+        };
+    }
+
+    const VALUES: { [caseName: string]: string | number } = {};
+    const ADD_CASE = (caseName: string | false, value: any) => {
+        if (false === caseName) {
+            throw new Error(`The value '${eb_lib_helpers.toStringSafe(value)}' of enum '${name}' cannot be used as case name!`);
+        }
+
+        if (!eb_lib_helpers.isNullOrUndefined(VALUES[caseName])) {
+            throw new Error(`The case '${caseName}' of enum '${name}' has already been defined!`);
+        }
+
+        if (!eb_lib_helpers.isNumber(value) && !eb_lib_helpers.isString(value)) {
+            throw new Error(`The value of case '${caseName}' of enum '${name}' must be a string or a number!`);
+        }
+
+        VALUES[caseName] = value;
+    };
+
+    if (Array.isArray(e.values)) {
+        for (const V of e.values) {
+            ADD_CASE(parseForClass( eb_lib_naming.toPascalCase(eb_lib_helpers.toStringSafe(V)) ), V);
+        }
+    }
+    else if (eb_lib_helpers.isObj(e.values)) {
+        for (const CASE_NAME in e.values) {
+            ADD_CASE(parseForClass(CASE_NAME), e.values[CASE_NAME]);
+        }
+    }
+
+    const CASES = Object.keys(VALUES);
+    if (CASES.length < 1) {
+        throw new Error(`The enum '${name}' has no values!`);
+    }
+
+    let type = eb_lib_helpers.normalizeString(e.type);
+    switch (type) {
+        case '':
+            type = CASES.every(c => eb_lib_helpers.isNumber(VALUES[c])) ? TYPE_INT : TYPE_STRING;
+            break;
+
+        case TYPE_INT:
+        case TYPE_STRING:
+            break;
+
+        default:
+            throw new Error(`The data type '${type}' of enum '${name}' is not supported!`);
+    }
+
+    for (const C of CASES) {
+        if (TYPE_INT === type) {
+            const VALUE = toDefaultValue(TYPE_INT, VALUES[C], () => false);
+            if (eb_lib_helpers.isNullOrUndefined(VALUE)) {
+                throw new Error(`The value of case '${C}' of enum '${name}' is no integer!`);
+            }
+
+            VALUES[C] = VALUE;
+        }
+        else {
+            VALUES[C] = eb_lib_helpers.toStringSafe(VALUES[C]);
+        }
+    }
+
+    return {
+        type: type,
+        values: VALUES,
+    };
+}
+
+function toEntityIndex(
+    index: EntityIndex, unique: boolean,
+    className: string, entity: EntityClass, columns: EntityColumnStorage,
+    naming: eb_lib_naming.NamingStrategy,
+): EntityIndex {
+    if (!eb_lib_helpers.isObj<EntityIndex>(index)) {
+        throw new Error(`Invalid index definition!`);
+    }
+
+    const COLUMNS: string[] = [];
+    for (const C of eb_lib_helpers.asArray(index.columns)) {
+        for (const COLUMN_NAME of eb_lib_helpers.toStringSafe(C).split(',').map(cn => cn.trim()).filter(cn => '' !== cn)) {
+            if (!eb_lib_helpers.isObj<EntityColumn>(columns[ COLUMN_NAME ])) {
+                throw new Error(`The column '${COLUMN_NAME}' of an index does not exist!`);
+            }
+
+            COLUMNS.push(COLUMN_NAME);
+        }
+    }
+
+    if (COLUMNS.length < 1) {
+        throw new Error(`An index without columns has been defined!`);
+    }
+
+    unique = unique || eb_lib_helpers.toBooleanSafe(index.unique);
+
+    let name = eb_lib_helpers.toStringSafe(index.name).trim();
+    if ('' === name) {
+        name = `${unique ? 'UNIQ' : 'IDX'}_${getTableNameOf(className, entity, naming)}_${COLUMNS.map(c => getColumnDbName(c, columns[c])).join('_')}`;
+    }
+
+    const WHERE = eb_lib_helpers.toStringSafe(index.where).trim();
+
+    return {
+        columns: COLUMNS,
+        name: name,
+        unique: unique,
+        where: '' === WHERE ? undefined : WHERE,
+    };
+}
+
+function toEntityRelation(
+    className: string, name: string, relation: EntityRelation,
+    entities: EntityDescriptions, naming: eb_lib_naming.NamingStrategy,
+): EntityRelation {
+    const ENTITY = entities[ className ];
+
+    const TARGET = parseForClass(relation.target);
+    if (false === TARGET || !eb_lib_helpers.isObj<EntityClass>(entities[ TARGET ])) {
+        throw new Error(`The target entity '${eb_lib_helpers.toStringSafe(relation.target)}' of relation '${name}' does not exist!`);
+    }
+
+    const TARGET_ENTITY = entities[ TARGET ];
+
+    let type = eb_lib_helpers.normalizeString(relation.type);
+    switch (type) {
+        case '':
+            type = RELATION_MANY_TO_ONE;
+            break;
+
+        case RELATION_MANY_TO_MANY:
+        case RELATION_MANY_TO_ONE:
+        case RELATION_ONE_TO_MANY:
+        case RELATION_ONE_TO_ONE:
+            break;
+
+        default:
+            throw new Error(`The relation type '${type}' of relation '${name}' is not supported!`);
+    }
+
+    let fetch = eb_lib_helpers.normalizeString(relation.fetch);
+    switch (fetch) {
+        case '':
+            fetch = undefined;
+            break;
+
+        case FETCH_EAGER:
+        case FETCH_EXTRA_LAZY:
+        case FETCH_LAZY:
+            break;
+
+        default:
+            throw new Error(`The fetch mode '${fetch}' of relation '${name}' is not supported!`);
+    }
+
+    let inversedBy = eb_lib_helpers.toStringSafe(relation.inversedBy).trim();
+    let mappedBy = eb_lib_helpers.toStringSafe(relation.mappedBy).trim();
+    for (const INVERSE of [ inversedBy, mappedBy ]) {
+        if ('' === INVERSE) {
+            continue;
+        }
+
+        if (!getRelationOf(TARGET_ENTITY, INVERSE)) {
+            throw new Error(`The relation '${INVERSE}' of target entity '${TARGET}' does not exist!`);
+        }
+    }
+
+    const IS_OWNING_SIDE = RELATION_MANY_TO_ONE === type ||
+                           ((RELATION_ONE_TO_ONE === type || RELATION_MANY_TO_MANY === type) && '' === mappedBy);
+    if (RELATION_ONE_TO_MANY === type && '' === mappedBy) {
+        throw new Error(`The one-to-many relation '${name}' requires a 'mappedBy' value!`);
+    }
+
+    let column: string;
+    let inverseColumn: string;
+    let inverseReferencedColumn: string;
+    let joinTable: string;
+    let mappedByColumn: string;
+    let referencedColumn: string;
+    if (RELATION_MANY_TO_MANY === type) {
+        // the owning side defines the join table,
+        // so the inverse side uses the settings from there
+        let owningSide = relation;
+        if (!IS_OWNING_SIDE) {
+            owningSide = getRelationOf(TARGET_ENTITY, mappedBy);
+        }
+
+        joinTable = eb_lib_helpers.toStringSafe(owningSide.joinTable).trim();
+        if ('' === joinTable) {
+            joinTable = getJoinTableName(className, ENTITY, TARGET, TARGET_ENTITY, naming);
+        }
+
+        column = eb_lib_helpers.toStringSafe(IS_OWNING_SIDE ? owningSide.column : owningSide.inverseColumn).trim();
+        if ('' === column) {
+            column = getJoinColumnName(className, ENTITY, naming);
+        }
+
+        inverseColumn = eb_lib_helpers.toStringSafe(IS_OWNING_SIDE ? owningSide.inverseColumn : owningSide.column).trim();
+        if ('' === inverseColumn) {
+            inverseColumn = getJoinColumnName(TARGET, TARGET_ENTITY, naming);
+        }
+
+        // a join table has only one column per side
+        for (const E of [ className, TARGET ]) {
+            if (getIdColumnsOf(entities[E], naming).length > 1) {
+                throw new Error(`The many-to-many relation '${name}' cannot refer to entity '${E}', which has a composite primary key!`);
+            }
+        }
+
+        referencedColumn = getIdColumnsOf(ENTITY, naming)[0];
+        inverseReferencedColumn = getIdColumnsOf(TARGET_ENTITY, naming)[0];
+        if (eb_lib_helpers.isEmptyString(inverseReferencedColumn)) {
+            inverseReferencedColumn = 'id';
+        }
+    }
+    else if (IS_OWNING_SIDE) {
+        column = eb_lib_helpers.toStringSafe(relation.column).trim();
+        if ('' === column) {
+            column = naming.toColumnName(`${name}_id`);
+        }
+
+        referencedColumn = eb_lib_helpers.toStringSafe(relation.referencedColumn).trim();
+        if ('' === referencedColumn) {
+            const TARGET_ID_COLUMNS = getIdColumnsOf(TARGET_ENTITY, naming);
+            if (TARGET_ID_COLUMNS.length > 1) {
+                // a join column can only refer to one column
+                throw new Error(`The relation '${name}' cannot refer to the composite primary key of entity '${TARGET}'! Define a 'referencedColumn' instead.`);
+            }
+
+            referencedColumn = TARGET_ID_COLUMNS[0];
+        }
+    }
+    else {
+        // the join column is defined by the owning side
+        mappedByColumn = eb_lib_helpers.toStringSafe(getRelationOf(TARGET_ENTITY, mappedBy).column).trim();
+        if ('' === mappedByColumn) {
+            mappedByColumn = naming.toColumnName(`${mappedBy}_id`);
+        }
+    }
+
+    if (!eb_lib_helpers.isNullOrUndefined(column)) {
+        if (eb_lib_helpers.isEmptyString(referencedColumn)) {
+            referencedColumn = 'id';
+        }
+    }
+
+    return {
+        cascade: eb_lib_helpers.asArray(relation.cascade).map(c => {
+            return eb_lib_helpers.normalizeString(c);
+        }).filter(c => '' !== c),
+        column: column,
+        fetch: fetch,
+        inverseColumn: inverseColumn,
+        inverseReferencedColumn: inverseReferencedColumn,
+        inversedBy: '' === inversedBy ? undefined : inversedBy,
+        joinTable: joinTable,
+        mappedBy: '' === mappedBy ? undefined : mappedBy,
+        mappedByColumn: mappedByColumn,
+        referencedColumn: referencedColumn,
+        target: naming.toClassName(TARGET),
+        type: type,
+    };
+}
+
+function toGenerateFileContext(
+    classes: GenerateClassContext[],
+    ns: string[],
+    options: EntityCompilerOptions,
+    outDir: string,
+    output: eb_lib_output.OutputWriter,
+    result?: EntityCompilerResult,
+): GenerateFileContext {
+    const ENUMS: EntityEnumStorage = {};
+    for (const CTX of classes) {
+        Object.assign(ENUMS, CTX.enums);
+    }
+
+    return {
+        classes: classes.sort((x, y) => {
+            return eb_lib_helpers.compareValuesBy(x, y, c => {
+                return eb_lib_helpers.normalizeString(c.name);
+            });
+        }),
+        enums: ENUMS,
+        'namespace': ns,
+        options: options,
+        outDir: outDir,
+        output: output,
+        skipFile: (file, isExtension?) => {
+            return addFileResult(file, FILE_SKIPPED, isExtension, options.target, result);
+        },
+        warn: (message) => {
+            if (result) {
+                result.warnings.push(eb_lib_helpers.toStringSafe(message));
+            }
+        },
+        writeFile: (file, content, isExtension?) => {
+            return writeGeneratedFile(output, options, file, content, isExtension, result);
+        },
+    };
+}
+
+async function writeGeneratedFile(
+    output: eb_lib_output.OutputWriter,
+    options: EntityCompilerOptions,
+    file: string,
+    content: string,
+    isExtension: boolean,
+    result?: EntityCompilerResult,
+    classResult?: EntityCompilerClassResult,
+): Promise<EntityCompilerFileResult> {
+    file = Path.resolve(file);
+    content = eb_lib_helpers.toStringSafe(content);
+
+    let action = FILE_CREATED;
+    let oldContent: string;
+    if (await output.exists(file)) {
+        if (eb_lib_helpers.toBooleanSafe(isExtension)) {
+            // extension files are owned by the user
+            return addFileResult(file, FILE_SKIPPED, isExtension, options.target, result, classResult);
+        }
+
+        action = FILE_OVERWRITTEN;
+
+        // do not touch unchanged files
+        oldContent = await output.read(file);
+        if (oldContent === content) {
+            action = FILE_UNCHANGED;
+        }
+    }
+
+    if (FILE_UNCHANGED !== action) {
+        await output.write(file, content);
+    }
+
+    let diff: string;
+    if (eb_lib_helpers.toBooleanSafe(options.dryRun) && FILE_UNCHANGED !== action) {
+        diff = Diff.createTwoFilesPatch(FILE_CREATED === action ? '/dev/null' : file, file,
+                                        eb_lib_helpers.toStringSafe(oldContent), content,
+                                        undefined, undefined);
+    }
+
+    return addFileResult(file, action, isExtension, options.target, result, classResult, diff,
+                         eb_lib_manifest.toContentHash(content));
+}
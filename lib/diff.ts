@@ -0,0 +1,1076 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_helpers from './helpers';
+import * as eb_lib_sql from './sql';
+
+
+/**
+ * A change of a column.
+ */
+export interface ColumnChange {
+    /**
+     * The list of changed properties, like 'type', 'null', 'default', 'id' or 'auto'.
+     */
+    readonly changes: string[];
+    /**
+     * The kind of change, like 'added' or 'renamed'.
+     */
+    readonly kind: string;
+    /**
+     * The name of the column.
+     */
+    readonly name: string;
+    /**
+     * The new column (if not removed).
+     */
+    readonly newColumn?: eb_lib_compiler.EntityColumn;
+    /**
+     * The old column (if not added).
+     */
+    readonly oldColumn?: eb_lib_compiler.EntityColumn;
+    /**
+     * The old name of the column (if renamed).
+     */
+    readonly oldName?: string;
+}
+
+/**
+ * A change of an entity.
+ */
+export interface EntityChange {
+    /**
+     * The changes of the columns.
+     */
+    readonly columns: ColumnChange[];
+    /**
+     * The kind of change, like 'added' or 'renamed'.
+     */
+    readonly kind: string;
+    /**
+     * The name of the class.
+     */
+    readonly name: string;
+    /**
+     * The context of the new class (if not removed).
+     */
+    readonly newContext?: eb_lib_compiler.GenerateClassContext;
+    /**
+     * The context of the old class (if not added).
+     */
+    readonly oldContext?: eb_lib_compiler.GenerateClassContext;
+    /**
+     * The old name of the class (if renamed).
+     */
+    readonly oldName?: string;
+    /**
+     * Has the primary key been changed or not.
+     */
+    readonly primaryKeyChanged: boolean;
+}
+
+/**
+ * The changes between two entity files.
+ */
+export interface EntityChangeSet {
+    /**
+     * The changed entities, sorted by name.
+     */
+    readonly entities: EntityChange[];
+    /**
+     * The context of the new entity file.
+     */
+    readonly newFile: eb_lib_compiler.GenerateFileContext;
+    /**
+     * The context of the old entity file.
+     */
+    readonly oldFile: eb_lib_compiler.GenerateFileContext;
+}
+
+/**
+ * Options for rendering a migration.
+ */
+export interface MigrationOptions {
+    /**
+     * The name of the DbContext class (Entity Framework Core only).
+     */
+    readonly context?: string;
+    /**
+     * The SQL dialect. Default: 'postgres'
+     */
+    readonly dialect?: string;
+    /**
+     * The name of the migration class.
+     */
+    readonly name?: string;
+    /**
+     * The namespace of the migration class.
+     */
+    readonly 'namespace'?: string;
+    /**
+     * The time of the migration. Default: now
+     */
+    readonly time?: Date;
+}
+
+
+// kinds of changes
+export const CHANGE_ADDED = 'added';
+export const CHANGE_CHANGED = 'changed';
+export const CHANGE_REMOVED = 'removed';
+export const CHANGE_RENAMED = 'renamed';
+
+// changed column properties
+export const COLUMN_CHANGE_AUTO = 'auto';
+export const COLUMN_CHANGE_DEFAULT = 'default';
+export const COLUMN_CHANGE_ID = 'id';
+export const COLUMN_CHANGE_NULL = 'null';
+export const COLUMN_CHANGE_TYPE = 'type';
+
+// SQL functions, which generate the values of auto UUID columns
+const UUID_DEFAULT_VALUES: { [dialect: string]: string } = {
+    'mssql': 'NEWID()',
+    'mysql': '(UUID())',
+    'postgres': 'gen_random_uuid()',
+};
+// SQL types of UUID columns, like in 'toSqlColumnDefinition()'
+const UUID_SQL_TYPES = [ 'CHAR(36)', 'TEXT', 'UNIQUEIDENTIFIER', 'UUID' ];
+
+
+/**
+ * Compares two entity files.
+ * 
+ * @param {EntityFile} oldFile The old entity file.
+ * @param {EntityFile} newFile The new entity file.
+ * @param {EntityCompilerOptions} [opts] Additional options, like a naming strategy.
+ * 
+ * @return {EntityChangeSet} The changes.
+ */
+export function diffEntityFiles(
+    oldFile: eb_lib_compiler.EntityFile, newFile: eb_lib_compiler.EntityFile,
+    opts?: eb_lib_compiler.EntityCompilerOptions,
+): EntityChangeSet {
+    const OLD_FILE = new eb_lib_compiler.EntityCompiler(Object.assign({}, opts, {
+        file: oldFile,
+    })).createFileContext();
+    const NEW_FILE = new eb_lib_compiler.EntityCompiler(Object.assign({}, opts, {
+        file: newFile,
+    })).createFileContext();
+
+    const OLD_CLASSES: { [name: string]: eb_lib_compiler.GenerateClassContext } = {};
+    for (const CTX of OLD_FILE.classes) {
+        OLD_CLASSES[ CTX.name ] = CTX;
+    }
+
+    const ENTITIES: EntityChange[] = [];
+    const MATCHED_CLASSES: string[] = [];
+    for (const NEW_CTX of NEW_FILE.classes) {
+        let oldCtx = OLD_CLASSES[ NEW_CTX.name ];
+        if (!oldCtx) {
+            const RENAMED_FROM = eb_lib_helpers.toStringSafe(NEW_CTX.entity.renamedFrom).trim();
+            if ('' !== RENAMED_FROM) {
+                oldCtx = OLD_CLASSES[ RENAMED_FROM ];
+                if (!oldCtx) {
+                    throw new Error(`The entity '${RENAMED_FROM}', which has been renamed to '${NEW_CTX.name}', does not exist!`);
+                }
+            }
+        }
+
+        if (!oldCtx) {
+            ENTITIES.push({
+                columns: [],
+                kind: CHANGE_ADDED,
+                name: NEW_CTX.name,
+                newContext: NEW_CTX,
+                primaryKeyChanged: false,
+            });
+
+            continue;
+        }
+
+        if (MATCHED_CLASSES.indexOf(oldCtx.name) > -1) {
+            throw new Error(`The entity '${oldCtx.name}' has been renamed more than once!`);
+        }
+        MATCHED_CLASSES.push(oldCtx.name);
+
+        const CHANGE = diffClasses(oldCtx, NEW_CTX);
+        if (CHANGE) {
+            ENTITIES.push(CHANGE);
+        }
+    }
+
+    for (const OLD_CTX of OLD_FILE.classes) {
+        if (MATCHED_CLASSES.indexOf(OLD_CTX.name) < 0) {
+            ENTITIES.push({
+                columns: [],
+                kind: CHANGE_REMOVED,
+                name: OLD_CTX.name,
+                oldContext: OLD_CTX,
+                primaryKeyChanged: false,
+            });
+        }
+    }
+
+    return {
+        entities: ENTITIES.sort((x, y) => {
+            return eb_lib_helpers.compareValuesBy(x, y, e => {
+                return eb_lib_helpers.normalizeString(e.name);
+            });
+        }),
+        newFile: NEW_FILE,
+        oldFile: OLD_FILE,
+    };
+}
+
+/**
+ * Inverts a change set, so it describes the way back from the new to the old entity file.
+ * 
+ * @param {EntityChangeSet} changes The changes.
+ * 
+ * @return {EntityChangeSet} The inverted changes.
+ */
+export function invertChangeSet(changes: EntityChangeSet): EntityChangeSet {
+    return {
+        entities: changes.entities.map(e => {
+            return {
+                columns: e.columns.map(c => {
+                    return {
+                        changes: c.changes,
+                        kind: invertKind(c.kind),
+                        name: CHANGE_RENAMED === c.kind ? c.oldName : c.name,
+                        newColumn: c.oldColumn,
+                        oldColumn: c.newColumn,
+                        oldName: CHANGE_RENAMED === c.kind ? c.name : undefined,
+                    };
+                }),
+                kind: invertKind(e.kind),
+                name: CHANGE_RENAMED === e.kind ? e.oldName : e.name,
+                newContext: e.oldContext,
+                oldContext: e.newContext,
+                oldName: CHANGE_RENAMED === e.kind ? e.name : undefined,
+                primaryKeyChanged: e.primaryKeyChanged,
+            };
+        }),
+        newFile: changes.oldFile,
+        oldFile: changes.newFile,
+    };
+}
+
+/**
+ * Renders a change set as Doctrine Migrations class.
+ * 
+ * @param {EntityChangeSet} changes The changes.
+ * @param {MigrationOptions} [opts] Custom options.
+ * 
+ * @return {string} The PHP code.
+ */
+export function toDoctrineMigration(changes: EntityChangeSet, opts?: MigrationOptions): string {
+    if (!opts) {
+        opts = {};
+    }
+
+    let className = eb_lib_helpers.toStringSafe(opts.name).trim();
+    if ('' === className) {
+        className = 'Version' + toVersion(opts.time);
+    }
+
+    let ns = eb_lib_helpers.toStringSafe(opts['namespace']).trim();
+    if ('' === ns) {
+        ns = 'DoctrineMigrations';
+    }
+
+    const TO_PHP_CODE = (statements: string[]) => {
+        return statements.map(s => {
+            if (s.startsWith('-- ')) {
+                return `        // ${s.substr(3)}`;
+            }
+
+            return `        $this->addSql('${s.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}');`;
+        }).join('\n');
+    };
+
+    return `<?php
+
+declare(strict_types=1);
+
+namespace ${ns.replace(/\./g, '\\')};
+
+use Doctrine\\DBAL\\Schema\\Schema;
+use Doctrine\\Migrations\\AbstractMigration;
+
+/**
+ * AUTO GENERATED FILE
+ * 
+ * Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+ */
+final class ${className} extends AbstractMigration
+{
+    public function getDescription(): string
+    {
+        return '${toDescription(changes).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}';
+    }
+
+    public function up(Schema $schema): void
+    {
+${TO_PHP_CODE(toSqlStatements(changes, opts.dialect))}
+    }
+
+    public function down(Schema $schema): void
+    {
+${TO_PHP_CODE(toSqlStatements(invertChangeSet(changes), opts.dialect))}
+    }
+}
+`;
+}
+
+/**
+ * Renders a change set as Entity Framework Core migration.
+ * 
+ * @param {EntityChangeSet} changes The changes.
+ * @param {MigrationOptions} [opts] Custom options.
+ * 
+ * @return {string} The C# code.
+ */
+export function toEntityFrameworkCoreMigration(changes: EntityChangeSet, opts?: MigrationOptions): string {
+    if (!opts) {
+        opts = {};
+    }
+
+    const VERSION = toVersion(opts.time);
+
+    let className = eb_lib_helpers.toStringSafe(opts.name).trim();
+    if ('' === className) {
+        className = 'Version' + VERSION;
+    }
+
+    let ns = eb_lib_helpers.toStringSafe(opts['namespace']).trim();
+    if ('' === ns) {
+        ns = changes.newFile['namespace'].concat([ 'Migrations' ]).join('.');
+    }
+
+    let attributes = `    [global::Microsoft.EntityFrameworkCore.Migrations.Migration("${VERSION}_${className}")]`;
+
+    const CONTEXT = eb_lib_helpers.toStringSafe(opts.context).trim();
+    if ('' !== CONTEXT) {
+        attributes = `    [global::Microsoft.EntityFrameworkCore.Infrastructure.DbContext(typeof(${CONTEXT}))]
+` + attributes;
+    }
+
+    return `// AUTO GENERATED FILE
+// 
+// Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+
+using Microsoft.EntityFrameworkCore.Migrations;
+
+namespace ${ns}
+{
+${attributes}
+    public partial class ${className} : Migration
+    {
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+${toMigrationBuilderCalls(changes, opts.dialect).join('\n\n')}
+        }
+
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+${toMigrationBuilderCalls(invertChangeSet(changes), opts.dialect).join('\n\n')}
+        }
+    }
+}
+`;
+}
+
+/**
+ * Renders a change set as SQL script.
+ * 
+ * @param {EntityChangeSet} changes The changes.
+ * @param {MigrationOptions} [opts] Custom options.
+ * 
+ * @return {string} The SQL script.
+ */
+export function toSqlMigration(changes: EntityChangeSet, opts?: MigrationOptions): string {
+    if (!opts) {
+        opts = {};
+    }
+
+    const DIALECT = eb_lib_sql.toSqlDialect(opts.dialect);
+
+    return `-- AUTO GENERATED FILE
+--
+-- Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+-- Dialect: ${DIALECT}
+-- Version: ${toVersion(opts.time)}
+
+${toSqlStatements(changes, DIALECT).map(s => {
+    return s.startsWith('-- ') ? s : (s + ';');
+}).join('\n\n')}
+`;
+}
+
+/**
+ * Returns the SQL statements (without trailing semicolons) of a change set.
+ * Changes, which cannot be done by the dialect, are returned as comments, starting with '-- '.
+ * 
+ * @param {EntityChangeSet} changes The changes.
+ * @param {string} [dialect] The SQL dialect. Default: 'postgres'
+ * 
+ * @return {string[]} The statements.
+ */
+export function toSqlStatements(changes: EntityChangeSet, dialect?: string): string[] {
+    dialect = eb_lib_sql.toSqlDialect(dialect);
+
+    const QUOTE = (name: string) => {
+        return eb_lib_sql.quoteSqlName(name, dialect);
+    };
+
+    const NEW_CLASSES: { [name: string]: eb_lib_compiler.GenerateClassContext } = {};
+    for (const CTX of changes.newFile.classes) {
+        NEW_CLASSES[ CTX.name ] = CTX;
+    }
+
+    const CREATE: string[] = [];
+    const ALTER: string[] = [];
+    const DROP: string[] = [];
+
+    const JOIN_TABLES: string[] = [];
+    // number of variables for the names of MSSQL default constraints,
+    // which have to be unique inside a batch
+    let mssqlDefaultConstraints = 0;
+    for (const E of changes.entities) {
+        if (CHANGE_ADDED === E.kind) {
+            for (const S of eb_lib_sql.toCreateTableSql(E.newContext, dialect, NEW_CLASSES, JOIN_TABLES).split(/;\s*\n/)) {
+                if ('' !== S.trim()) {
+                    CREATE.push(S.trim());
+                }
+            }
+
+            continue;
+        }
+
+        if (CHANGE_REMOVED === E.kind) {
+            DROP.push(`DROP TABLE ${QUOTE(E.oldContext.table)}`);
+
+            continue;
+        }
+
+        const OLD_TABLE = E.oldContext.table;
+        const TABLE = E.newContext.table;
+
+        const ALTER_TABLE = `ALTER TABLE ${QUOTE(TABLE)}`;
+        const TO_KEY = (ctx: eb_lib_compiler.GenerateClassContext) => {
+            return ctx.idColumnNames.map(c => {
+                return QUOTE( eb_lib_compiler.getColumnDbName(c, ctx.columns[c]) );
+            }).join(', ');
+        };
+
+        if (E.primaryKeyChanged && E.oldContext.idColumnNames.length > 0) {
+            switch (dialect) {
+                case eb_lib_compiler.SQL_DIALECT_MYSQL:
+                    ALTER.push(`ALTER TABLE ${QUOTE(OLD_TABLE)} DROP PRIMARY KEY`);
+                    break;
+
+                case eb_lib_compiler.SQL_DIALECT_POSTGRES:
+                    ALTER.push(`ALTER TABLE ${QUOTE(OLD_TABLE)} DROP CONSTRAINT ${QUOTE(OLD_TABLE + '_pkey')}`);
+                    break;
+
+                default:
+                    ALTER.push(`-- The primary key of table '${OLD_TABLE}' has to be dropped manually.`);
+                    break;
+            }
+        }
+
+        if (OLD_TABLE !== TABLE) {
+            switch (dialect) {
+                case eb_lib_compiler.SQL_DIALECT_MSSQL:
+                    ALTER.push(`EXEC sp_rename ${toSqlString(OLD_TABLE)}, ${toSqlString(TABLE)}`);
+                    break;
+
+                case eb_lib_compiler.SQL_DIALECT_MYSQL:
+                    ALTER.push(`RENAME TABLE ${QUOTE(OLD_TABLE)} TO ${QUOTE(TABLE)}`);
+                    break;
+
+                default:
+                    ALTER.push(`ALTER TABLE ${QUOTE(OLD_TABLE)} RENAME TO ${QUOTE(TABLE)}`);
+                    break;
+            }
+        }
+
+        const ADDED_COLUMNS: string[] = [];
+        const REMOVED_COLUMNS: string[] = [];
+        for (const C of E.columns) {
+            if (CHANGE_ADDED === C.kind) {
+                ADDED_COLUMNS.push(`${ALTER_TABLE} ADD ${eb_lib_compiler.SQL_DIALECT_MSSQL === dialect ? '' : 'COLUMN '}${QUOTE(eb_lib_compiler.getColumnDbName(C.name, C.newColumn))} ${eb_lib_sql.toSqlColumnDefinition(E.newContext, C.name, dialect)}`);
+
+                continue;
+            }
+
+            if (CHANGE_REMOVED === C.kind) {
+                REMOVED_COLUMNS.push(`${ALTER_TABLE} DROP COLUMN ${QUOTE(eb_lib_compiler.getColumnDbName(C.name, C.oldColumn))}`);
+
+                continue;
+            }
+
+            const OLD_DB_NAME = eb_lib_compiler.getColumnDbName(C.oldName || C.name, C.oldColumn);
+            const DB_NAME = eb_lib_compiler.getColumnDbName(C.name, C.newColumn);
+
+            if (OLD_DB_NAME !== DB_NAME) {
+                if (eb_lib_compiler.SQL_DIALECT_MSSQL === dialect) {
+                    ALTER.push(`EXEC sp_rename ${toSqlString(TABLE + '.' + OLD_DB_NAME)}, ${toSqlString(DB_NAME)}, 'COLUMN'`);
+                }
+                else {
+                    ALTER.push(`${ALTER_TABLE} RENAME COLUMN ${QUOTE(OLD_DB_NAME)} TO ${QUOTE(DB_NAME)}`);
+                }
+            }
+
+            if (C.changes.length < 1) {
+                continue;
+            }
+
+            const TYPE = eb_lib_sql.toSqlColumnType(E.newContext, C.name, dialect);
+            const CAN_BE_NULL = canBeNull(C.newColumn);
+            const OLD_DEFAULT_VALUE = eb_lib_sql.toSqlColumnDefault(E.oldContext, C.oldName || C.name, dialect);
+            const DEFAULT_VALUE = eb_lib_sql.toSqlColumnDefault(E.newContext, C.name, dialect);
+
+            const HAS_CHANGED = (prop: string) => C.changes.indexOf(prop) > -1;
+            const IS_ALTERED = HAS_CHANGED(COLUMN_CHANGE_TYPE) || HAS_CHANGED(COLUMN_CHANGE_NULL);
+
+            switch (dialect) {
+                case eb_lib_compiler.SQL_DIALECT_MSSQL:
+                    // the default constraint has no fixed name
+                    // and prevents changing the column
+                    if (!eb_lib_helpers.isNullOrUndefined(OLD_DEFAULT_VALUE) && (IS_ALTERED || HAS_CHANGED(COLUMN_CHANGE_DEFAULT))) {
+                        ALTER.push(toDropMssqlDefaultSql(TABLE, DB_NAME, `@df${++mssqlDefaultConstraints}`));
+                    }
+                    if (IS_ALTERED) {
+                        ALTER.push(`${ALTER_TABLE} ALTER COLUMN ${QUOTE(DB_NAME)} ${TYPE} ${CAN_BE_NULL ? 'NULL' : 'NOT NULL'}`);
+                    }
+                    if (!eb_lib_helpers.isNullOrUndefined(DEFAULT_VALUE) && ((IS_ALTERED && !eb_lib_helpers.isNullOrUndefined(OLD_DEFAULT_VALUE)) || HAS_CHANGED(COLUMN_CHANGE_DEFAULT))) {
+                        ALTER.push(`${ALTER_TABLE} ADD DEFAULT ${DEFAULT_VALUE} FOR ${QUOTE(DB_NAME)}`);
+                    }
+                    if (HAS_CHANGED(COLUMN_CHANGE_AUTO)) {
+                        ALTER.push(`-- The auto generation of column '${DB_NAME}' of table '${TABLE}' has to be changed manually.`);
+                    }
+                    break;
+
+                case eb_lib_compiler.SQL_DIALECT_MYSQL:
+                    ALTER.push(`${ALTER_TABLE} MODIFY COLUMN ${QUOTE(DB_NAME)} ${eb_lib_sql.toSqlColumnDefinition(E.newContext, C.name, dialect)}`);
+                    break;
+
+                case eb_lib_compiler.SQL_DIALECT_POSTGRES:
+                    if (HAS_CHANGED(COLUMN_CHANGE_TYPE)) {
+                        ALTER.push(`${ALTER_TABLE} ALTER COLUMN ${QUOTE(DB_NAME)} TYPE ${TYPE}`);
+                    }
+                    if (HAS_CHANGED(COLUMN_CHANGE_NULL)) {
+                        ALTER.push(`${ALTER_TABLE} ALTER COLUMN ${QUOTE(DB_NAME)} ${CAN_BE_NULL ? 'DROP' : 'SET'} NOT NULL`);
+                    }
+                    if (HAS_CHANGED(COLUMN_CHANGE_DEFAULT)) {
+                        if (eb_lib_helpers.isNullOrUndefined(DEFAULT_VALUE)) {
+                            ALTER.push(`${ALTER_TABLE} ALTER COLUMN ${QUOTE(DB_NAME)} DROP DEFAULT`);
+                        }
+                        else {
+                            ALTER.push(`${ALTER_TABLE} ALTER COLUMN ${QUOTE(DB_NAME)} SET DEFAULT ${DEFAULT_VALUE}`);
+                        }
+                    }
+                    if (HAS_CHANGED(COLUMN_CHANGE_AUTO)) {
+                        ALTER.push(`-- The auto generation of column '${DB_NAME}' of table '${TABLE}' has to be changed manually.`);
+                    }
+                    break;
+
+                default:
+                    if (C.changes.some(c => COLUMN_CHANGE_ID !== c)) {
+                        // SQLite cannot alter columns
+                        ALTER.push(`-- The column '${DB_NAME}' of table '${TABLE}' has to be changed manually (${C.changes.join(', ')}).`);
+                    }
+                    break;
+            }
+        }
+
+        eb_lib_helpers.pushMany(ALTER, ADDED_COLUMNS);
+        eb_lib_helpers.pushMany(ALTER, REMOVED_COLUMNS);
+
+        if (E.primaryKeyChanged && E.newContext.idColumnNames.length > 0) {
+            switch (dialect) {
+                case eb_lib_compiler.SQL_DIALECT_MSSQL:
+                    ALTER.push(`${ALTER_TABLE} ADD CONSTRAINT ${QUOTE('PK_' + TABLE)} PRIMARY KEY (${TO_KEY(E.newContext)})`);
+                    break;
+
+                case eb_lib_compiler.SQL_DIALECT_SQLITE:
+                    ALTER.push(`-- The primary key of table '${TABLE}' has to be created manually.`);
+                    break;
+
+                default:
+                    ALTER.push(`${ALTER_TABLE} ADD PRIMARY KEY (${TO_KEY(E.newContext)})`);
+                    break;
+            }
+        }
+    }
+
+    return CREATE.concat(ALTER)
+                 .concat(DROP);
+}
+
+
+function canBeNull(column: eb_lib_compiler.EntityColumn) {
+    return eb_lib_helpers.toBooleanSafe(column['null']) &&
+           !eb_lib_helpers.toBooleanSafe(column.id);
+}
+
+function diffClasses(
+    oldCtx: eb_lib_compiler.GenerateClassContext, newCtx: eb_lib_compiler.GenerateClassContext
+): EntityChange {
+    const COLUMNS: ColumnChange[] = [];
+    const MATCHED_COLUMNS: string[] = [];
+
+    // new column name => old column name
+    const COLUMN_MAPPING: { [name: string]: string } = {};
+
+    for (const C of newCtx.columnNames) {
+        const NEW_COLUMN = newCtx.columns[C];
+
+        let oldName = C;
+        if (!oldCtx.columns[C]) {
+            const RENAMED_FROM = eb_lib_helpers.toStringSafe(NEW_COLUMN.renamedFrom).trim();
+            if ('' !== RENAMED_FROM) {
+                if (!oldCtx.columns[RENAMED_FROM]) {
+                    throw new Error(`The column '${RENAMED_FROM}' of entity '${oldCtx.name}', which has been renamed to '${C}', does not exist!`);
+                }
+
+                oldName = RENAMED_FROM;
+            }
+        }
+
+        const OLD_COLUMN = oldCtx.columns[oldName];
+        if (!OLD_COLUMN) {
+            COLUMNS.push({
+                changes: [],
+                kind: CHANGE_ADDED,
+                name: C,
+                newColumn: NEW_COLUMN,
+            });
+
+            continue;
+        }
+
+        if (MATCHED_COLUMNS.indexOf(oldName) > -1) {
+            throw new Error(`The column '${oldName}' of entity '${oldCtx.name}' has been renamed more than once!`);
+        }
+        MATCHED_COLUMNS.push(oldName);
+        COLUMN_MAPPING[C] = oldName;
+
+        const CHANGES: string[] = [];
+        if (eb_lib_helpers.toBooleanSafe(OLD_COLUMN.auto) !== eb_lib_helpers.toBooleanSafe(NEW_COLUMN.auto)) {
+            CHANGES.push(COLUMN_CHANGE_AUTO);
+        }
+        if (toDefaultSignature(OLD_COLUMN) !== toDefaultSignature(NEW_COLUMN)) {
+            CHANGES.push(COLUMN_CHANGE_DEFAULT);
+        }
+        if (eb_lib_helpers.toBooleanSafe(OLD_COLUMN.id) !== eb_lib_helpers.toBooleanSafe(NEW_COLUMN.id)) {
+            CHANGES.push(COLUMN_CHANGE_ID);
+        }
+        if (canBeNull(OLD_COLUMN) !== canBeNull(NEW_COLUMN)) {
+            CHANGES.push(COLUMN_CHANGE_NULL);
+        }
+        if (toTypeSignature(oldCtx, oldName) !== toTypeSignature(newCtx, C)) {
+            CHANGES.push(COLUMN_CHANGE_TYPE);
+        }
+
+        const IS_RENAMED = oldName !== C ||
+                           eb_lib_compiler.getColumnDbName(oldName, OLD_COLUMN) !== eb_lib_compiler.getColumnDbName(C, NEW_COLUMN);
+
+        if (IS_RENAMED || CHANGES.length > 0) {
+            COLUMNS.push({
+                changes: CHANGES,
+                kind: IS_RENAMED ? CHANGE_RENAMED : CHANGE_CHANGED,
+                name: C,
+                newColumn: NEW_COLUMN,
+                oldColumn: OLD_COLUMN,
+                oldName: IS_RENAMED ? oldName : undefined,
+            });
+        }
+    }
+
+    for (const C of oldCtx.columnNames) {
+        if (MATCHED_COLUMNS.indexOf(C) < 0) {
+            COLUMNS.push({
+                changes: [],
+                kind: CHANGE_REMOVED,
+                name: C,
+                oldColumn: oldCtx.columns[C],
+            });
+        }
+    }
+
+    const PRIMARY_KEY_CHANGED = newCtx.idColumnNames.map(c => COLUMN_MAPPING[c] || '').join('\n') !==
+                                oldCtx.idColumnNames.join('\n');
+
+    const IS_RENAMED = oldCtx.name !== newCtx.name ||
+                       oldCtx.table !== newCtx.table;
+
+    if (!IS_RENAMED && !PRIMARY_KEY_CHANGED && COLUMNS.length < 1) {
+        return null;  // nothing changed
+    }
+
+    return {
+        columns: COLUMNS,
+        kind: IS_RENAMED ? CHANGE_RENAMED : CHANGE_CHANGED,
+        name: newCtx.name,
+        newContext: newCtx,
+        oldContext: oldCtx,
+        oldName: IS_RENAMED ? oldCtx.name : undefined,
+        primaryKeyChanged: PRIMARY_KEY_CHANGED,
+    };
+}
+
+function invertKind(kind: string) {
+    switch (kind) {
+        case CHANGE_ADDED:
+            return CHANGE_REMOVED;
+
+        case CHANGE_REMOVED:
+            return CHANGE_ADDED;
+    }
+
+    return kind;
+}
+
+function toClrColumnType(ctx: eb_lib_compiler.GenerateClassContext, col: string) {
+    const COLUMN = ctx.columns[col];
+
+    const ENUM = ctx.enums[ COLUMN['enum'] ];
+    if (ENUM) {
+        return eb_lib_compiler.TYPE_INT === ENUM.type ? 'int' : 'string';
+    }
+
+    const TYPE = eb_lib_compiler.toClrType(COLUMN.type, () => false, () => {
+        return eb_lib_helpers.toBooleanSafe(COLUMN.id);
+    }, () => {
+        return eb_lib_helpers.toBooleanSafe(COLUMN.unsigned);
+    });
+
+    return 'dynamic' === TYPE ? 'string' : TYPE;
+}
+
+function toCSharpString(val: any) {
+    return JSON.stringify( eb_lib_helpers.toStringSafe(val) );
+}
+
+// compares the default values of columns, which are not generated automatically
+function toDefaultSignature(column: eb_lib_compiler.EntityColumn) {
+    if (eb_lib_helpers.toBooleanSafe(column.auto)) {
+        return '';
+    }
+
+    return JSON.stringify([
+        eb_lib_helpers.isEmptyString(column.dbDefault) ? null : eb_lib_helpers.toStringSafe(column.dbDefault),
+        eb_lib_helpers.isNullOrUndefined(column['default']) ? null : column['default'],
+    ]);
+}
+
+function toDescription(changes: EntityChangeSet) {
+    return changes.entities.map(e => {
+        switch (e.kind) {
+            case CHANGE_ADDED:
+                return `Add ${e.name}`;
+
+            case CHANGE_REMOVED:
+                return `Remove ${e.name}`;
+
+            case CHANGE_RENAMED:
+                if (e.oldName !== e.name) {
+                    return `Rename ${e.oldName} to ${e.name}`;
+                }
+                break;
+        }
+
+        return `Change ${e.name}`;
+    }).join(', ');
+}
+
+// drops the default constraint of a MSSQL column, whose name is generated by the database
+function toDropMssqlDefaultSql(table: string, column: string, variable: string) {
+    const DROP_CONSTRAINT = `ALTER TABLE ${eb_lib_sql.quoteSqlName(table, eb_lib_compiler.SQL_DIALECT_MSSQL)} DROP CONSTRAINT [`;
+
+    return `DECLARE ${variable} NVARCHAR(128); ` +
+           `SELECT ${variable} = [d].[name] FROM [sys].[default_constraints] [d] ` +
+           `INNER JOIN [sys].[columns] [c] ON [d].[parent_object_id] = [c].[object_id] AND [d].[parent_column_id] = [c].[column_id] ` +
+           `WHERE [d].[parent_object_id] = OBJECT_ID(${toSqlString(table)}) AND [c].[name] = ${toSqlString(column)}; ` +
+           `IF ${variable} IS NOT NULL EXEC(N${toSqlString(DROP_CONSTRAINT)} + ${variable} + N']')`;
+}
+
+function toMigrationBuilderCalls(changes: EntityChangeSet, dialect?: string) {
+    dialect = eb_lib_sql.toSqlDialect(dialect);
+
+    const CALLS: string[] = [];
+    const INDENT = '            ';
+
+    // UUIDs get a default value, all other auto columns an identity annotation,
+    // like the column definitions of 'toSqlStatements()'
+    const IS_AUTO_UUID = (ctx: eb_lib_compiler.GenerateClassContext, col: string) => {
+        return eb_lib_helpers.toBooleanSafe(ctx.columns[col].auto) &&
+               UUID_SQL_TYPES.indexOf(eb_lib_sql.toSqlColumnType(ctx, col, dialect)) > -1;
+    };
+
+    const TO_IDENTITY_ANNOTATION = (ctx: eb_lib_compiler.GenerateClassContext, col: string, method = 'Annotation') => {
+        if (!eb_lib_helpers.toBooleanSafe(ctx.columns[col].auto) || IS_AUTO_UUID(ctx, col)) {
+            return '';
+        }
+
+        switch (dialect) {
+            case eb_lib_compiler.SQL_DIALECT_MSSQL:
+                return `.${method}("SqlServer:Identity", "1, 1")`;
+
+            case eb_lib_compiler.SQL_DIALECT_MYSQL:
+                return `.${method}("MySql:ValueGenerationStrategy", global::Microsoft.EntityFrameworkCore.Metadata.MySqlValueGenerationStrategy.IdentityColumn)`;
+
+            case eb_lib_compiler.SQL_DIALECT_SQLITE:
+                return `.${method}("Sqlite:Autoincrement", true)`;
+        }
+
+        return `.${method}("Npgsql:ValueGenerationStrategy", global::Npgsql.EntityFrameworkCore.PostgreSQL.Metadata.NpgsqlValueGenerationStrategy.SerialColumn)`;
+    };
+
+    const TO_COLUMN_ARGS = (ctx: eb_lib_compiler.GenerateClassContext, col: string, prefix = '') => {
+        const COLUMN = ctx.columns[col];
+
+        const ARGS: string[] = [];
+
+        let maxLength = COLUMN.length;
+        if (eb_lib_helpers.isNullOrUndefined(maxLength) && ctx.enums[ COLUMN['enum'] ]) {
+            const ENUM = ctx.enums[ COLUMN['enum'] ];
+            if (eb_lib_compiler.TYPE_INT !== ENUM.type) {
+                maxLength = Math.max.apply(null, Object.keys(ENUM.values).map(c => {
+                    return eb_lib_helpers.toStringSafe(ENUM.values[c]).length;
+                }));
+            }
+        }
+        if (!eb_lib_helpers.isNullOrUndefined(maxLength)) {
+            ARGS.push(`${prefix}${'' === prefix ? 'maxLength' : 'MaxLength'}: ${maxLength}`);
+        }
+
+        ARGS.push(`${prefix}${'' === prefix ? 'nullable' : 'Nullable'}: ${canBeNull(COLUMN) ? 'true' : 'false'}`);
+
+        if (IS_AUTO_UUID(ctx, col)) {
+            if (UUID_DEFAULT_VALUES[dialect]) {
+                ARGS.push(`${prefix}${'' === prefix ? 'defaultValueSql' : 'DefaultValueSql'}: ${toCSharpString(UUID_DEFAULT_VALUES[dialect])}`);
+            }
+        }
+        else if (!eb_lib_helpers.toBooleanSafe(COLUMN.auto)) {
+            if (!eb_lib_helpers.isEmptyString(COLUMN.dbDefault)) {
+                ARGS.push(`${prefix}${'' === prefix ? 'defaultValueSql' : 'DefaultValueSql'}: ${toCSharpString(COLUMN.dbDefault)}`);
+            }
+            else if (!eb_lib_helpers.isNullOrUndefined(COLUMN['default'])) {
+                ARGS.push(`${prefix}${'' === prefix ? 'defaultValue' : 'DefaultValue'}: ${eb_lib_compiler.toClrLiteral(COLUMN['default'], toClrColumnType(ctx, col))}`);
+            }
+        }
+
+        if (!eb_lib_helpers.isNullOrUndefined(COLUMN.precision)) {
+            ARGS.push(`${prefix}${'' === prefix ? 'precision' : 'Precision'}: ${COLUMN.precision}`);
+        }
+        if (!eb_lib_helpers.isNullOrUndefined(COLUMN.scale)) {
+            ARGS.push(`${prefix}${'' === prefix ? 'scale' : 'Scale'}: ${COLUMN.scale}`);
+        }
+
+        return ARGS;
+    };
+
+    const ADDED: string[] = [];
+    const ALTERED: string[] = [];
+    const REMOVED: string[] = [];
+    for (const E of changes.entities) {
+        if (CHANGE_ADDED === E.kind) {
+            const CTX = E.newContext;
+
+            const COLUMNS = CTX.columnNames.map(c => {
+                const ARGS: string[] = [];
+
+                const DB_NAME = eb_lib_compiler.getColumnDbName(c, CTX.columns[c]);
+                if (DB_NAME !== c) {
+                    ARGS.push(`name: ${toCSharpString(DB_NAME)}`);
+                }
+
+                eb_lib_helpers.pushMany(ARGS, TO_COLUMN_ARGS(CTX, c));
+
+                return `${INDENT}        ${c} = table.Column<${toClrColumnType(CTX, c)}>(${ARGS.join(', ')})${TO_IDENTITY_ANNOTATION(CTX, c)},`;
+            });
+
+            let constraints = '';
+            if (CTX.idColumnNames.length > 0) {
+                let key = `x => x.${CTX.idColumnNames[0]}`;
+                if (CTX.idColumnNames.length > 1) {
+                    key = `x => new { ${CTX.idColumnNames.map(c => 'x.' + c).join(', ')} }`;
+                }
+
+                constraints = `,
+${INDENT}    constraints: table =>
+${INDENT}    {
+${INDENT}        table.PrimaryKey(${toCSharpString('PK_' + CTX.table)}, ${key});
+${INDENT}    }`;
+            }
+
+            ADDED.push(`${INDENT}migrationBuilder.CreateTable(
+${INDENT}    name: ${toCSharpString(CTX.table)},
+${INDENT}    columns: table => new
+${INDENT}    {
+${COLUMNS.join('\n')}
+${INDENT}    }${constraints});`);
+
+            for (const I of CTX.indexes) {
+                const INDEX_COLUMNS = eb_lib_helpers.asArray(I.columns).map(c => {
+                    return toCSharpString( eb_lib_compiler.getColumnDbName(c, CTX.columns[c]) );
+                });
+
+                let options = '';
+                if (I.unique) {
+                    options += `,
+${INDENT}    unique: true`;
+                }
+                if (!eb_lib_helpers.isEmptyString(I.where)) {
+                    options += `,
+${INDENT}    filter: ${toCSharpString(I.where)}`;
+                }
+
+                ADDED.push(`${INDENT}migrationBuilder.CreateIndex(
+${INDENT}    name: ${toCSharpString(I.name)},
+${INDENT}    table: ${toCSharpString(CTX.table)},
+${INDENT}    columns: new[] { ${INDEX_COLUMNS.join(', ')} }${options});`);
+            }
+
+            continue;
+        }
+
+        if (CHANGE_REMOVED === E.kind) {
+            REMOVED.push(`${INDENT}migrationBuilder.DropTable(
+${INDENT}    name: ${toCSharpString(E.oldContext.table)});`);
+
+            continue;
+        }
+
+        const OLD_TABLE = E.oldContext.table;
+        const TABLE = E.newContext.table;
+
+        if (E.primaryKeyChanged && E.oldContext.idColumnNames.length > 0) {
+            ALTERED.push(`${INDENT}migrationBuilder.DropPrimaryKey(
+${INDENT}    name: ${toCSharpString('PK_' + OLD_TABLE)},
+${INDENT}    table: ${toCSharpString(OLD_TABLE)});`);
+        }
+
+        if (OLD_TABLE !== TABLE) {
+            ALTERED.push(`${INDENT}migrationBuilder.RenameTable(
+${INDENT}    name: ${toCSharpString(OLD_TABLE)},
+${INDENT}    newName: ${toCSharpString(TABLE)});`);
+        }
+
+        const ADDED_COLUMNS: string[] = [];
+        const REMOVED_COLUMNS: string[] = [];
+        for (const C of E.columns) {
+            if (CHANGE_ADDED === C.kind) {
+                ADDED_COLUMNS.push(`${INDENT}migrationBuilder.AddColumn<${toClrColumnType(E.newContext, C.name)}>(
+${INDENT}    name: ${toCSharpString( eb_lib_compiler.getColumnDbName(C.name, C.newColumn) )},
+${INDENT}    table: ${toCSharpString(TABLE)},
+${TO_COLUMN_ARGS(E.newContext, C.name).map(a => INDENT + '    ' + a).join(',\n')})${TO_IDENTITY_ANNOTATION(E.newContext, C.name)};`);
+
+                continue;
+            }
+
+            if (CHANGE_REMOVED === C.kind) {
+                REMOVED_COLUMNS.push(`${INDENT}migrationBuilder.DropColumn(
+${INDENT}    name: ${toCSharpString( eb_lib_compiler.getColumnDbName(C.name, C.oldColumn) )},
+${INDENT}    table: ${toCSharpString(TABLE)});`);
+
+                continue;
+            }
+
+            const OLD_NAME = C.oldName || C.name;
+            const OLD_DB_NAME = eb_lib_compiler.getColumnDbName(OLD_NAME, C.oldColumn);
+            const DB_NAME = eb_lib_compiler.getColumnDbName(C.name, C.newColumn);
+
+            if (OLD_DB_NAME !== DB_NAME) {
+                ALTERED.push(`${INDENT}migrationBuilder.RenameColumn(
+${INDENT}    name: ${toCSharpString(OLD_DB_NAME)},
+${INDENT}    table: ${toCSharpString(TABLE)},
+${INDENT}    newName: ${toCSharpString(DB_NAME)});`);
+            }
+
+            if (C.changes.some(c => COLUMN_CHANGE_ID !== c)) {
+                const ARGS = TO_COLUMN_ARGS(E.newContext, C.name)
+                    .concat([ `oldClrType: typeof(${toClrColumnType(E.oldContext, OLD_NAME)})` ])
+                    .concat(TO_COLUMN_ARGS(E.oldContext, OLD_NAME, 'old'));
+
+                ALTERED.push(`${INDENT}migrationBuilder.AlterColumn<${toClrColumnType(E.newContext, C.name)}>(
+${INDENT}    name: ${toCSharpString(DB_NAME)},
+${INDENT}    table: ${toCSharpString(TABLE)},
+${ARGS.map(a => INDENT + '    ' + a).join(',\n')})${TO_IDENTITY_ANNOTATION(E.newContext, C.name)}${TO_IDENTITY_ANNOTATION(E.oldContext, OLD_NAME, 'OldAnnotation')};`);
+            }
+        }
+
+        eb_lib_helpers.pushMany(ALTERED, ADDED_COLUMNS);
+        eb_lib_helpers.pushMany(ALTERED, REMOVED_COLUMNS);
+
+        if (E.primaryKeyChanged && E.newContext.idColumnNames.length > 0) {
+            ALTERED.push(`${INDENT}migrationBuilder.AddPrimaryKey(
+${INDENT}    name: ${toCSharpString('PK_' + TABLE)},
+${INDENT}    table: ${toCSharpString(TABLE)},
+${INDENT}    columns: new[] { ${E.newContext.idColumnNames.map(c => {
+    return toCSharpString( eb_lib_compiler.getColumnDbName(c, E.newContext.columns[c]) );
+}).join(', ')} });`);
+        }
+    }
+
+    eb_lib_helpers.pushMany(CALLS, ADDED);
+    eb_lib_helpers.pushMany(CALLS, ALTERED);
+    eb_lib_helpers.pushMany(CALLS, REMOVED);
+
+    return CALLS;
+}
+
+function toSqlString(val: string) {
+    return `'${val.replace(/'/g, "''")}'`;
+}
+
+// compares the SQL types of all dialects and the values of an enum
+function toTypeSignature(ctx: eb_lib_compiler.GenerateClassContext, col: string) {
+    const ENUM = ctx.enums[ ctx.columns[col]['enum'] ];
+
+    return JSON.stringify([
+        Object.keys(eb_lib_compiler.SQL_TYPES).sort().map(d => {
+            return eb_lib_sql.toSqlColumnType(ctx, col, d);
+        }),
+        ENUM ? ENUM.values : null,
+    ]);
+}
+
+function toVersion(time?: Date) {
+    if (!time) {
+        time = new Date();
+    }
+
+    const PAD = (n: number) => {
+        return (n < 10 ? '0' : '') + n;
+    };
+
+    return [
+        time.getUTCFullYear(),
+        PAD(time.getUTCMonth() + 1),
+        PAD(time.getUTCDate()),
+        PAD(time.getUTCHours()),
+        PAD(time.getUTCMinutes()),
+        PAD(time.getUTCSeconds()),
+    ].join('');
+}
@@ -17,9 +17,11 @@
 
 import * as eb_lib_compiler from './compiler';
 import * as eb_lib_helpers from './helpers';
+import * as eb_lib_import from './import';
 import * as Enumerable from 'node-enumerable';
-import * as FSExtra from 'fs-extra';
+import * as FS from 'fs';
 import * as Path from 'path';
+import * as XML from 'xml2js';
 
 
 /**
@@ -53,6 +55,56 @@ export async function generateClassForDoctrine(context: eb_lib_compiler.Generate
         );
     };
 
+    const IS_COLLECTION = (rel: string) => {
+        return eb_lib_compiler.RELATION_ONE_TO_MANY === context.relations[rel].type ||
+               eb_lib_compiler.RELATION_MANY_TO_MANY === context.relations[rel].type;
+    };
+
+    const HAS_JOIN_COLUMN = (rel: string) => {
+        return eb_lib_compiler.RELATION_MANY_TO_MANY !== context.relations[rel].type &&
+               !eb_lib_helpers.isEmptyString(context.relations[rel].column);
+    };
+
+    const HAS_JOIN_TABLE = (rel: string) => {
+        return eb_lib_compiler.RELATION_MANY_TO_MANY === context.relations[rel].type &&
+               eb_lib_helpers.isEmptyString(context.relations[rel].mappedBy);
+    };
+
+    let phpVersion: string;
+    if (context.options.doctrine) {
+        phpVersion = context.options.doctrine.phpVersion;
+    }
+    const USE_NATIVE_ENUMS = supportsNativeEnums(phpVersion);
+
+    const TO_ENUM = (col: string) => {
+        return context.enums[ context.columns[col]['enum'] ];
+    };
+
+    const TO_ENUM_TYPE = (col: string) => {
+        if (USE_NATIVE_ENUMS && TO_ENUM(col)) {
+            return context['namespace'].concat([ context.columns[col]['enum'] ])
+                                       .join("\\");
+        }
+    };
+
+    const TO_PHP_TYPE = (col: string) => {
+        const ENUM = TO_ENUM(col);
+        if (ENUM) {
+            if (USE_NATIVE_ENUMS) {
+                return "\\" + TO_ENUM_TYPE(col);
+            }
+
+            return getPHPDataType(ENUM.type);
+        }
+
+        return getPHPDataType(context.columns[col].type);
+    };
+
+    const TO_TARGET_ENTITY = (rel: string) => {
+        return context['namespace'].concat([ context.relations[rel].target ])
+                                   .join("\\");
+    };
+
     const TO_DOCTRINE_TYPE = (col: string): string => {
         let type = eb_lib_helpers.normalizeString( context.columns[col].type );
 
@@ -93,6 +145,10 @@ export async function generateClassForDoctrine(context: eb_lib_compiler.Generate
                 type = 'decimal';
                 break;
 
+            case eb_lib_compiler.TYPE_ENUM:
+                type = eb_lib_compiler.TYPE_INT === TO_ENUM(col).type ? 'integer' : 'string';
+                break;
+
             case eb_lib_compiler.TYPE_FLOAT:
                 type = 'float';
                 break;
@@ -145,9 +201,106 @@ export async function generateClassForDoctrine(context: eb_lib_compiler.Generate
         return type;
     };
 
-    let dbTable = eb_lib_helpers.toStringSafe(context.entity.table).trim();
-    if ('' === dbTable) {
-        dbTable = CLASS_NAME;
+    const TO_DB_NAME = (col: string) => {
+        return eb_lib_compiler.getColumnDbName(col, context.columns[col]);
+    };
+
+    const TO_COLUMN_ATTRIBUTES = (col: string) => {
+        const COLUMN = context.columns[col];
+
+        const ATTRIBUTES: { name: string, value: any }[] = [{
+            name: 'type',
+            value: TO_DOCTRINE_TYPE(col),
+        }];
+
+        for (const A of [ 'length', 'precision', 'scale' ]) {
+            if (!eb_lib_helpers.isNullOrUndefined(COLUMN[A])) {
+                ATTRIBUTES.push({
+                    name: A,
+                    value: COLUMN[A],
+                });
+            }
+        }
+
+        if (eb_lib_helpers.toBooleanSafe(COLUMN['null']) && !IS_ID(col)) {
+            ATTRIBUTES.push({
+                name: 'nullable',
+                value: true,
+            });
+        }
+
+        return ATTRIBUTES;
+    };
+
+    const TO_COLUMN_OPTIONS = (col: string) => {
+        const COLUMN = context.columns[col];
+
+        const OPTIONS: { name: string, value: any }[] = [];
+
+        if (!eb_lib_helpers.isEmptyString(COLUMN.dbDefault)) {
+            OPTIONS.push({
+                name: 'default',
+                value: COLUMN.dbDefault,
+            });
+        }
+
+        if (eb_lib_helpers.toBooleanSafe(COLUMN.unsigned)) {
+            OPTIONS.push({
+                name: 'unsigned',
+                value: true,
+            });
+        }
+
+        return OPTIONS;
+    };
+
+    const TO_COLUMN_ANNOTATION_ATTRIBUTES = (col: string) => {
+        const ATTRIBUTES = TO_COLUMN_ATTRIBUTES(col).map(a => {
+            return `${a.name}=${JSON.stringify(a.value)}`;
+        });
+
+        if (!eb_lib_helpers.isEmptyString(context.columns[col].dbName)) {
+            ATTRIBUTES.unshift(`name="${TO_DB_NAME(col)}"`);
+        }
+
+        const ENUM_TYPE = TO_ENUM_TYPE(col);
+        if (ENUM_TYPE) {
+            ATTRIBUTES.push(`enumType="${ENUM_TYPE}"`);
+        }
+
+        const OPTIONS = TO_COLUMN_OPTIONS(col);
+        if (OPTIONS.length > 0) {
+            ATTRIBUTES.push(`options={${OPTIONS.map(o => {
+                return `${JSON.stringify(o.name)}:${JSON.stringify(o.value)}`;
+            }).join(', ')}}`);
+        }
+
+        return ATTRIBUTES.join(', ');
+    };
+
+    const dbTable = context.table;
+
+    const INDEXES = context.indexes.filter(i => !i.unique);
+    const UNIQUE_CONSTRAINTS = context.indexes.filter(i => i.unique);
+
+    const TO_INDEX_ANNOTATIONS = (indexes: eb_lib_compiler.EntityIndex[], annotation: string) => {
+        return indexes.map(i => {
+            let indexAnnotation = `@${annotation}(name="${i.name}", columns={${eb_lib_helpers.asArray(i.columns).map(c => `"${TO_DB_NAME(c)}"`).join(', ')}}`;
+            if (!eb_lib_helpers.isEmptyString(i.where)) {
+                indexAnnotation += `, options={"where":${JSON.stringify(i.where)}}`;
+            }
+            indexAnnotation += ')';
+
+            return indexAnnotation;
+        }).join(', ');
+    };
+
+    let tableAnnotationAttributes = `name="${dbTable}"`;
+    if (INDEXES.length > 0) {
+        tableAnnotationAttributes += `, indexes={${TO_INDEX_ANNOTATIONS(INDEXES, 'Index')}}`;
+    }
+    if (UNIQUE_CONSTRAINTS.length > 0) {
+        tableAnnotationAttributes += `, uniqueConstraints={${TO_INDEX_ANNOTATIONS(UNIQUE_CONSTRAINTS, 'UniqueConstraint')}}`;
     }
 
     let classFile = '';
@@ -176,9 +329,7 @@ export async function generateClassForDoctrine(context: eb_lib_compiler.Generate
 
     outDir = Path.resolve(outDir);
 
-    if (!(await eb_lib_helpers.exists(outDir))) {
-        await FSExtra.mkdirs(outDir);
-    }
+    await context.output.mkdirs(outDir);
 
     const CLASS_FILENAME = `${CLASS_NAME}.php`;
     const CLASS_FILE_PATH = Path.resolve(
@@ -190,9 +341,7 @@ export async function generateClassForDoctrine(context: eb_lib_compiler.Generate
         Path.join(outDir,
                   'Extensions')
     );
-    if (!(await eb_lib_helpers.exists(EXTENSIONS_DIR))) {
-        await FSExtra.mkdirs(EXTENSIONS_DIR);
-    }
+    await context.output.mkdirs(EXTENSIONS_DIR);
 
     const TRAIT_FILENAME = `${TRAIT_NAME}.php`;
     const TRAIT_FILE_PATH = Path.resolve(
@@ -213,6 +362,8 @@ export async function generateClassForDoctrine(context: eb_lib_compiler.Generate
         if (!Path.isAbsolute(xmlOutDir)) {
             xmlOutDir = Path.join(context.outDir, xmlOutDir);
         }
+
+        await context.output.mkdirs(xmlOutDir);
     }
 
     const XML_FILE_PATH = Path.resolve(
@@ -221,7 +372,7 @@ export async function generateClassForDoctrine(context: eb_lib_compiler.Generate
     );
 
     classFile += `/**
- * @Entity @Table(name="${dbTable}")
+ * @Entity @Table(${tableAnnotationAttributes})
  **/
 class ${CLASS_NAME} implements \\ArrayAccess {
     /**
@@ -236,7 +387,19 @@ class ${CLASS_NAME} implements \\ArrayAccess {
      * 
      * @param mixed $arg,... One or more arguments for the object.
      **/
-    public function __construct() {
+    public function __construct() {`;
+
+    const COLLECTIONS = context.relationNames.filter(r => IS_COLLECTION(r));
+    for (const R of COLLECTIONS) {
+        classFile += `
+        $this->${R} = new \\Doctrine\\Common\\Collections\\ArrayCollection();`;
+    }
+    if (COLLECTIONS.length > 0) {
+        classFile += `
+`;
+    }
+
+    classFile += `
         // check if we have a
         // 'onConstructor()'
         // method in './Extensions/${TRAIT_FILENAME}'
@@ -251,16 +414,64 @@ class ${CLASS_NAME} implements \\ArrayAccess {
 
     for (const C of context.columnNames) {
         const COLUMN = context.columns[C];
+        const ENUM = TO_ENUM(C);
+
+        let defaultValue = '';
+        if (!eb_lib_helpers.isNullOrUndefined(COLUMN['default'])) {
+            if (ENUM) {
+                defaultValue = ` = ${COLUMN['enum']}::${eb_lib_compiler.getEnumCase(ENUM, COLUMN['default'])}`;
+            }
+            else {
+                defaultValue = ` = ${toPHPLiteral(COLUMN['default'], getPHPDataType(COLUMN.type))}`;
+            }
+        }
 
         classFile += `
-    /**${IS_ID(C) ? ' @Id' : ''} @Column(type="${TO_DOCTRINE_TYPE(C)}")${IS_AUTO(C) ? ' @GeneratedValue' : ''} **/
-    protected $` + C+ `;`;
+    /**${IS_ID(C) ? ' @Id' : ''} @Column(${TO_COLUMN_ANNOTATION_ATTRIBUTES(C)})${IS_AUTO(C) ? ' @GeneratedValue' : ''} **/
+    protected $` + C + defaultValue + `;`;
+    }
+
+    for (const R of context.relationNames) {
+        const RELATION = context.relations[R];
+
+        let annotations = '';
+        switch (RELATION.type) {
+            case eb_lib_compiler.RELATION_MANY_TO_MANY:
+                annotations += '@ManyToMany';
+                break;
+
+            case eb_lib_compiler.RELATION_MANY_TO_ONE:
+                annotations += '@ManyToOne';
+                break;
+
+            case eb_lib_compiler.RELATION_ONE_TO_MANY:
+                annotations += '@OneToMany';
+                break;
+
+            case eb_lib_compiler.RELATION_ONE_TO_ONE:
+                annotations += '@OneToOne';
+                break;
+        }
+
+        annotations += `(${getDoctrineRelationAttributes(RELATION, TO_TARGET_ENTITY(R)).map(a => {
+            return `${a.name}=${a.value}`;
+        }).join(', ')})`;
+
+        if (HAS_JOIN_COLUMN(R)) {
+            annotations += ` @JoinColumn(name="${RELATION.column}", referencedColumnName="${RELATION.referencedColumn}")`;
+        }
+        if (HAS_JOIN_TABLE(R)) {
+            annotations += ` @JoinTable(name="${RELATION.joinTable}", joinColumns={@JoinColumn(name="${RELATION.column}", referencedColumnName="${RELATION.referencedColumn}")}, inverseJoinColumns={@JoinColumn(name="${RELATION.inverseColumn}", referencedColumnName="${RELATION.inverseReferencedColumn}")})`;
+        }
+
+        classFile += `
+    /** ${annotations} **/
+    protected $` + R + `;`;
     }
 
     const GETTERS: { [columnName: string]: string } = {};
     const SETTERS: { [columnName: string]: string } = {};
     for (const C of context.columnNames) {
-        const COLUMN = context.columns[C];
         const METHOD_SUFFIX = context.methods[C];
 
         let hasGetter = true;
@@ -279,7 +490,7 @@ class ${CLASS_NAME} implements \\ArrayAccess {
     /**
      * Gets the value of '${C}' column.
      * 
-     * @return ${getPHPDataType(COLUMN.type)} The value of '${C}'.
+     * @return ${TO_PHP_TYPE(C)} The value of '${C}'.
      **/
     public function ${GETTER_NAME}() {
         $valueToReturn = $this->${C};
@@ -302,7 +513,7 @@ class ${CLASS_NAME} implements \\ArrayAccess {
     /**
      * Sets the value for '${C}' column.
      * 
-     * @param ${getPHPDataType(COLUMN.type)} $newValue The new value.
+     * @param ${TO_PHP_TYPE(C)} $newValue The new value.
      * 
      * @return ${PHP_FULL_CLASS_NAME} That instance.
      * 
@@ -340,6 +551,42 @@ class ${CLASS_NAME} implements \\ArrayAccess {
         }
     }
 
+    for (const R of context.relationNames) {
+        const METHOD_SUFFIX = context.methods[R];
+        const TARGET_ENTITY = "\\" + TO_TARGET_ENTITY(R);
+
+        classFile += `
+`;
+
+        classFile += `
+    /**
+     * Gets the value of '${R}' relation.
+     * 
+     * @return ${IS_COLLECTION(R) ? `\\Doctrine\\Common\\Collections\\Collection|${TARGET_ENTITY}[]` : TARGET_ENTITY} The value of '${R}'.
+     **/
+    public function get${METHOD_SUFFIX}() {
+        return $this->${R};
+    }`;
+
+        if (!IS_COLLECTION(R)) {
+            classFile += `
+    /**
+     * Sets the value for '${R}' relation.
+     * 
+     * @param ${TARGET_ENTITY} $newValue The new value.
+     * 
+     * @return ${PHP_FULL_CLASS_NAME} That instance.
+     * 
+     * @chainable
+     **/
+    public function set${METHOD_SUFFIX}($newValue) {
+        $this->${R} = $newValue;
+
+        return $this;
+    }`;
+        }
+    }
+
     classFile += `
 `;
 
@@ -525,9 +772,9 @@ class ${CLASS_NAME} implements \\ArrayAccess {
 }
 `;
 
-    await eb_lib_helpers.writeFile(CLASS_FILE_PATH, classFile, 'utf8');
+    await context.writeFile(CLASS_FILE_PATH, classFile);
 
-    if (!(await eb_lib_helpers.exists(TRAIT_FILE_PATH))) {
+    if (!(await context.output.exists(TRAIT_FILE_PATH))) {
         let traitFile = '';
 
         traitFile += `<?php
@@ -607,11 +854,81 @@ trait ${TRAIT_NAME} {
         traitFile += `}
 `;
 
-        await eb_lib_helpers.writeFile(TRAIT_FILE_PATH, traitFile, 'utf8');
+        await context.writeFile(TRAIT_FILE_PATH, traitFile, true);
+    }
+    else {
+        context.skipFile(TRAIT_FILE_PATH, true);
+    }
+
+    for (const E in context.enums) {
+        const ENUM = context.enums[E];
+        const CASES = Object.keys(ENUM.values);
+        const PHP_TYPE = getPHPDataType(ENUM.type);
+
+        let enumFile = `<?php
+
+/**
+ * AUTO GENERATED FILE
+ * 
+ * Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+ **/
+
+`;
+
+        if (context['namespace'].length > 0) {
+            enumFile += `namespace ${PHP_NAMESPACE};
+
+`;
+        }
+
+        enumFile += `/**
+ * The '${E}' enum.
+ **/
+`;
+
+        if (USE_NATIVE_ENUMS) {
+            enumFile += `enum ${E}: ${'integer' === PHP_TYPE ? 'int' : 'string'} {`;
+            for (const C of CASES) {
+                enumFile += `
+    case ${C} = ${toPHPLiteral(ENUM.values[C], PHP_TYPE)};`;
+            }
+            enumFile += `
+}
+`;
+        }
+        else {
+            enumFile += `final class ${E} {`;
+            for (const C of CASES) {
+                enumFile += `
+    const ${C} = ${toPHPLiteral(ENUM.values[C], PHP_TYPE)};`;
+            }
+            enumFile += `
+
+    /**
+     * Returns all values.
+     * 
+     * @return ${PHP_TYPE}[] The values.
+     **/
+    public static function values() {
+        return array(${CASES.map(c => `self::${c}`).join(', ')});
+    }
+}
+`;
+        }
+
+        await context.writeFile(
+            Path.resolve(
+                Path.join(outDir,
+                          `${E}.php`)
+            ),
+            enumFile
+        );
     }
 
     const COLUMNS_FOR_XML = Enumerable.from( context.columnNames ).orderBy(cn => {
         return IS_ID(cn) ? 0 : 1;
+    }).thenBy(cn => {
+        return context.idColumnNames.indexOf(cn);
     }).thenBy(cn => {
         return eb_lib_helpers.normalizeString(cn);
     }).toArray();
@@ -624,28 +941,127 @@ trait ${TRAIT_NAME} {
     <entity name="${context.namespace.join('\\')}\\${CLASS_NAME}" table="${dbTable}">
 `;
 
-    for (const C of COLUMNS_FOR_XML) {
-        const COLUMN = context.columns[C];
-        const TYPE = TO_DOCTRINE_TYPE(C);
+    for (const IL of [ { element: 'index', indexes: INDEXES, list: 'indexes' },
+                       { element: 'unique-constraint', indexes: UNIQUE_CONSTRAINTS, list: 'unique-constraints' } ]) {
+        if (IL.indexes.length < 1) {
+            continue;
+        }
+
+        xmlFile += `
+        <${IL.list}>`;
 
-        if (IS_ID(C)) {
+        for (const I of IL.indexes) {
             xmlFile += `
-        <id name="${C}" type="${TYPE}"`;
+            <${IL.element} name="${I.name}" columns="${eb_lib_helpers.asArray(I.columns).map(c => TO_DB_NAME(c)).join(',')}"`;
 
-            if (IS_AUTO(C)) {
+            if (eb_lib_helpers.isEmptyString(I.where)) {
+                xmlFile += ` />`;
+            }
+            else {
                 xmlFile += `>
-            <generator strategy="AUTO" />
-        `;
+                <options>
+                    <option name="where">${eb_lib_helpers.escapeXml(I.where)}</option>
+                </options>
+            </${IL.element}>`;
+            }
+        }
+
+        xmlFile += `
+        </${IL.list}>`;
+    }
+
+    for (const C of COLUMNS_FOR_XML) {
+        const ELEMENT = IS_ID(C) ? 'id' : 'field';
+        const HAS_GENERATOR = IS_ID(C) && IS_AUTO(C);
+        const OPTIONS = TO_COLUMN_OPTIONS(C);
+
+        xmlFile += `
+        <${ELEMENT} name="${C}"${eb_lib_helpers.isEmptyString(context.columns[C].dbName) ? '' : ` column="${eb_lib_helpers.escapeXml(TO_DB_NAME(C))}"`}${TO_COLUMN_ATTRIBUTES(C).map(a => ` ${a.name}="${a.value}"`).join('')}`;
+
+        const ENUM_TYPE = TO_ENUM_TYPE(C);
+        if (ENUM_TYPE) {
+            xmlFile += ` enum-type="${ENUM_TYPE}"`;
+        }
+
+        if (HAS_GENERATOR || OPTIONS.length > 0) {
+            xmlFile += `>`;
 
-                xmlFile += `</id>`;
+            if (HAS_GENERATOR) {
+                xmlFile += `
+            <generator strategy="AUTO" />`;
             }
-            else {
-                xmlFile += ` />`;
+
+            if (OPTIONS.length > 0) {
+                xmlFile += `
+            <options>`;
+                for (const O of OPTIONS) {
+                    xmlFile += `
+                <option name="${O.name}">${eb_lib_helpers.escapeXml(O.value)}</option>`;
+                }
+                xmlFile += `
+            </options>`;
             }
+
+            xmlFile += `
+        </${ELEMENT}>`;
         }
         else {
+            xmlFile += ` />`;
+        }
+    }
+
+    for (const RELATION_TYPE of [ eb_lib_compiler.RELATION_ONE_TO_ONE,
+                                  eb_lib_compiler.RELATION_ONE_TO_MANY,
+                                  eb_lib_compiler.RELATION_MANY_TO_ONE,
+                                  eb_lib_compiler.RELATION_MANY_TO_MANY ]) {
+        for (const R of context.relationNames) {
+            const RELATION = context.relations[R];
+            if (RELATION_TYPE !== RELATION.type) {
+                continue;
+            }
+
+            const ATTRIBUTES = getDoctrineRelationAttributes(RELATION, TO_TARGET_ENTITY(R), true);
+            const CASCADE = eb_lib_helpers.asArray(RELATION.cascade);
+
             xmlFile += `
-        <field name="${C}" type="${TYPE}" />`;
+        <${RELATION.type} field="${R}"${ATTRIBUTES.map(a => ` ${a.name}=${a.value}`).join('')}`;
+
+            if (CASCADE.length > 0 || HAS_JOIN_COLUMN(R) || HAS_JOIN_TABLE(R)) {
+                xmlFile += `>`;
+
+                if (CASCADE.length > 0) {
+                    xmlFile += `
+            <cascade>`;
+                    for (const C of CASCADE) {
+                        xmlFile += `
+                <cascade-${C} />`;
+                    }
+                    xmlFile += `
+            </cascade>`;
+                }
+
+                if (HAS_JOIN_COLUMN(R)) {
+                    xmlFile += `
+            <join-column name="${RELATION.column}" referenced-column-name="${RELATION.referencedColumn}" />`;
+                }
+                if (HAS_JOIN_TABLE(R)) {
+                    xmlFile += `
+            <join-table name="${RELATION.joinTable}">
+                <join-columns>
+                    <join-column name="${RELATION.column}" referenced-column-name="${RELATION.referencedColumn}" />
+                </join-columns>
+                <inverse-join-columns>
+                    <join-column name="${RELATION.inverseColumn}" referenced-column-name="${RELATION.inverseReferencedColumn}" />
+                </inverse-join-columns>
+            </join-table>`;
+                }
+
+                xmlFile += `
+        </${RELATION.type}>`;
+            }
+            else {
+                xmlFile += ` />`;
+            }
         }
     }
 
@@ -654,10 +1070,307 @@ trait ${TRAIT_NAME} {
     </entity>
 </doctrine-mapping>`;
 
-    await eb_lib_helpers.writeFile(XML_FILE_PATH, xmlFile, 'utf8');
+    await context.writeFile(XML_FILE_PATH, xmlFile);
 }
 
 
+/**
+ * Reads Doctrine XML mapping files, like the ones of 'generateClassForDoctrine()'.
+ * 
+ * @param {ImportContext} context The context with a directory or a glob pattern as source.
+ * 
+ * @return {Promise<ImportedTable[]>} The promise with the tables.
+ */
+export async function importFromDoctrineXml(context: eb_lib_import.ImportContext): Promise<eb_lib_import.ImportedTable[]> {
+    let pattern = eb_lib_helpers.toStringSafe(context.source).trim();
+    if ('' === pattern) {
+        throw new Error(`No Doctrine XML mapping files defined!`);
+    }
+
+    let cwd = process.cwd();
+
+    const DIR = Path.resolve(cwd, pattern);
+    if (FS.existsSync(DIR) && FS.statSync(DIR).isDirectory()) {
+        cwd = DIR;
+        pattern = '**/*.dcm.xml';
+    }
+
+    const FILES = eb_lib_helpers.globSync(pattern, {
+        cwd: cwd,
+        nodir: true,
+        root: cwd,
+    }).sort((x, y) => {
+        return eb_lib_helpers.compareValuesBy(x, y, f => {
+            return eb_lib_helpers.normalizeString(f);
+        });
+    });
+    if (FILES.length < 1) {
+        throw new Error(`No Doctrine XML mapping files found in '${context.source}'!`);
+    }
+
+    // values of attributes
+    const ATTR = (element: any, name: string): string => {
+        if (element && element['$']) {
+            return element['$'][name];
+        }
+    };
+
+    // child elements
+    const CHILDREN = (element: any, name: string): any[] => {
+        if (element && Array.isArray(element[name])) {
+            return element[name];
+        }
+
+        return [];
+    };
+
+    const TO_NUMBER = (val: string) => {
+        return eb_lib_helpers.isEmptyString(val) ? undefined : parseInt(val.trim());
+    };
+
+    const TO_CLASS_NAME = (fullName: string) => {
+        return eb_lib_helpers.toStringSafe(fullName).split('\\').filter(x => {
+            return '' !== x.trim();
+        });
+    };
+
+    const TABLES: eb_lib_import.ImportedTable[] = [];
+    for (const F of FILES) {
+        const XML_DOCUMENT = await new Promise<any>((resolve, reject) => {
+            XML.parseString(FS.readFileSync(F, 'utf8'), (err, xml) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve(xml);
+                }
+            });
+        });
+
+        for (const E of CHILDREN(XML_DOCUMENT ? XML_DOCUMENT['doctrine-mapping'] : null, 'entity')) {
+            const CLASS_NAME = TO_CLASS_NAME(ATTR(E, 'name'));
+            if (CLASS_NAME.length < 1) {
+                throw new Error(`An entity of '${F}' has no name!`);
+            }
+
+            const ID_ELEMENTS = CHILDREN(E, 'id');
+
+            const COLUMNS: eb_lib_import.ImportedColumn[] = [];
+            const ENUMS: eb_lib_compiler.EntityEnumStorage = {};
+            for (const C of ID_ELEMENTS.concat( CHILDREN(E, 'field') )) {
+                const PROPERTY = ATTR(C, 'name');
+                const IS_ID = ID_ELEMENTS.indexOf(C) > -1;
+
+                let dbName = ATTR(C, 'column');
+                if (eb_lib_helpers.isEmptyString(dbName)) {
+                    dbName = PROPERTY;
+                }
+
+                let auto = false;
+                for (const G of CHILDREN(C, 'generator')) {
+                    auto = 'NONE' !== eb_lib_helpers.toStringSafe(ATTR(G, 'strategy')).trim().toUpperCase();
+                }
+
+                // the values of a backed enum are read from
+                // its PHP file, like the ones of 'generateClassForDoctrine()'
+                let enumName: string;
+                const ENUM_TYPE = TO_CLASS_NAME(ATTR(C, 'enum-type'));
+                if (ENUM_TYPE.length > 0) {
+                    const ENUM = readPHPEnum(ENUM_TYPE, [ Path.dirname(F), cwd ]);
+                    if (ENUM) {
+                        enumName = ENUM_TYPE[ENUM_TYPE.length - 1];
+                        ENUMS[ enumName ] = ENUM;
+                    }
+                }
+
+                let dbDefault: string;
+                let unsigned = false;
+                for (const OPTIONS of CHILDREN(C, 'options')) {
+                    for (const O of CHILDREN(OPTIONS, 'option')) {
+                        const VALUE = eb_lib_helpers.isObj(O) ? O['_'] : O;
+
+                        switch (ATTR(O, 'name')) {
+                            case 'default':
+                                dbDefault = eb_lib_helpers.toStringSafe(VALUE);
+                                break;
+
+                            case 'unsigned':
+                                unsigned = eb_lib_helpers.toBooleanSafe(VALUE);
+                                break;
+                        }
+                    }
+                }
+
+                COLUMNS.push({
+                    auto: auto,
+                    dbDefault: dbDefault,
+                    'enum': enumName,
+                    id: IS_ID,
+                    length: TO_NUMBER(ATTR(C, 'length')),
+                    name: dbName,
+                    'null': eb_lib_helpers.toBooleanSafe(ATTR(C, 'nullable')),
+                    order: IS_ID ? ID_ELEMENTS.indexOf(C) : undefined,
+                    precision: TO_NUMBER(ATTR(C, 'precision')),
+                    property: PROPERTY,
+                    scale: TO_NUMBER(ATTR(C, 'scale')),
+                    type: toEntityType(ATTR(C, 'type'), F),
+                    unsigned: unsigned,
+                });
+            }
+
+            const INDEXES: eb_lib_import.ImportedIndex[] = [];
+            for (const IL of [ { element: 'index', list: 'indexes' },
+                               { element: 'unique-constraint', list: 'unique-constraints' } ]) {
+                for (const LIST of CHILDREN(E, IL.list)) {
+                    for (const I of CHILDREN(LIST, IL.element)) {
+                        let where: string;
+                        for (const OPTIONS of CHILDREN(I, 'options')) {
+                            for (const O of CHILDREN(OPTIONS, 'option')) {
+                                if ('where' === ATTR(O, 'name')) {
+                                    where = eb_lib_helpers.toStringSafe(O['_']);
+                                }
+                            }
+                        }
+
+                        INDEXES.push({
+                            columns: eb_lib_helpers.toStringSafe(ATTR(I, 'columns')).split(',').map(c => {
+                                return c.trim();
+                            }).filter(c => '' !== c),
+                            name: ATTR(I, 'name'),
+                            unique: 'unique-constraint' === IL.element,
+                            where: where,
+                        });
+                    }
+                }
+            }
+
+            const RELATIONS: eb_lib_compiler.EntityRelationStorage = {};
+            for (const RELATION_TYPE of [ eb_lib_compiler.RELATION_ONE_TO_ONE,
+                                          eb_lib_compiler.RELATION_ONE_TO_MANY,
+                                          eb_lib_compiler.RELATION_MANY_TO_ONE,
+                                          eb_lib_compiler.RELATION_MANY_TO_MANY ]) {
+                for (const R of CHILDREN(E, RELATION_TYPE)) {
+                    const CASCADE: string[] = [];
+                    for (const C of CHILDREN(R, 'cascade')) {
+                        for (const CC of Object.keys(C || {})) {
+                            if (CC.startsWith('cascade-')) {
+                                CASCADE.push(CC.substr(8));
+                            }
+                        }
+                    }
+
+                    let column: string;
+                    let referencedColumn: string;
+                    for (const JC of CHILDREN(R, 'join-column').concat(
+                        Enumerable.from( CHILDREN(R, 'join-columns') ).selectMany(jcs => CHILDREN(jcs, 'join-column'))
+                                                                      .toArray()
+                    )) {
+                        column = ATTR(JC, 'name');
+                        referencedColumn = ATTR(JC, 'referenced-column-name');
+                    }
+
+                    let joinTable: string;
+                    let inverseColumn: string;
+                    let inverseReferencedColumn: string;
+                    for (const JT of CHILDREN(R, 'join-table')) {
+                        joinTable = ATTR(JT, 'name');
+
+                        for (const JCS of CHILDREN(JT, 'join-columns')) {
+                            for (const JC of CHILDREN(JCS, 'join-column')) {
+                                column = ATTR(JC, 'name');
+                                referencedColumn = ATTR(JC, 'referenced-column-name');
+                            }
+                        }
+                        for (const JCS of CHILDREN(JT, 'inverse-join-columns')) {
+                            for (const JC of CHILDREN(JCS, 'join-column')) {
+                                inverseColumn = ATTR(JC, 'name');
+                                inverseReferencedColumn = ATTR(JC, 'referenced-column-name');
+                            }
+                        }
+                    }
+
+                    const FETCH = eb_lib_helpers.normalizeString(ATTR(R, 'fetch'));
+                    const TARGET = TO_CLASS_NAME(ATTR(R, 'target-entity'));
+
+                    RELATIONS[ ATTR(R, 'field') ] = {
+                        type: RELATION_TYPE,
+                        target: TARGET[TARGET.length - 1],
+                        mappedBy: ATTR(R, 'mapped-by'),
+                        inversedBy: ATTR(R, 'inversed-by'),
+                        cascade: CASCADE.length > 0 ? CASCADE : undefined,
+                        fetch: '' === FETCH ? undefined : FETCH,
+                        column: column,
+                        referencedColumn: referencedColumn,
+                        joinTable: joinTable,
+                        inverseColumn: inverseColumn,
+                        inverseReferencedColumn: inverseReferencedColumn,
+                    };
+                }
+            }
+
+            const CLASS = CLASS_NAME[CLASS_NAME.length - 1];
+
+            let table = ATTR(E, 'table');
+            if (eb_lib_helpers.isEmptyString(table)) {
+                table = CLASS;
+            }
+
+            TABLES.push({
+                className: CLASS,
+                columns: COLUMNS,
+                enums: ENUMS,
+                indexes: INDEXES,
+                name: table,
+                'namespace': CLASS_NAME.slice(0, CLASS_NAME.length - 1).join('.'),
+                relations: RELATIONS,
+            });
+        }
+    }
+
+    return TABLES;
+}
+
+
+function getDoctrineRelationAttributes(relation: eb_lib_compiler.EntityRelation, targetEntity: string, forXml = false) {
+    const ATTRIBUTES: { name: string, value: string }[] = [];
+
+    ATTRIBUTES.push({
+        name: forXml ? 'target-entity' : 'targetEntity',
+        value: `"${targetEntity}"`,
+    });
+
+    if (!eb_lib_helpers.isEmptyString(relation.mappedBy)) {
+        ATTRIBUTES.push({
+            name: forXml ? 'mapped-by' : 'mappedBy',
+            value: `"${relation.mappedBy}"`,
+        });
+    }
+
+    if (!eb_lib_helpers.isEmptyString(relation.inversedBy)) {
+        ATTRIBUTES.push({
+            name: forXml ? 'inversed-by' : 'inversedBy',
+            value: `"${relation.inversedBy}"`,
+        });
+    }
+
+    const CASCADE = eb_lib_helpers.asArray(relation.cascade);
+    if (!forXml && CASCADE.length > 0) {
+        ATTRIBUTES.push({
+            name: 'cascade',
+            value: `{${CASCADE.map(c => `"${c}"`).join(', ')}}`,
+        });
+    }
+
+    if (!eb_lib_helpers.isEmptyString(relation.fetch)) {
+        ATTRIBUTES.push({
+            name: 'fetch',
+            value: `"${eb_lib_helpers.toStringSafe(relation.fetch).toUpperCase()}"`,
+        });
+    }
+
+    return ATTRIBUTES;
+}
+
 function getPHPDataType(entityType: string) {
     switch (eb_lib_helpers.normalizeString(entityType)) {
         case eb_lib_compiler.TYPE__DEFAULT:
@@ -701,3 +1414,133 @@ function getPHPDataType(entityType: string) {
 
     return 'mixed';
 }
+
+// reads a backed enum from its PHP file, which is searched
+// in the namespace directories inside one of the root directories
+function readPHPEnum(enumType: string[], rootDirs: string[]): eb_lib_compiler.EntityEnum {
+    for (const DIR of rootDirs) {
+        // also try without the leading namespaces,
+        // like 'App\Enum\Status' in 'src/Enum/Status.php'
+        for (let i = 0; i < enumType.length; i++) {
+            const ENUM_FILE = Path.resolve(
+                DIR, ...enumType.slice(i, enumType.length - 1), `${enumType[enumType.length - 1]}.php`
+            );
+            if (!FS.existsSync(ENUM_FILE) || !FS.statSync(ENUM_FILE).isFile()) {
+                continue;
+            }
+
+            const PHP = FS.readFileSync(ENUM_FILE, 'utf8');
+
+            const DECLARATION = /\benum\s+\w+\s*:\s*(int|string)\s*\{/.exec(PHP);
+            if (!DECLARATION) {
+                continue;
+            }
+
+            const VALUES: { [caseName: string]: string | number } = {};
+
+            const CASE = /\bcase\s+(\w+)\s*=\s*('((?:[^'\\]|\\.)*)'|-?\d+)\s*;/g;
+            let match: RegExpExecArray;
+            while (match = CASE.exec(PHP)) {
+                VALUES[ match[1] ] = eb_lib_helpers.isNullOrUndefined(match[3]) ? parseInt(match[2])
+                                                                               : match[3].replace(/\\(['\\])/g, '$1');
+            }
+
+            return {
+                type: 'int' === DECLARATION[1] ? eb_lib_compiler.TYPE_INT : eb_lib_compiler.TYPE_STRING,
+                values: VALUES,
+            };
+        }
+    }
+}
+
+function supportsNativeEnums(phpVersion: string) {
+    if (eb_lib_helpers.isEmptyString(phpVersion)) {
+        return true;
+    }
+
+    const PARTS = eb_lib_helpers.toStringSafe(phpVersion).trim().split('.').map(p => {
+        return parseInt(p.trim());
+    });
+
+    const MAJOR = isNaN(PARTS[0]) ? 0 : PARTS[0];
+    const MINOR = isNaN(PARTS[1]) ? 0 : PARTS[1];
+
+    return MAJOR > 8 ||
+           (8 === MAJOR && MINOR >= 1);
+}
+
+// maps a Doctrine type to a data type of an entity file
+function toEntityType(doctrineType: string, file: string) {
+    switch (eb_lib_helpers.normalizeString(doctrineType)) {
+        case 'bigint':
+            return eb_lib_compiler.TYPE_BIGINT;
+
+        case 'binary':
+            return eb_lib_compiler.TYPE_BINARY;
+
+        case 'blob':
+            return eb_lib_compiler.TYPE_BLOB;
+
+        case 'boolean':
+            return eb_lib_compiler.TYPE_BOOL;
+
+        case 'date':
+        case 'date_immutable':
+            return eb_lib_compiler.TYPE_DATE;
+
+        case 'datetime':
+        case 'datetime_immutable':
+            return eb_lib_compiler.TYPE_DATETIME;
+
+        case 'datetimetz':
+        case 'datetimetz_immutable':
+            return eb_lib_compiler.TYPE_DATETIME_TZ;
+
+        case 'decimal':
+            return eb_lib_compiler.TYPE_DECIMAL;
+
+        case 'float':
+            return eb_lib_compiler.TYPE_FLOAT;
+
+        case 'guid':
+            return eb_lib_compiler.TYPE_GUID;
+
+        case 'integer':
+            return eb_lib_compiler.TYPE_INT;
+
+        case 'json':
+        case 'json_array':
+            return eb_lib_compiler.TYPE_JSON;
+
+        case 'smallint':
+            return eb_lib_compiler.TYPE_SMALLINT;
+
+        case '':
+        case 'ascii_string':
+        case 'string':
+            return eb_lib_compiler.TYPE_STRING;
+
+        case 'text':
+            return eb_lib_compiler.TYPE_TEXT;
+
+        case 'time':
+        case 'time_immutable':
+            return eb_lib_compiler.TYPE_TIME;
+    }
+
+    throw new Error(`The Doctrine type '${doctrineType}' of '${file}' is not supported!`);
+}
+
+function toPHPLiteral(val: any, phpType: string): string {
+    switch (phpType) {
+        case 'boolean':
+            return eb_lib_helpers.toBooleanSafe(val) ? 'true' : 'false';
+
+        case 'float':
+        case 'integer':
+            return eb_lib_helpers.toStringSafe(val);
+    }
+
+    return "'" + eb_lib_helpers.toStringSafe(val).replace(/\\/g, '\\\\')
+                                                 .replace(/'/g, "\\'") + "'";
+}
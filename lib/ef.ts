@@ -17,7 +17,6 @@
 
 import * as eb_lib_compiler from './compiler';
 import * as eb_lib_helpers from './helpers';
-import * as FSExtra from 'fs-extra';
 import * as Path from 'path';
 
 
@@ -29,10 +28,7 @@ import * as Path from 'path';
 export async function generateClassForEntityFramework(context: eb_lib_compiler.GenerateClassContext) {
     const CLASS_NAME = context.name;
 
-    let dbTable = eb_lib_helpers.toStringSafe(context.entity.table).trim();
-    if ('' === dbTable) {
-        dbTable = CLASS_NAME;
-    }
+    const dbTable = context.table;
 
     let outDir = context.outDir;
 
@@ -44,9 +40,7 @@ export async function generateClassForEntityFramework(context: eb_lib_compiler.G
 
     outDir = Path.resolve(outDir);
 
-    if (!(await eb_lib_helpers.exists(outDir))) {
-        await FSExtra.mkdirs(outDir);
-    }
+    await context.output.mkdirs(outDir);
 
     const CLASS_FILENAME = `${CLASS_NAME}.cs`;
     const CLASS_FILE_PATH = Path.resolve(
@@ -79,13 +73,93 @@ export async function generateClassForEntityFramework(context: eb_lib_compiler.G
     };
 
     const TO_EF_TYPE = (col: string): string => {
+        const ENUM_NAME = context.columns[col]['enum'];
+        if (context.enums[ ENUM_NAME ]) {
+            return ENUM_NAME + (CAN_BE_NULL(col) ? '?' : '');
+        }
+
         return eb_lib_compiler.toClrType(
             context.columns[col].type,
             () => CAN_BE_NULL(col),
             () => IS_ID(col),
+            () => eb_lib_helpers.toBooleanSafe(context.columns[col].unsigned),
         );
     };
 
+    // EF stores enums as integers, so string enums
+    // are mapped by an additional string property
+    const IS_STRING_ENUM = (col: string) => {
+        const ENUM = context.enums[ context.columns[col]['enum'] ];
+
+        return ENUM && eb_lib_compiler.TYPE_STRING === ENUM.type;
+    };
+
+    const TO_EF_LITERAL = (col: string): string => {
+        const COLUMN = context.columns[col];
+
+        const ENUM = context.enums[ COLUMN['enum'] ];
+        if (ENUM) {
+            return `${COLUMN['enum']}.${eb_lib_compiler.getEnumCase(ENUM, COLUMN['default'])}`;
+        }
+
+        return eb_lib_compiler.toClrLiteral(COLUMN['default'], TO_EF_TYPE(col));
+    };
+
+    const PROPERTY_ATTRIBUTES = (col: string, propertyName = context.methods[col]) => {
+        const COLUMN = context.columns[col];
+
+        const ATTRIBUTES: string[] = [];
+
+        if (IS_ID(col)) {
+            ATTRIBUTES.push(`global::System.ComponentModel.DataAnnotations.Key`);
+        }
+
+        const COLUMN_ARGS: string[] = [];
+
+        // EF uses the property name by default
+        const DB_NAME = eb_lib_compiler.getColumnDbName(col, COLUMN);
+        if (DB_NAME !== propertyName) {
+            COLUMN_ARGS.push(JSON.stringify(DB_NAME));
+        }
+        if (IS_ID(col) && context.idColumnNames.length > 1) {
+            COLUMN_ARGS.push(`Order = ${context.idColumnNames.indexOf(col)}`);
+        }
+        if (COLUMN_ARGS.length > 0) {
+            ATTRIBUTES.push(`global::System.ComponentModel.DataAnnotations.Schema.Column(${COLUMN_ARGS.join(', ')})`);
+        }
+
+        if (!eb_lib_helpers.isNullOrUndefined(COLUMN.length)) {
+            ATTRIBUTES.push(`global::System.ComponentModel.DataAnnotations.MaxLength(${COLUMN.length})`);
+        }
+
+        for (const I of context.indexes) {
+            const INDEX_COLUMNS = eb_lib_helpers.asArray(I.columns);
+
+            const POSITION = INDEX_COLUMNS.indexOf(col);
+            if (POSITION < 0) {
+                continue;
+            }
+
+            if (0 === POSITION && !eb_lib_helpers.isEmptyString(I.where)) {
+                context.warn(`The filter of index '${I.name}' is ignored, because partial indexes are not supported by Entity Framework!`);
+            }
+
+            ATTRIBUTES.push(`global::System.ComponentModel.DataAnnotations.Schema.Index("${I.name}"${INDEX_COLUMNS.length > 1 ? `, ${POSITION + 1}` : ''}${I.unique ? ', IsUnique = true' : ''})`);
+        }
+
+        if (!eb_lib_helpers.isEmptyString(COLUMN.dbDefault)) {
+            // EF does not support default values, so
+            // handle them as values, which are generated by the database
+            ATTRIBUTES.push(`global::System.ComponentModel.DataAnnotations.Schema.DatabaseGenerated(global::System.ComponentModel.DataAnnotations.Schema.DatabaseGeneratedOption.Computed)`);
+        }
+
+        return ATTRIBUTES;
+    };
+
+    const MODEL_CONFIG: string[] = [
+        `entity.ToTable("${dbTable}");`,
+    ];
+
     let classFile = `using System.Linq;
 
 `;
@@ -113,6 +187,17 @@ export async function generateClassForEntityFramework(context: eb_lib_compiler.G
             {
                 if (null != obj)
                 {
+                    var type = global::System.Nullable.GetUnderlyingType(typeof(T)) ?? typeof(T);
+                    if (type.IsEnum && !(obj is T))
+                    {
+                        if (obj is string)
+                        {
+                            return (T)global::System.Enum.Parse(type, (string)obj, true);
+                        }
+
+                        return (T)global::System.Enum.ToObject(type, obj);
+                    }
+
                     if (!(obj is T))
                     {
                         return (T)global::System.Convert.ChangeType(obj, typeof(T));
@@ -147,6 +232,7 @@ export async function generateClassForEntityFramework(context: eb_lib_compiler.G
         #region Columns`;
     for (const C of context.columnNames) {
         const CLR_TYPE = TO_EF_TYPE(C);
+        const COLUMN = context.columns[C];
         const FIELD_NAME = `_${C}`;
 
         classFile += `
@@ -154,7 +240,7 @@ export async function generateClassForEntityFramework(context: eb_lib_compiler.G
         /// <summary>
         /// Stores value of '${C}' column.
         /// </summary>
-        protected ${CLR_TYPE} ${FIELD_NAME};`;
+        protected ${CLR_TYPE} ${FIELD_NAME}${eb_lib_helpers.isNullOrUndefined(COLUMN['default']) ? '' : ` = ${TO_EF_LITERAL(C)}`};`;
     }
     classFile += `
 
@@ -191,8 +277,17 @@ export async function generateClassForEntityFramework(context: eb_lib_compiler.G
             continue;
         }
         
+        if (!eb_lib_helpers.isNullOrUndefined(COLUMN.precision)) {
+            MODEL_CONFIG.push(`entity.Property(x => x.${PROPERTY_NAME}).HasPrecision(${COLUMN.precision}${eb_lib_compiler.TYPE_DECIMAL === eb_lib_helpers.normalizeString(COLUMN.type) ? `, ${eb_lib_helpers.isNullOrUndefined(COLUMN.scale) ? 0 : COLUMN.scale}` : ''});`);
+        }
+
         classFile += `
-        [global::System.Runtime.Serialization.DataMember(EmitDefaultValue = true, Name = "${C}")]
+`;
+        for (const A of IS_STRING_ENUM(C) ? [ `global::System.ComponentModel.DataAnnotations.Schema.NotMapped` ] : PROPERTY_ATTRIBUTES(C)) {
+            classFile += `        [${A}]
+`;
+        }
+        classFile += `        [global::System.Runtime.Serialization.DataMember(EmitDefaultValue = true, Name = "${C}")]
         public ${CLR_TYPE} ${PROPERTY_NAME}
         {`;
 
@@ -298,11 +393,160 @@ export async function generateClassForEntityFramework(context: eb_lib_compiler.G
         classFile += `
         }
 `;
+
+        if (IS_STRING_ENUM(C)) {
+            const ENUM_NAME = COLUMN['enum'];
+            const VALUE_PROPERTY_NAME = `${PROPERTY_NAME}Value`;
+            if (Object.keys(context.methods).some(m => VALUE_PROPERTY_NAME === context.methods[m])) {
+                throw new Error(`The property '${VALUE_PROPERTY_NAME}' for the value of column '${C}' is already used!`);
+            }
+
+            classFile += `
+        /// <summary>
+        /// The database value of <see cref="${PROPERTY_NAME}" />, which is converted by <see cref="${ENUM_NAME}Converter" />.
+        /// </summary>
+`;
+            for (const A of PROPERTY_ATTRIBUTES(C, VALUE_PROPERTY_NAME)) {
+                classFile += `        [${A}]
+`;
+            }
+            classFile += `        [global::System.ComponentModel.EditorBrowsable(global::System.ComponentModel.EditorBrowsableState.Never)]
+        public string ${VALUE_PROPERTY_NAME}
+        {`;
+
+            if (CAN_BE_NULL(C)) {
+                classFile += `
+            get
+            {
+                return this.${FIELD_NAME}.HasValue ? ${ENUM_NAME}Converter.ToValue(this.${FIELD_NAME}.Value) : null;
+            }
+            set
+            {
+                this.${FIELD_NAME} = null == value ? (${ENUM_NAME}?)null : ${ENUM_NAME}Converter.FromValue(value);
+            }`;
+            }
+            else {
+                classFile += `
+            get
+            {
+                return ${ENUM_NAME}Converter.ToValue(this.${FIELD_NAME});
+            }
+            set
+            {
+                this.${FIELD_NAME} = ${ENUM_NAME}Converter.FromValue(value);
+            }`;
+            }
+
+            classFile += `
+        }
+`;
+        }
     }
     classFile += `
         #endregion
 `;
+    if (context.relationNames.length > 0) {
+        classFile += `
+        #region Relations
+`;
+
+        for (const R of context.relationNames) {
+            const RELATION = context.relations[R];
+            const PROPERTY_NAME = context.methods[R];
+            const IS_VIRTUAL = eb_lib_compiler.FETCH_EAGER !== RELATION.fetch;
+
+            classFile += `
+        /// <summary>
+        /// Gets or sets the value of '${R}' relation.
+        /// </summary>`;
+
+            if (eb_lib_compiler.RELATION_MANY_TO_MANY !== RELATION.type) {
+                const FOREIGN_KEY = context.columnNames.filter(c => {
+                    return eb_lib_compiler.getColumnDbName(c, context.columns[c]) === RELATION.column;
+                })[0];
+
+                if (!eb_lib_helpers.isEmptyString(FOREIGN_KEY)) {
+                    classFile += `
+        [global::System.ComponentModel.DataAnnotations.Schema.ForeignKey("${context.methods[ FOREIGN_KEY ]}")]`;
+                }
+
+                // the owning side holds the join column
+                // and configures the relation for both sides
+                if (!eb_lib_helpers.isEmptyString(RELATION.column)) {
+                    const INVERSE_METHOD = context.inverseMethods[R];
+                    const INVERSE_LAMBDA = eb_lib_helpers.isEmptyString(INVERSE_METHOD) ? '' : `x => x.${INVERSE_METHOD}`;
+
+                    if (eb_lib_helpers.isEmptyString(FOREIGN_KEY)) {
+                        // independent association
+                        MODEL_CONFIG.push(`entity.HasOptional(x => x.${PROPERTY_NAME})
+                  .${eb_lib_compiler.RELATION_ONE_TO_ONE === RELATION.type ? 'WithOptionalDependent' : 'WithMany'}(${INVERSE_LAMBDA})
+                  .Map(m => m.MapKey("${RELATION.column}"));`);
+                    }
+                    else if (eb_lib_compiler.RELATION_ONE_TO_ONE !== RELATION.type) {
+                        // EF6 supports foreign key properties
+                        // only for one-to-many associations, so
+                        // one-to-one relations keep the 'ForeignKey' attribute
+                        MODEL_CONFIG.push(`entity.${CAN_BE_NULL(FOREIGN_KEY) ? 'HasOptional' : 'HasRequired'}(x => x.${PROPERTY_NAME})
+                  .WithMany(${INVERSE_LAMBDA})
+                  .HasForeignKey(x => x.${context.methods[ FOREIGN_KEY ]});`);
+                    }
+                }
+            }
+
+            if (eb_lib_compiler.RELATION_MANY_TO_MANY === RELATION.type &&
+                eb_lib_helpers.isEmptyString(RELATION.mappedBy)) {
+                const INVERSE_METHOD = context.inverseMethods[R];
+                const INVERSE_LAMBDA = eb_lib_helpers.isEmptyString(INVERSE_METHOD) ? '' : `x => x.${INVERSE_METHOD}`;
+
+                MODEL_CONFIG.push(`entity.HasMany(x => x.${PROPERTY_NAME})
+                  .WithMany(${INVERSE_LAMBDA})
+                  .Map(m =>
+                  {
+                      m.ToTable("${RELATION.joinTable}");
+                      m.MapLeftKey("${RELATION.column}");
+                      m.MapRightKey("${RELATION.inverseColumn}");
+                  });`);
+            }
+
+            if (eb_lib_compiler.RELATION_ONE_TO_MANY === RELATION.type ||
+                eb_lib_compiler.RELATION_MANY_TO_MANY === RELATION.type) {
+                classFile += `
+        public ${IS_VIRTUAL ? 'virtual ' : ''}global::System.Collections.Generic.ICollection<${RELATION.target}> ${PROPERTY_NAME} { get; set; } = new global::System.Collections.Generic.HashSet<${RELATION.target}>();
+`;
+            }
+            else {
+                classFile += `
+        public ${IS_VIRTUAL ? 'virtual ' : ''}${RELATION.target} ${PROPERTY_NAME} { get; set; }
+`;
+            }
+        }
+
+        classFile += `
+        #endregion
+`;
+    }
     
+    classFile += `
+        #region Model
+
+        /// <summary>
+        /// Configures the mapping of that entity.
+        /// </summary>
+        /// <param name="modelBuilder">The model builder.</param>
+        public static void Configure_Entity(global::System.Data.Entity.DbModelBuilder modelBuilder)
+        {
+            var entity = modelBuilder.Entity<${CLASS_NAME}>();
+`;
+    for (const MC of MODEL_CONFIG) {
+        classFile += `
+            ${MC}
+`;
+    }
+    classFile += `        }
+
+        #endregion
+`;
+
     classFile += `
         #region Methods
 `;
@@ -518,9 +762,106 @@ export async function generateClassForEntityFramework(context: eb_lib_compiler.G
 }`;
     }
 
-    await eb_lib_helpers.writeFile(CLASS_FILE_PATH, classFile, 'utf8');
+    await context.writeFile(CLASS_FILE_PATH, classFile);
+
+    for (const E in context.enums) {
+        const ENUM = context.enums[E];
+        const CASES = Object.keys(ENUM.values);
+        const IS_STRING_ENUM = eb_lib_compiler.TYPE_STRING === ENUM.type;
+
+        let enumFile = '';
+
+        if (context['namespace'].length > 0) {
+            enumFile += `namespace ${context['namespace'].join('.')}
+{
+`;
+        }
 
-    if (!(await eb_lib_helpers.exists(EXTENSIONS_FILE_PATH))) {
+        enumFile += `    /// <summary>
+    /// The '${E}' enum.
+    /// </summary>
+    [global::System.Runtime.Serialization.DataContract]
+    public enum ${E}
+    {`;
+        for (const C of CASES) {
+            const VALUE = ENUM.values[C];
+
+            enumFile += `
+        /// <summary>
+        /// ${IS_STRING_ENUM ? `'${eb_lib_helpers.escapeXml(VALUE)}'` : VALUE}
+        /// </summary>
+        [global::System.Runtime.Serialization.EnumMember${IS_STRING_ENUM ? `(Value = ${JSON.stringify(VALUE)})` : ''}]
+        ${C}${IS_STRING_ENUM ? '' : ` = ${VALUE}`},
+`;
+        }
+        enumFile += `    }
+`;
+
+        if (IS_STRING_ENUM) {
+            enumFile += `
+    /// <summary>
+    /// Converts <see cref="${E}" /> values from and to the values, which are stored in the database.
+    /// </summary>
+    public static class ${E}Converter
+    {
+        /// <summary>
+        /// Converts a database value to a <see cref="${E}" /> value.
+        /// </summary>
+        /// <param name="value">The database value.</param>
+        /// <returns>The enum value.</returns>
+        public static ${E} FromValue(string value)
+        {
+            switch (value)
+            {`;
+            for (const C of CASES) {
+                enumFile += `
+                case ${JSON.stringify(ENUM.values[C])}:
+                    return ${E}.${C};
+`;
+            }
+            enumFile += `            }
+
+            throw new global::System.ArgumentOutOfRangeException("value", value, null);
+        }
+
+        /// <summary>
+        /// Converts a <see cref="${E}" /> value to a database value.
+        /// </summary>
+        /// <param name="value">The enum value.</param>
+        /// <returns>The database value.</returns>
+        public static string ToValue(${E} value)
+        {
+            switch (value)
+            {`;
+            for (const C of CASES) {
+                enumFile += `
+                case ${E}.${C}:
+                    return ${JSON.stringify(ENUM.values[C])};
+`;
+            }
+            enumFile += `            }
+
+            throw new global::System.ArgumentOutOfRangeException("value", value, null);
+        }
+    }
+`;
+        }
+
+        if (context['namespace'].length > 0) {
+            enumFile += `}
+`;
+        }
+
+        await context.writeFile(
+            Path.resolve(
+                Path.join(outDir,
+                          `${E}.cs`)
+            ),
+            enumFile
+        );
+    }
+
+    if (!(await context.output.exists(EXTENSIONS_FILE_PATH))) {
         let extensionsFile = '';
 
         if (context['namespace'].length > 0) {
@@ -602,6 +943,9 @@ export async function generateClassForEntityFramework(context: eb_lib_compiler.G
 }`;
         }
 
-        await eb_lib_helpers.writeFile(EXTENSIONS_FILE_PATH, extensionsFile, 'utf8');
+        await context.writeFile(EXTENSIONS_FILE_PATH, extensionsFile, true);
+    }
+    else {
+        context.skipFile(EXTENSIONS_FILE_PATH, true);
     }
 }
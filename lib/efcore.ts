@@ -17,7 +17,6 @@
 
 import * as eb_lib_compiler from './compiler';
 import * as eb_lib_helpers from './helpers';
-import * as FSExtra from 'fs-extra';
 import * as Path from 'path';
 
 
@@ -29,10 +28,7 @@ import * as Path from 'path';
 export async function generateClassForEntityFrameworkCore(context: eb_lib_compiler.GenerateClassContext) {
     const CLASS_NAME = context.name;
 
-    let dbTable = eb_lib_helpers.toStringSafe(context.entity.table).trim();
-    if ('' === dbTable) {
-        dbTable = CLASS_NAME;
-    }
+    const dbTable = context.table;
 
     let outDir = context.outDir;
 
@@ -44,9 +40,7 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
 
     outDir = Path.resolve(outDir);
 
-    if (!(await eb_lib_helpers.exists(outDir))) {
-        await FSExtra.mkdirs(outDir);
-    }
+    await context.output.mkdirs(outDir);
 
     const CLASS_FILENAME = `${CLASS_NAME}.cs`;
     const CLASS_FILE_PATH = Path.resolve(
@@ -79,13 +73,72 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
     };
 
     const TO_EF_TYPE = (col: string): string => {
+        const ENUM_NAME = context.columns[col]['enum'];
+        if (context.enums[ ENUM_NAME ]) {
+            return ENUM_NAME + (CAN_BE_NULL(col) ? '?' : '');
+        }
+
         return eb_lib_compiler.toClrType(
             context.columns[col].type,
             () => CAN_BE_NULL(col),
             () => IS_ID(col),
+            () => eb_lib_helpers.toBooleanSafe(context.columns[col].unsigned),
         );
     };
 
+    const TO_EF_LITERAL = (col: string): string => {
+        const COLUMN = context.columns[col];
+
+        const ENUM = context.enums[ COLUMN['enum'] ];
+        if (ENUM) {
+            return `${COLUMN['enum']}.${eb_lib_compiler.getEnumCase(ENUM, COLUMN['default'])}`;
+        }
+
+        return eb_lib_compiler.toClrLiteral(COLUMN['default'], TO_EF_TYPE(col));
+    };
+
+    const PROPERTY_ATTRIBUTES = (col: string) => {
+        const COLUMN = context.columns[col];
+
+        const ATTRIBUTES: string[] = [];
+
+        if (IS_ID(col) && 1 === context.idColumnNames.length) {
+            // composite keys are defined in 'Configure_Entity()'
+            ATTRIBUTES.push(`global::System.ComponentModel.DataAnnotations.Key`);
+        }
+
+        // EF uses the property name by default
+        const DB_NAME = eb_lib_compiler.getColumnDbName(col, COLUMN);
+        if (DB_NAME !== context.methods[col]) {
+            ATTRIBUTES.push(`global::System.ComponentModel.DataAnnotations.Schema.Column(${JSON.stringify(DB_NAME)})`);
+        }
+
+        if (!eb_lib_helpers.isNullOrUndefined(COLUMN.length)) {
+            ATTRIBUTES.push(`global::System.ComponentModel.DataAnnotations.MaxLength(${COLUMN.length})`);
+        }
+
+        return ATTRIBUTES;
+    };
+
+    const MODEL_CONFIG: string[] = [
+        `entity.ToTable("${dbTable}");`,
+    ];
+    if (context.idColumnNames.length > 1) {
+        MODEL_CONFIG.push(`entity.HasKey(x => new { ${context.idColumnNames.map(c => `x.${context.methods[c]}`).join(', ')} });`);
+    }
+
+    let classAttributes = '';
+    for (const I of context.indexes) {
+        const PROPERTIES = eb_lib_helpers.asArray(I.columns).map(c => context.methods[c]);
+
+        classAttributes += `
+    [global::Microsoft.EntityFrameworkCore.Index(${PROPERTIES.map(p => `nameof(${p})`).join(', ')}, Name = "${I.name}"${I.unique ? ', IsUnique = true' : ''})]`;
+
+        if (!eb_lib_helpers.isEmptyString(I.where)) {
+            MODEL_CONFIG.push(`entity.HasIndex(new string[] { ${PROPERTIES.map(p => `"${p}"`).join(', ')} }, "${I.name}").HasFilter(${JSON.stringify(I.where)});`);
+        }
+    }
+
     let classFile = `using System.Linq;
 
 `;
@@ -100,7 +153,7 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
     /// An enity for '${dbTable}' table.
     /// </summary>
     [global::System.Runtime.Serialization.DataContract]
-    [global::System.Serializable]
+    [global::System.Serializable]${classAttributes}
     public partial class ${CLASS_NAME} : global::System.MarshalByRefObject, global::System.ComponentModel.INotifyPropertyChanged, global::System.ComponentModel.INotifyPropertyChanging
     {
 
@@ -112,6 +165,17 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
             {
                 if (null != obj)
                 {
+                    var type = global::System.Nullable.GetUnderlyingType(typeof(T)) ?? typeof(T);
+                    if (type.IsEnum && !(obj is T))
+                    {
+                        if (obj is string)
+                        {
+                            return (T)global::System.Enum.Parse(type, (string)obj, true);
+                        }
+
+                        return (T)global::System.Enum.ToObject(type, obj);
+                    }
+
                     if (!(obj is T))
                     {
                         return (T)global::System.Convert.ChangeType(obj, typeof(T));
@@ -146,6 +210,7 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
         #region Columns`;
     for (const C of context.columnNames) {
         const CLR_TYPE = TO_EF_TYPE(C);
+        const COLUMN = context.columns[C];
         const FIELD_NAME = `_${C}`;
 
         classFile += `
@@ -153,7 +218,7 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
         /// <summary>
         /// Stores value of '${C}' column.
         /// </summary>
-        protected ${CLR_TYPE} ${FIELD_NAME};`;
+        protected ${CLR_TYPE} ${FIELD_NAME}${eb_lib_helpers.isNullOrUndefined(COLUMN['default']) ? '' : ` = ${TO_EF_LITERAL(C)}`};`;
     }
     classFile += `
 
@@ -190,8 +255,25 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
             continue;
         }
         
+        const ENUM = context.enums[ COLUMN['enum'] ];
+        if (ENUM && eb_lib_compiler.TYPE_STRING === ENUM.type) {
+            MODEL_CONFIG.push(`entity.Property(x => x.${PROPERTY_NAME}).HasConversion(v => ${COLUMN['enum']}Converter.ToValue(v${CAN_BE_NULL(C) ? '.Value' : ''}), v => ${COLUMN['enum']}Converter.FromValue(v));`);
+        }
+
+        if (!eb_lib_helpers.isEmptyString(COLUMN.dbDefault)) {
+            MODEL_CONFIG.push(`entity.Property(x => x.${PROPERTY_NAME}).HasDefaultValueSql(${JSON.stringify(COLUMN.dbDefault)});`);
+        }
+        if (!eb_lib_helpers.isNullOrUndefined(COLUMN.precision)) {
+            MODEL_CONFIG.push(`entity.Property(x => x.${PROPERTY_NAME}).HasPrecision(${COLUMN.precision}${eb_lib_helpers.isNullOrUndefined(COLUMN.scale) ? '' : `, ${COLUMN.scale}`});`);
+        }
+
         classFile += `
-        [global::System.Runtime.Serialization.DataMember(EmitDefaultValue = true, Name = "${C}")]
+`;
+        for (const A of PROPERTY_ATTRIBUTES(C)) {
+            classFile += `        [${A}]
+`;
+        }
+        classFile += `        [global::System.Runtime.Serialization.DataMember(EmitDefaultValue = true, Name = "${C}")]
         public ${CLR_TYPE} ${PROPERTY_NAME}
         {`;
 
@@ -301,7 +383,107 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
     classFile += `
         #endregion
 `;
+    if (context.relationNames.length > 0) {
+        classFile += `
+        #region Relations
+`;
+
+        for (const R of context.relationNames) {
+            const RELATION = context.relations[R];
+            const PROPERTY_NAME = context.methods[R];
+            const IS_VIRTUAL = eb_lib_compiler.FETCH_EAGER !== RELATION.fetch;
+
+            classFile += `
+        /// <summary>
+        /// Gets or sets the value of '${R}' relation.
+        /// </summary>`;
+
+            if (eb_lib_compiler.RELATION_MANY_TO_MANY !== RELATION.type) {
+                const FOREIGN_KEY = context.columnNames.filter(c => {
+                    return eb_lib_compiler.getColumnDbName(c, context.columns[c]) === RELATION.column;
+                })[0];
+
+                if (!eb_lib_helpers.isEmptyString(FOREIGN_KEY)) {
+                    classFile += `
+        [global::System.ComponentModel.DataAnnotations.Schema.ForeignKey("${context.methods[ FOREIGN_KEY ]}")]`;
+                }
+
+                // the owning side holds the join column
+                // and configures the relation for both sides
+                if (!eb_lib_helpers.isEmptyString(RELATION.column)) {
+                    const INVERSE_METHOD = context.inverseMethods[R];
+                    const INVERSE_LAMBDA = eb_lib_helpers.isEmptyString(INVERSE_METHOD) ? '' : `x => x.${INVERSE_METHOD}`;
+
+                    // without a column, EF uses a shadow property
+                    // with the name of the join column
+                    const FOREIGN_KEY_NAME = eb_lib_helpers.isEmptyString(FOREIGN_KEY) ? RELATION.column : context.methods[ FOREIGN_KEY ];
+
+                    if (eb_lib_compiler.RELATION_ONE_TO_ONE === RELATION.type) {
+                        MODEL_CONFIG.push(`entity.HasOne(x => x.${PROPERTY_NAME})
+                  .WithOne(${INVERSE_LAMBDA})
+                  .HasForeignKey<${CLASS_NAME}>("${FOREIGN_KEY_NAME}");`);
+                    }
+                    else {
+                        MODEL_CONFIG.push(`entity.HasOne(x => x.${PROPERTY_NAME})
+                  .WithMany(${INVERSE_LAMBDA})
+                  .HasForeignKey("${FOREIGN_KEY_NAME}");`);
+                    }
+                }
+            }
+
+            if (eb_lib_compiler.RELATION_MANY_TO_MANY === RELATION.type &&
+                eb_lib_helpers.isEmptyString(RELATION.mappedBy)) {
+                const INVERSE_METHOD = context.inverseMethods[R];
+                const INVERSE_LAMBDA = eb_lib_helpers.isEmptyString(INVERSE_METHOD) ? '' : `x => x.${INVERSE_METHOD}`;
+
+                MODEL_CONFIG.push(`entity.HasMany(x => x.${PROPERTY_NAME})
+                  .WithMany(${INVERSE_LAMBDA})
+                  .UsingEntity<global::System.Collections.Generic.Dictionary<string, object>>(
+                      "${RELATION.joinTable}",
+                      j => j.HasOne<${RELATION.target}>().WithMany().HasForeignKey("${RELATION.inverseColumn}"),
+                      j => j.HasOne<${CLASS_NAME}>().WithMany().HasForeignKey("${RELATION.column}")
+                  );`);
+            }
+
+            if (eb_lib_compiler.RELATION_ONE_TO_MANY === RELATION.type ||
+                eb_lib_compiler.RELATION_MANY_TO_MANY === RELATION.type) {
+                classFile += `
+        public ${IS_VIRTUAL ? 'virtual ' : ''}global::System.Collections.Generic.ICollection<${RELATION.target}> ${PROPERTY_NAME} { get; set; } = new global::System.Collections.Generic.HashSet<${RELATION.target}>();
+`;
+            }
+            else {
+                classFile += `
+        public ${IS_VIRTUAL ? 'virtual ' : ''}${RELATION.target} ${PROPERTY_NAME} { get; set; }
+`;
+            }
+        }
+
+        classFile += `
+        #endregion
+`;
+    }
     
+    classFile += `
+        #region Model
+
+        /// <summary>
+        /// Configures the mapping of that entity.
+        /// </summary>
+        /// <param name="modelBuilder">The model builder.</param>
+        public static void Configure_Entity(global::Microsoft.EntityFrameworkCore.ModelBuilder modelBuilder)
+        {
+            var entity = modelBuilder.Entity<${CLASS_NAME}>();
+`;
+    for (const MC of MODEL_CONFIG) {
+        classFile += `
+            ${MC}
+`;
+    }
+    classFile += `        }
+
+        #endregion
+`;
+
     classFile += `
         #region Methods
 `;
@@ -517,9 +699,106 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
 }`;
     }
 
-    await eb_lib_helpers.writeFile(CLASS_FILE_PATH, classFile, 'utf8');
+    await context.writeFile(CLASS_FILE_PATH, classFile);
+
+    for (const E in context.enums) {
+        const ENUM = context.enums[E];
+        const CASES = Object.keys(ENUM.values);
+        const IS_STRING_ENUM = eb_lib_compiler.TYPE_STRING === ENUM.type;
+
+        let enumFile = '';
+
+        if (context['namespace'].length > 0) {
+            enumFile += `namespace ${context['namespace'].join('.')}
+{
+`;
+        }
+
+        enumFile += `    /// <summary>
+    /// The '${E}' enum.
+    /// </summary>
+    [global::System.Runtime.Serialization.DataContract]
+    public enum ${E}
+    {`;
+        for (const C of CASES) {
+            const VALUE = ENUM.values[C];
+
+            enumFile += `
+        /// <summary>
+        /// ${IS_STRING_ENUM ? `'${eb_lib_helpers.escapeXml(VALUE)}'` : VALUE}
+        /// </summary>
+        [global::System.Runtime.Serialization.EnumMember${IS_STRING_ENUM ? `(Value = ${JSON.stringify(VALUE)})` : ''}]
+        ${C}${IS_STRING_ENUM ? '' : ` = ${VALUE}`},
+`;
+        }
+        enumFile += `    }
+`;
+
+        if (IS_STRING_ENUM) {
+            enumFile += `
+    /// <summary>
+    /// Converts <see cref="${E}" /> values from and to the values, which are stored in the database.
+    /// </summary>
+    public static class ${E}Converter
+    {
+        /// <summary>
+        /// Converts a database value to a <see cref="${E}" /> value.
+        /// </summary>
+        /// <param name="value">The database value.</param>
+        /// <returns>The enum value.</returns>
+        public static ${E} FromValue(string value)
+        {
+            switch (value)
+            {`;
+            for (const C of CASES) {
+                enumFile += `
+                case ${JSON.stringify(ENUM.values[C])}:
+                    return ${E}.${C};
+`;
+            }
+            enumFile += `            }
+
+            throw new global::System.ArgumentOutOfRangeException("value", value, null);
+        }
+
+        /// <summary>
+        /// Converts a <see cref="${E}" /> value to a database value.
+        /// </summary>
+        /// <param name="value">The enum value.</param>
+        /// <returns>The database value.</returns>
+        public static string ToValue(${E} value)
+        {
+            switch (value)
+            {`;
+            for (const C of CASES) {
+                enumFile += `
+                case ${E}.${C}:
+                    return ${JSON.stringify(ENUM.values[C])};
+`;
+            }
+            enumFile += `            }
+
+            throw new global::System.ArgumentOutOfRangeException("value", value, null);
+        }
+    }
+`;
+        }
+
+        if (context['namespace'].length > 0) {
+            enumFile += `}
+`;
+        }
+
+        await context.writeFile(
+            Path.resolve(
+                Path.join(outDir,
+                          `${E}.cs`)
+            ),
+            enumFile
+        );
+    }
 
-    if (!(await eb_lib_helpers.exists(EXTENSIONS_FILE_PATH))) {
+    if (!(await context.output.exists(EXTENSIONS_FILE_PATH))) {
         let extensionsFile = '';
 
         if (context['namespace'].length > 0) {
@@ -601,6 +880,9 @@ export async function generateClassForEntityFrameworkCore(context: eb_lib_compil
 }`;
         }
 
-        await eb_lib_helpers.writeFile(EXTENSIONS_FILE_PATH, extensionsFile, 'utf8');
+        await context.writeFile(EXTENSIONS_FILE_PATH, extensionsFile, true);
+    }
+    else {
+        context.skipFile(EXTENSIONS_FILE_PATH, true);
     }
 }
@@ -115,6 +115,21 @@ export function distinctArrayBy<T, U>(arr: T[], selector: (item: T) => U): T[] {
     });
 }
 
+/**
+ * Escapes a value for use in XML.
+ * 
+ * @param {any} val The input value.
+ * 
+ * @return {string} The escaped value.
+ */
+export function escapeXml(val: any): string {
+    return toStringSafe(val).replace(/&/g, '&amp;')
+                            .replace(/</g, '&lt;')
+                            .replace(/>/g, '&gt;')
+                            .replace(/"/g, '&quot;')
+                            .replace(/'/g, '&apos;');
+}
+
 /**
  * Promise version of 'Glob()' function.
  * 
@@ -0,0 +1,434 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_doctrine from './doctrine';
+import * as eb_lib_helpers from './helpers';
+import * as eb_lib_sqlite from './sqlite';
+
+
+/**
+ * A function, which reads the tables of a database.
+ * 
+ * @param {ImportContext} context The context.
+ * 
+ * @return {ImportedTable[]|PromiseLike<ImportedTable[]>} The tables.
+ */
+export type EntityImporter = (context: ImportContext) => ImportedTable[] | PromiseLike<ImportedTable[]>;
+
+/**
+ * Context for an importer.
+ */
+export interface ImportContext {
+    /**
+     * The source, like the path of a database file or a connection string.
+     */
+    readonly source: string;
+}
+
+/**
+ * A column, which has been read from a database.
+ */
+export interface ImportedColumn {
+    /**
+     * Is auto generated value or not.
+     */
+    readonly auto?: boolean;
+    /**
+     * The default value as raw SQL expression.
+     */
+    readonly dbDefault?: string;
+    /**
+     * The name of the enum (s. 'ImportedTable.enums'), if known, like from an ORM mapping.
+     */
+    readonly 'enum'?: string;
+    /**
+     * Is part of the primary key or not.
+     */
+    readonly id?: boolean;
+    /**
+     * The maximum length.
+     */
+    readonly length?: number;
+    /**
+     * The name of the column.
+     */
+    readonly name: string;
+    /**
+     * Can be (null) or not.
+     */
+    readonly 'null'?: boolean;
+    /**
+     * The position inside the primary key.
+     */
+    readonly order?: number;
+    /**
+     * The precision of a decimal value.
+     */
+    readonly precision?: number;
+    /**
+     * The name of the property, if known, like from an ORM mapping.
+     */
+    readonly property?: string;
+    /**
+     * The scale of a decimal value.
+     */
+    readonly scale?: number;
+    /**
+     * The data type, like 'int' or 'string'.
+     */
+    readonly type: string;
+    /**
+     * Is unsigned value or not.
+     */
+    readonly unsigned?: boolean;
+}
+
+/**
+ * An index, which has been read from a database.
+ */
+export interface ImportedIndex {
+    /**
+     * The names of the columns.
+     */
+    readonly columns: string[];
+    /**
+     * The name of the index.
+     */
+    readonly name: string;
+    /**
+     * Is unique or not.
+     */
+    readonly unique?: boolean;
+    /**
+     * The SQL condition of a partial index.
+     */
+    readonly where?: string;
+}
+
+/**
+ * A table, which has been read from a database.
+ */
+export interface ImportedTable {
+    /**
+     * The name of the class, if known, like from an ORM mapping.
+     */
+    readonly className?: string;
+    /**
+     * The columns, in the order of the table.
+     */
+    readonly columns: ImportedColumn[];
+    /**
+     * The enums of the columns, if known, like from an ORM mapping.
+     */
+    readonly enums?: eb_lib_compiler.EntityEnumStorage;
+    /**
+     * The indexes, without the one of the primary key.
+     */
+    readonly indexes: ImportedIndex[];
+    /**
+     * The name of the table.
+     */
+    readonly name: string;
+    /**
+     * The namespace of the class, if known, like 'MyCompany.Models'.
+     */
+    readonly 'namespace'?: string;
+    /**
+     * The relations, if known, like from an ORM mapping.
+     */
+    readonly relations?: eb_lib_compiler.EntityRelationStorage;
+}
+
+/**
+ * Options for importing entities.
+ */
+export interface ImportOptions {
+    /**
+     * The namespace of the entity file.
+     */
+    readonly 'namespace'?: string;
+}
+
+
+// built-in importers
+export const IMPORTER_DOCTRINE_XML = 'doctrine-xml';
+export const IMPORTER_SQLITE = 'sqlite';
+
+const IMPORTERS: { [name: string]: EntityImporter } = {};
+
+
+/**
+ * Returns an importer.
+ * 
+ * @param {string} name The name of the importer.
+ * 
+ * @return {EntityImporter} The importer or (undefined) if not registered.
+ */
+export function getImporter(name: string): EntityImporter {
+    return IMPORTERS[ eb_lib_helpers.normalizeString(name) ];
+}
+
+/**
+ * Returns the sorted list of the names of all registered importers.
+ * 
+ * @return {string[]} The names.
+ */
+export function getImporterNames(): string[] {
+    return Object.keys(IMPORTERS).sort((x, y) => {
+        return eb_lib_helpers.compareValues(x, y);
+    });
+}
+
+/**
+ * Reads the tables of a database and returns them as entity file.
+ * 
+ * @param {string} importer The name of the importer, like 'sqlite'.
+ * @param {string} source The source, like the path of a database file.
+ * @param {ImportOptions} [opts] Additional options.
+ * 
+ * @return {Promise<EntityFile>} The promise with the entity file.
+ */
+export async function importEntities(
+    importer: string, source: string,
+    opts?: ImportOptions,
+): Promise<eb_lib_compiler.EntityFile> {
+    const IMPORTER = getImporter(importer);
+    if (!IMPORTER) {
+        throw new Error(`The importer '${eb_lib_helpers.toStringSafe(importer)}' is not supported!`);
+    }
+
+    const TABLES = await Promise.resolve(
+        IMPORTER({
+            source: eb_lib_helpers.toStringSafe(source),
+        })
+    );
+
+    return toEntityFile(TABLES, opts);
+}
+
+/**
+ * Registers an importer.
+ * 
+ * @param {string} name The name of the importer. An existing importer with the same name is replaced.
+ * @param {EntityImporter} importer The importer.
+ */
+export function registerImporter(name: string, importer: EntityImporter) {
+    name = eb_lib_helpers.normalizeString(name);
+    if ('' === name) {
+        throw new Error(`No importer name defined!`);
+    }
+
+    if (!eb_lib_helpers.isFunc<EntityImporter>(importer)) {
+        throw new Error(`The importer '${name}' must be a function!`);
+    }
+
+    IMPORTERS[name] = importer;
+}
+
+/**
+ * Converts the tables of a database to an entity file.
+ * 
+ * @param {ImportedTable[]} tables The tables.
+ * @param {ImportOptions} [opts] Additional options.
+ * 
+ * @return {EntityFile} The entity file.
+ */
+export function toEntityFile(tables: ImportedTable[], opts?: ImportOptions): eb_lib_compiler.EntityFile {
+    if (!opts) {
+        opts = {};
+    }
+
+    const ENTITIES: { [name: string]: any } = {};
+    const ENUMS: { [name: string]: any } = {};
+    for (const T of eb_lib_helpers.asArray(tables).sort((x, y) => {
+        return eb_lib_helpers.compareValuesBy(x, y, t => {
+            return eb_lib_helpers.normalizeString(t.name);
+        });
+    })) {
+        const ENTITY_NAME = eb_lib_helpers.isEmptyString(T.className) ? toIdentifier(T.name)
+                                                                        : T.className;
+        if (ENTITIES[ ENTITY_NAME ]) {
+            throw new Error(`The table '${T.name}' results in the same entity name as another table!`);
+        }
+
+        const ID_COLUMNS = T.columns.filter(c => c.id);
+
+        const COLUMNS: { [name: string]: any } = {};
+        const COLUMN_NAMES: { [dbName: string]: string } = {};
+        for (const C of T.columns) {
+            const COLUMN_NAME = eb_lib_helpers.isEmptyString(C.property) ? toIdentifier(C.name)
+                                                                         : C.property;
+            if (COLUMNS[ COLUMN_NAME ]) {
+                throw new Error(`The column '${C.name}' of table '${T.name}' results in the same name as another column!`);
+            }
+
+            const COLUMN: any = {};
+            if (C.id) {
+                COLUMN.id = true;
+
+                if (ID_COLUMNS.length > 1 && !eb_lib_helpers.isNullOrUndefined(C.order)) {
+                    COLUMN.order = C.order;
+                }
+            }
+            if (C.auto) {
+                COLUMN.auto = true;
+            }
+            COLUMN.type = C.type;
+            if (!eb_lib_helpers.isEmptyString(C['enum'])) {
+                COLUMN.type = eb_lib_compiler.TYPE_ENUM;
+                COLUMN['enum'] = C['enum'];
+            }
+            if (!eb_lib_helpers.isNullOrUndefined(C.length)) {
+                COLUMN.length = C.length;
+            }
+            if (!eb_lib_helpers.isNullOrUndefined(C.precision)) {
+                COLUMN.precision = C.precision;
+            }
+            if (!eb_lib_helpers.isNullOrUndefined(C.scale)) {
+                COLUMN.scale = C.scale;
+            }
+            if (C.unsigned) {
+                COLUMN.unsigned = true;
+            }
+            if (C['null'] && !C.id) {
+                COLUMN['null'] = true;
+            }
+            if (!eb_lib_helpers.isEmptyString(C.dbDefault) && !C.auto) {
+                COLUMN.dbDefault = eb_lib_helpers.toStringSafe(C.dbDefault).trim();
+            }
+            if (COLUMN_NAME !== C.name) {
+                COLUMN.dbName = C.name;
+            }
+
+            // only the data type => short form
+            COLUMNS[ COLUMN_NAME ] = 1 === Object.keys(COLUMN).length ? COLUMN.type : COLUMN;
+            COLUMN_NAMES[ C.name ] = COLUMN_NAME;
+        }
+
+        for (const E of Object.keys(T.enums || {})) {
+            const VALUES = T.enums[E].values;
+
+            const ENUM: any = {};
+            // the type is only needed, if it cannot be detected from the values
+            const IS_INT = Object.keys(VALUES).every(c => eb_lib_helpers.isNumber(VALUES[c]));
+            const TYPE = eb_lib_helpers.normalizeString(T.enums[E].type);
+            if ('' !== TYPE && IS_INT !== (eb_lib_compiler.TYPE_INT === TYPE)) {
+                ENUM.type = TYPE;
+            }
+            ENUM.values = VALUES;
+
+            if (ENUMS[E] && JSON.stringify(ENUMS[E]) !== JSON.stringify(ENUM)) {
+                throw new Error(`The enum '${E}' of table '${T.name}' differs from the one of another table!`);
+            }
+            ENUMS[E] = ENUM;
+        }
+
+        const ENTITY: any = {};
+        if (ENTITY_NAME !== T.name) {
+            ENTITY.table = T.name;
+        }
+        ENTITY.columns = COLUMNS;
+
+        if (T.relations) {
+            const RELATIONS: { [name: string]: any } = {};
+            for (const R of Object.keys(T.relations)) {
+                const RELATION: any = {};
+                for (const P of Object.keys(T.relations[R])) {
+                    if (!eb_lib_helpers.isNullOrUndefined(T.relations[R][P])) {
+                        RELATION[P] = T.relations[R][P];
+                    }
+                }
+
+                RELATIONS[R] = RELATION;
+            }
+
+            if (Object.keys(RELATIONS).length > 0) {
+                ENTITY.relations = RELATIONS;
+            }
+        }
+
+        const INDEXES = eb_lib_helpers.asArray(T.indexes).filter(i => {
+            return i.columns.every(c => !eb_lib_helpers.isNullOrUndefined(COLUMN_NAMES[c]));
+        }).map(i => {
+            const INDEX: any = {
+                columns: i.columns.map(c => COLUMN_NAMES[c]),
+                name: i.name,
+            };
+            if (i.unique) {
+                INDEX.unique = true;
+            }
+            if (!eb_lib_helpers.isEmptyString(i.where)) {
+                INDEX.where = eb_lib_helpers.toStringSafe(i.where).trim();
+            }
+
+            return INDEX;
+        });
+        if (INDEXES.length > 0) {
+            ENTITY.indexes = INDEXES;
+        }
+
+        ENTITIES[ ENTITY_NAME ] = ENTITY;
+    }
+
+    let ns = eb_lib_helpers.toStringSafe(opts['namespace']).trim();
+    if ('' === ns) {
+        // the common namespace of the classes
+        const NAMESPACES = eb_lib_helpers.asArray(tables).map(t => {
+            return eb_lib_helpers.toStringSafe(t['namespace']).split('.').map(x => {
+                return x.trim();
+            }).filter(x => '' !== x);
+        });
+
+        if (NAMESPACES.length > 0) {
+            const COMMON = NAMESPACES[0].filter((x, i) => {
+                return NAMESPACES.every(n => n.slice(0, i + 1).join('.') === NAMESPACES[0].slice(0, i + 1).join('.'));
+            });
+
+            ns = COMMON.join('.');
+        }
+    }
+
+    const FILE: any = {};
+    if ('' !== ns) {
+        FILE['namespace'] = ns;
+    }
+    if (Object.keys(ENUMS).length > 0) {
+        FILE.enums = ENUMS;
+    }
+    FILE.entities = ENTITIES;
+
+    return FILE;
+}
+
+
+// converts the name of a table or column
+// to a valid name of a class or property
+function toIdentifier(name: string) {
+    let identifier = eb_lib_helpers.toStringSafe(name).trim().replace(/[^A-Za-z0-9_]/g, '_');
+    if (false === eb_lib_compiler.parseForClass(identifier)) {
+        identifier = '_' + identifier;
+    }
+
+    return identifier;
+}
+
+
+// register built-in importers
+registerImporter(IMPORTER_DOCTRINE_XML, eb_lib_doctrine.importFromDoctrineXml);
+registerImporter(IMPORTER_SQLITE, eb_lib_sqlite.importFromSqlite);
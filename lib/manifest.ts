@@ -0,0 +1,343 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as Crypto from 'crypto';
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_helpers from './helpers';
+import * as eb_lib_output from './output';
+import * as Path from 'path';
+
+
+/**
+ * A manifest, which stores the hashes of the input and the output of the last compile operations.
+ */
+export interface Manifest {
+    /**
+     * The targets, by their names.
+     */
+    targets: { [target: string]: ManifestTarget };
+}
+
+/**
+ * Stores the hashes of a class or of a whole entity file.
+ */
+export interface ManifestEntry {
+    /**
+     * The paths of the extension files, relative to the output directory.
+     */
+    readonly extensions?: string[];
+    /**
+     * The hashes of the generated files (without extension files),
+     * by their paths, relative to the output directory.
+     */
+    readonly files: { [path: string]: string };
+    /**
+     * The hash of the input.
+     */
+    readonly input: string;
+}
+
+/**
+ * The part of a manifest for a target.
+ */
+export interface ManifestTarget {
+    /**
+     * The entries of the classes, by their entity names.
+     */
+    classes: { [entityName: string]: ManifestEntry };
+    /**
+     * The entry of the whole entity file, for targets, which generate all classes
+     * or the files, which are shared by the classes, at once.
+     */
+    file?: ManifestEntry;
+    /**
+     * Extension files of removed entities, which have not been deleted yet,
+     * relative to the output directory.
+     */
+    staleExtensions?: string[];
+    /**
+     * Generated files of removed entities, which have not been deleted yet,
+     * relative to the output directory.
+     */
+    staleFiles?: string[];
+}
+
+/**
+ * Files, which do not belong to any entity anymore.
+ */
+export interface StaleFiles {
+    /**
+     * The extension files, relative to the output directory.
+     */
+    readonly extensions: string[];
+    /**
+     * The generated files, relative to the output directory.
+     */
+    readonly files: string[];
+}
+
+
+/**
+ * The name of the manifest file inside an output directory.
+ */
+export const MANIFEST_FILE = '.entity-baker-manifest.json';
+
+
+/**
+ * Returns the files of an old manifest target, which are not part of a new one.
+ * 
+ * @param {ManifestTarget} oldTarget The old target.
+ * @param {ManifestTarget} newTarget The new target.
+ * 
+ * @return {StaleFiles} The stale files.
+ */
+export function getStaleFiles(oldTarget: ManifestTarget, newTarget: ManifestTarget): StaleFiles {
+    const OLD_FILES = getFilesOf(oldTarget);
+    const NEW_FILES = getFilesOf(newTarget);
+
+    // files, which have been moved from a generated file to an extension
+    // file or vice versa, should not be deleted
+    const IS_STALE = (f: string) => {
+        return NEW_FILES.files.indexOf(f) < 0 &&
+               NEW_FILES.extensions.indexOf(f) < 0;
+    };
+
+    return {
+        extensions: eb_lib_helpers.distinctArray(OLD_FILES.extensions.filter(IS_STALE)),
+        files: eb_lib_helpers.distinctArray(OLD_FILES.files.filter(IS_STALE)),
+    };
+}
+
+/**
+ * Checks if the generated files of a manifest entry are up-to-date.
+ * 
+ * @param {OutputWriter} output The writer, to read the files from.
+ * @param {string} outDir The output directory.
+ * @param {ManifestEntry} entry The entry.
+ * @param {string} inputHash The hash of the current input.
+ * 
+ * @return {Promise<boolean>} The promise, which indicates if the entry is up-to-date or not.
+ */
+export async function isManifestEntryUpToDate(
+    output: eb_lib_output.OutputWriter,
+    outDir: string,
+    entry: ManifestEntry,
+    inputHash: string,
+): Promise<boolean> {
+    if (!eb_lib_helpers.isObj<ManifestEntry>(entry) || entry.input !== inputHash) {
+        return false;
+    }
+
+    for (const F in entry.files) {
+        const FILE = Path.resolve(outDir, F);
+
+        // the file has been removed or edited
+        if (!(await output.exists(FILE))) {
+            return false;
+        }
+        if (toContentHash(await output.read(FILE)) !== entry.files[F]) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Loads the manifest of an output directory.
+ * 
+ * @param {OutputWriter} output The writer, to read the manifest from.
+ * @param {string} outDir The output directory.
+ * 
+ * @return {Promise<Manifest>} The promise with the manifest, which is empty if it does not exist or is invalid.
+ */
+export async function loadManifest(output: eb_lib_output.OutputWriter, outDir: string): Promise<Manifest> {
+    let manifest: Manifest;
+
+    const MANIFEST_PATH = Path.resolve(outDir, MANIFEST_FILE);
+    if (await output.exists(MANIFEST_PATH)) {
+        try {
+            manifest = JSON.parse(await output.read(MANIFEST_PATH));
+        }
+        catch (e) {
+            manifest = null;  // regenerate everything
+        }
+    }
+
+    if (!eb_lib_helpers.isObj<Manifest>(manifest)) {
+        manifest = <any>{};
+    }
+    if (!eb_lib_helpers.isObj(manifest.targets)) {
+        manifest.targets = {};
+    }
+
+    return manifest;
+}
+
+/**
+ * Saves the manifest of an output directory.
+ * 
+ * @param {OutputWriter} output The writer.
+ * @param {string} outDir The output directory.
+ * @param {Manifest} manifest The manifest to save.
+ */
+export async function saveManifest(output: eb_lib_output.OutputWriter, outDir: string, manifest: Manifest) {
+    await output.mkdirs(outDir);
+
+    await output.write(Path.resolve(outDir, MANIFEST_FILE),
+                       JSON.stringify(manifest, null, 4));
+}
+
+/**
+ * Returns the hash of the input of a class.
+ * 
+ * @param {GenerateClassContext} context The context of the class.
+ * 
+ * @return {string} The hash.
+ */
+export function toClassInputHash(context: eb_lib_compiler.GenerateClassContext): string {
+    return toContentHash(
+        JSON.stringify( toInputOf(context) )
+    );
+}
+
+/**
+ * Returns the hash of a content.
+ * 
+ * @param {string} content The content.
+ * 
+ * @return {string} The hash.
+ */
+export function toContentHash(content: string): string {
+    return Crypto.createHash('sha256')
+                 .update(eb_lib_helpers.toStringSafe(content), 'utf8')
+                 .digest('hex');
+}
+
+/**
+ * Returns the hash of the input of a whole entity file.
+ * 
+ * @param {GenerateFileContext} context The context of the file.
+ * 
+ * @return {string} The hash.
+ */
+export function toFileInputHash(context: eb_lib_compiler.GenerateFileContext): string {
+    return toContentHash(
+        JSON.stringify({
+            classes: context.classes.map(c => toInputOf(c)),
+        })
+    );
+}
+
+/**
+ * Creates a manifest entry.
+ * 
+ * @param {string} inputHash The hash of the input.
+ * @param {EntityCompilerFileResult[]} files The files, which have been generated.
+ * @param {string} outDir The output directory.
+ * 
+ * @return {ManifestEntry} The new entry.
+ */
+export function toManifestEntry(inputHash: string, files: eb_lib_compiler.EntityCompilerFileResult[], outDir: string): ManifestEntry {
+    const ENTRY: ManifestEntry = {
+        extensions: [],
+        files: {},
+        input: inputHash,
+    };
+
+    for (const F of files) {
+        const RELATIVE_PATH = Path.relative(outDir, F.path).split(Path.sep).join('/');
+
+        if (F.isExtension) {
+            ENTRY.extensions.push(RELATIVE_PATH);
+        }
+        else if (!eb_lib_helpers.isEmptyString(F.hash)) {
+            ENTRY.files[RELATIVE_PATH] = F.hash;
+        }
+    }
+
+    return ENTRY;
+}
+
+
+function getFilesOf(target: ManifestTarget): StaleFiles {
+    let extensions: string[] = [];
+    let files: string[] = [];
+
+    if (eb_lib_helpers.isObj<ManifestTarget>(target)) {
+        const ENTRIES: ManifestEntry[] = [];
+        for (const E in target.classes || {}) {
+            ENTRIES.push(target.classes[E]);
+        }
+        ENTRIES.push(target.file);
+
+        for (const E of ENTRIES.filter(e => eb_lib_helpers.isObj(e))) {
+            extensions = extensions.concat(eb_lib_helpers.asArray(E.extensions));
+            files = files.concat(Object.keys(E.files || {}));
+        }
+
+        extensions = extensions.concat(eb_lib_helpers.asArray(target.staleExtensions));
+        files = files.concat(eb_lib_helpers.asArray(target.staleFiles));
+    }
+
+    return {
+        extensions: extensions,
+        files: files,
+    };
+}
+
+function getVersion(): string {
+    try {
+        // changes of the generators
+        return eb_lib_helpers.toStringSafe(
+            require(Path.join(__dirname, '../package.json')).version
+        );
+    }
+    catch (e) {
+        return '';
+    }
+}
+
+// the data of a context, which has an effect on the generated files
+function toInputOf(context: eb_lib_compiler.GenerateClassContext) {
+    const OPTIONS = context.options;
+
+    return {
+        classNames: context.classNames,
+        columns: context.columns,
+        entity: context.entity,
+        enums: context.enums,
+        idColumnNames: context.idColumnNames,
+        indexes: context.indexes,
+        inverseMethods: context.inverseMethods,
+        methods: context.methods,
+        name: context.name,
+        'namespace': context['namespace'],
+        options: {
+            doctrine: OPTIONS.doctrine,
+            prisma: OPTIONS.prisma,
+            sequelize: OPTIONS.sequelize,
+            sql: OPTIONS.sql,
+            target: OPTIONS.target,
+        },
+        outDir: context.outDir,
+        relations: context.relations,
+        table: context.table,
+        version: getVersion(),
+    };
+}
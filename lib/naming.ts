@@ -0,0 +1,261 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+import * as eb_lib_helpers from './helpers';
+
+
+/**
+ * A naming strategy.
+ */
+export interface NamingStrategy {
+    /**
+     * Returns the name of a class.
+     * 
+     * @param {string} name The name of the entity, as defined in the entity file.
+     * 
+     * @return {string} The class name.
+     */
+    toClassName(name: string): string;
+
+    /**
+     * Returns the name of a database column.
+     * 
+     * @param {string} name The name of the column, as defined in the entity file.
+     * 
+     * @return {string} The name of the database column.
+     */
+    toColumnName(name: string): string;
+
+    /**
+     * Returns the name of a property or the suffix of a method, like 'UserName' for 'getUserName()'.
+     * 
+     * @param {string} name The name of the column or relation, as defined in the entity file.
+     * 
+     * @return {string} The property name / method suffix.
+     */
+    toMethodName(name: string): string;
+
+    /**
+     * Returns the name of a database table.
+     * 
+     * @param {string} className The name of the class, which is returned by 'toClassName()'.
+     * 
+     * @return {string} The table name.
+     */
+    toTableName(className: string): string;
+}
+
+/**
+ * Options for a naming strategy, which can be defined in an entity file.
+ */
+export interface NamingStrategyOptions {
+    /**
+     * The case of class names.
+     */
+    readonly classes?: string;
+    /**
+     * The case of database columns.
+     */
+    readonly columns?: string;
+    /**
+     * The case of properties and method suffixes.
+     */
+    readonly methods?: string;
+    /**
+     * Use plural of class names as table names or not.
+     */
+    readonly pluralize?: boolean;
+    /**
+     * The case of table names.
+     */
+    readonly tables?: string;
+}
+
+
+// cases
+export const CASE_CAMEL = 'camel';
+export const CASE_KEBAB = 'kebab';
+export const CASE_NONE = 'none';
+export const CASE_PASCAL = 'pascal';
+export const CASE_SNAKE = 'snake';
+
+
+/**
+ * Converts a name to a specific case.
+ * 
+ * @param {string} name The name to convert.
+ * @param {string} [nameCase] The case, like 'snake' or 'snake_case'. Default: 'none'
+ * 
+ * @return {string} The converted name.
+ */
+export function changeCase(name: string, nameCase?: string): string {
+    name = eb_lib_helpers.toStringSafe(name).trim();
+
+    switch (normalizeCase(nameCase)) {
+        case CASE_CAMEL:
+            return splitWords(name).map((w, i) => {
+                return 0 === i ? w.toLowerCase()
+                               : w[0].toUpperCase() + w.substr(1);
+            }).join('');
+
+        case CASE_KEBAB:
+            return splitWords(name).map(w => w.toLowerCase())
+                                   .join('-');
+
+        case CASE_PASCAL:
+            return toPascalCase(name);
+
+        case CASE_SNAKE:
+            return splitWords(name).map(w => w.toLowerCase())
+                                   .join('_');
+
+        case CASE_NONE:
+            return name;
+    }
+
+    throw new Error(`The case '${eb_lib_helpers.toStringSafe(nameCase)}' is not supported!`);
+}
+
+/**
+ * Creates a naming strategy from options.
+ * 
+ * @param {NamingStrategyOptions} [opts] The options.
+ * 
+ * @return {NamingStrategy} The new strategy.
+ */
+export function createNamingStrategy(opts?: NamingStrategyOptions): NamingStrategy {
+    if (!opts) {
+        opts = {};
+    }
+
+    const CLASSES = normalizeCase(opts.classes);
+    const COLUMNS = normalizeCase(opts.columns);
+    const METHODS = normalizeCase(opts.methods, CASE_PASCAL);
+    const PLURALIZE = eb_lib_helpers.toBooleanSafe(opts.pluralize);
+    const TABLES = normalizeCase(opts.tables);
+
+    // class and method names are identifiers
+    if (CASE_KEBAB === CLASSES) {
+        throw new Error(`The case '${CASE_KEBAB}' cannot be used for class names!`);
+    }
+    if (CASE_KEBAB === METHODS) {
+        throw new Error(`The case '${CASE_KEBAB}' cannot be used for properties and methods!`);
+    }
+
+    return {
+        toClassName: (name) => changeCase(name, CLASSES),
+        toColumnName: (name) => changeCase(name, COLUMNS),
+        toMethodName: (name) => changeCase(name, METHODS),
+        toTableName: (className) => {
+            const TABLE_NAME = changeCase(className, TABLES);
+
+            return PLURALIZE ? pluralize(TABLE_NAME) : TABLE_NAME;
+        },
+    };
+}
+
+/**
+ * Returns the (English) plural of a word.
+ * 
+ * @param {string} word The word.
+ * 
+ * @return {string} The plural.
+ */
+export function pluralize(word: string): string {
+    word = eb_lib_helpers.toStringSafe(word);
+
+    if (/[^aeiou]y$/i.test(word)) {
+        return word.substr(0, word.length - 1) + ('Y' === word[word.length - 1] ? 'IES' : 'ies');
+    }
+
+    if (/(s|x|z|ch|sh)$/i.test(word)) {
+        return word + (/[A-Z]$/.test(word) ? 'ES' : 'es');
+    }
+
+    if ('' === word) {
+        return word;
+    }
+
+    return word + (/[A-Z]$/.test(word) ? 'S' : 's');
+}
+
+/**
+ * Returns a naming strategy from a value.
+ * 
+ * @param {NamingStrategy|NamingStrategyOptions} [val] The input value.
+ * 
+ * @return {NamingStrategy} The strategy.
+ */
+export function toNamingStrategy(val?: NamingStrategy | NamingStrategyOptions): NamingStrategy {
+    const CUSTOM = <NamingStrategy>val;
+    if (!eb_lib_helpers.isObj<NamingStrategy>(CUSTOM) ||
+        !(eb_lib_helpers.isFunc(CUSTOM.toClassName) || eb_lib_helpers.isFunc(CUSTOM.toColumnName) ||
+          eb_lib_helpers.isFunc(CUSTOM.toMethodName) || eb_lib_helpers.isFunc(CUSTOM.toTableName))) {
+        return createNamingStrategy(<NamingStrategyOptions>val);
+    }
+
+    // custom strategy, which may only
+    // implement some of the methods
+    const DEFAULT = createNamingStrategy();
+
+    return {
+        toClassName: (name) => {
+            return eb_lib_helpers.isFunc(CUSTOM.toClassName) ? CUSTOM.toClassName(name)
+                                                             : DEFAULT.toClassName(name);
+        },
+        toColumnName: (name) => {
+            return eb_lib_helpers.isFunc(CUSTOM.toColumnName) ? CUSTOM.toColumnName(name)
+                                                              : DEFAULT.toColumnName(name);
+        },
+        toMethodName: (name) => {
+            return eb_lib_helpers.isFunc(CUSTOM.toMethodName) ? CUSTOM.toMethodName(name)
+                                                              : DEFAULT.toMethodName(name);
+        },
+        toTableName: (className) => {
+            return eb_lib_helpers.isFunc(CUSTOM.toTableName) ? CUSTOM.toTableName(className)
+                                                             : DEFAULT.toTableName(className);
+        },
+    };
+}
+
+/**
+ * Converts a name to PascalCase, like 'user_name' to 'UserName'.
+ * 
+ * @param {string} name The name to convert.
+ * 
+ * @return {string} The converted name.
+ */
+export function toPascalCase(name: string): string {
+    return splitWords(name).map(w => {
+        return w[0].toUpperCase() + w.substr(1);
+    }).join('');
+}
+
+
+function normalizeCase(nameCase: string, defaultCase = CASE_NONE): string {
+    nameCase = eb_lib_helpers.normalizeString(nameCase).replace(/[^a-z]/g, '')
+                                                       .replace(/case$/, '');
+
+    return '' === nameCase ? defaultCase : nameCase;
+}
+
+function splitWords(name: string): string[] {
+    return eb_lib_helpers.toStringSafe(name)
+                         .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+                         .split(/[^a-zA-Z0-9]+/)
+                         .filter(w => '' !== w);
+}
@@ -0,0 +1,266 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as eb_lib_helpers from './helpers';
+import * as FSExtra from 'fs-extra';
+import * as Path from 'path';
+
+
+/**
+ * A storage of files in memory.
+ */
+export type OutputFileStorage = { [path: string]: string };
+
+/**
+ * Writes the output of a compiler, like generated files.
+ */
+export interface OutputWriter {
+    /**
+     * Checks if a file or directory exists.
+     * 
+     * @param {string} path The full path.
+     * 
+     * @return {Promise<boolean>} The promise, which indicates if the file or directory exists or not.
+     */
+    exists(path: string): Promise<boolean>;
+
+    /**
+     * Creates a directory and all its parents, if needed.
+     * 
+     * @param {string} dir The full path of the directory.
+     */
+    mkdirs(dir: string): Promise<void>;
+
+    /**
+     * Reads the content of a file.
+     * 
+     * @param {string} path The full path of the file.
+     * 
+     * @return {Promise<string>} The promise with the content.
+     */
+    read(path: string): Promise<string>;
+
+    /**
+     * Removes a file.
+     * 
+     * @param {string} path The full path of the file.
+     */
+    remove(path: string): Promise<void>;
+
+    /**
+     * Writes a file.
+     * 
+     * @param {string} path The full path of the file.
+     * @param {string} content The content.
+     */
+    write(path: string, content: string): Promise<void>;
+}
+
+
+/**
+ * An output writer, which uses the file system.
+ */
+export class FileSystemOutputWriter implements OutputWriter {
+    /** @inheritdoc */
+    public async exists(path: string): Promise<boolean> {
+        return await eb_lib_helpers.exists(path);
+    }
+
+    /** @inheritdoc */
+    public async mkdirs(dir: string): Promise<void> {
+        if (!(await this.exists(dir))) {
+            await FSExtra.mkdirs(dir);
+        }
+    }
+
+    /** @inheritdoc */
+    public async read(path: string): Promise<string> {
+        return (await eb_lib_helpers.readFile(path)).toString('utf8');
+    }
+
+    /** @inheritdoc */
+    public async remove(path: string): Promise<void> {
+        await FSExtra.remove(path);
+    }
+
+    /** @inheritdoc */
+    public async write(path: string, content: string): Promise<void> {
+        await eb_lib_helpers.writeFile(path, content, 'utf8');
+    }
+}
+
+/**
+ * An output writer, which keeps all files in memory.
+ */
+export class MemoryOutputWriter implements OutputWriter {
+    /**
+     * The list of directories.
+     */
+    protected readonly _DIRS: string[] = [];
+    /**
+     * The files, by their full paths.
+     */
+    public readonly files: OutputFileStorage = {};
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {OutputFileStorage} [files] The initial files, like the ones, which already exist.
+     */
+    constructor(files?: OutputFileStorage) {
+        if (eb_lib_helpers.isObj<OutputFileStorage>(files)) {
+            for (const F in files) {
+                this.files[ Path.resolve(F) ] = eb_lib_helpers.toStringSafe(files[F]);
+            }
+        }
+    }
+
+    /** @inheritdoc */
+    public async exists(path: string): Promise<boolean> {
+        path = Path.resolve(path);
+
+        if (this._DIRS.indexOf(path) > -1) {
+            return true;
+        }
+
+        for (const F in this.files) {
+            if (F === path || F.startsWith(path + Path.sep)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /** @inheritdoc */
+    public async mkdirs(dir: string): Promise<void> {
+        dir = Path.resolve(dir);
+
+        while (this._DIRS.indexOf(dir) < 0) {
+            this._DIRS.push(dir);
+
+            const PARENT = Path.dirname(dir);
+            if (PARENT === dir) {
+                break;
+            }
+
+            dir = PARENT;
+        }
+    }
+
+    /** @inheritdoc */
+    public async read(path: string): Promise<string> {
+        path = Path.resolve(path);
+
+        if (!this.files.hasOwnProperty(path)) {
+            throw new Error(`The file '${path}' does not exist!`);
+        }
+
+        return this.files[path];
+    }
+
+    /** @inheritdoc */
+    public async remove(path: string): Promise<void> {
+        delete this.files[ Path.resolve(path) ];
+    }
+
+    /**
+     * Returns the files, with paths relative to a directory.
+     * 
+     * @param {string} [dir] The directory. Default: The current working directory.
+     * 
+     * @return {OutputFileStorage} The files.
+     */
+    public toObject(dir?: string): OutputFileStorage {
+        if (eb_lib_helpers.isEmptyString(dir)) {
+            dir = process.cwd();
+        }
+        dir = Path.resolve(dir);
+
+        const OBJ: OutputFileStorage = {};
+        for (const F of Object.keys(this.files).sort()) {
+            OBJ[ Path.relative(dir, F).split(Path.sep).join('/') ] = this.files[F];
+        }
+
+        return OBJ;
+    }
+
+    /** @inheritdoc */
+    public async write(path: string, content: string): Promise<void> {
+        this.files[ Path.resolve(path) ] = eb_lib_helpers.toStringSafe(content);
+    }
+}
+
+/**
+ * An output writer, which reads from another writer, but keeps all written files in memory,
+ * like for dry runs.
+ */
+export class DryRunOutputWriter extends MemoryOutputWriter {
+    /**
+     * The files of the base writer, which have been removed.
+     */
+    protected readonly _REMOVED_FILES: string[] = [];
+
+    /**
+     * Initializes a new instance of that class.
+     * 
+     * @param {OutputWriter} baseWriter The writer to read from.
+     */
+    constructor(public readonly baseWriter: OutputWriter) {
+        super();
+    }
+
+    /** @inheritdoc */
+    public async exists(path: string): Promise<boolean> {
+        if (await super.exists(path)) {
+            return true;
+        }
+
+        return this._REMOVED_FILES.indexOf( Path.resolve(path) ) < 0 &&
+               (await this.baseWriter.exists(path));
+    }
+
+    /** @inheritdoc */
+    public async read(path: string): Promise<string> {
+        if (this.files.hasOwnProperty( Path.resolve(path) )) {
+            return await super.read(path);
+        }
+        if (this._REMOVED_FILES.indexOf( Path.resolve(path) ) > -1) {
+            throw new Error(`The file '${path}' does not exist!`);
+        }
+
+        return await this.baseWriter.read(path);
+    }
+
+    /** @inheritdoc */
+    public async remove(path: string): Promise<void> {
+        await super.remove(path);
+
+        this._REMOVED_FILES.push( Path.resolve(path) );
+    }
+
+    /** @inheritdoc */
+    public async write(path: string, content: string): Promise<void> {
+        await super.write(path, content);
+
+        const INDEX = this._REMOVED_FILES.indexOf( Path.resolve(path) );
+        if (INDEX > -1) {
+            this._REMOVED_FILES.splice(INDEX, 1);
+        }
+    }
+}
@@ -0,0 +1,508 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_helpers from './helpers';
+import * as eb_lib_naming from './naming';
+import * as Path from 'path';
+
+
+interface PrismaField {
+    attributes: string[];
+    name: string;
+    type: string;
+}
+
+interface PrismaModel {
+    attributes: string[];
+    fields: PrismaField[];
+}
+
+
+/**
+ * The default datasource provider of a Prisma schema.
+ */
+export const DEFAULT_PRISMA_PROVIDER = 'postgresql';
+
+// providers, which support '@db.*' attributes
+// for 'VARCHAR' and 'DECIMAL'
+const NATIVE_TYPE_PROVIDERS = [ 'cockroachdb', 'mysql', 'postgresql', 'sqlserver' ];
+
+
+/**
+ * Generates a Prisma schema with all entities of an entity file.
+ * 
+ * @param {GenerateFileContext} context
+ */
+export async function generateFileForPrisma(context: eb_lib_compiler.GenerateFileContext) {
+    const OUT_DIR = Path.resolve(context.outDir);
+
+    await context.output.mkdirs(OUT_DIR);
+
+    const SCHEMA_FILE_PATH = Path.resolve(
+        Path.join(OUT_DIR,
+                  'schema.prisma')
+    );
+
+    let provider = '';
+    if (context.options.prisma) {
+        provider = eb_lib_helpers.normalizeString(context.options.prisma.provider);
+    }
+    if ('' === provider) {
+        provider = DEFAULT_PRISMA_PROVIDER;
+    }
+
+    const CLASSES: { [name: string]: eb_lib_compiler.GenerateClassContext } = {};
+    const MODELS: { [name: string]: PrismaModel } = {};
+    for (const CTX of context.classes) {
+        CLASSES[ CTX.name ] = CTX;
+        MODELS[ CTX.name ] = {
+            attributes: [],
+            fields: [],
+        };
+    }
+
+    const CAN_BE_NULL = (ctx: eb_lib_compiler.GenerateClassContext, col: string) => {
+        return eb_lib_helpers.toBooleanSafe(
+            ctx.columns[col]['null']
+        );
+    };
+
+    const IS_ID = (ctx: eb_lib_compiler.GenerateClassContext, col: string) => {
+        return eb_lib_helpers.toBooleanSafe(
+            ctx.columns[col].id
+        );
+    };
+
+    const IS_STRING_ENUM = (e: string) => {
+        return context.enums[e] &&
+               eb_lib_compiler.TYPE_INT !== context.enums[e].type;
+    };
+
+    const TO_FIELD_NAME = (ctx: eb_lib_compiler.GenerateClassContext, dbName: string) => {
+        for (const C of ctx.columnNames) {
+            if (eb_lib_compiler.getColumnDbName(C, ctx.columns[C]) === dbName) {
+                return C;
+            }
+        }
+
+        return dbName;
+    };
+
+    // the '@db.*' attribute with the length or
+    // the precision and scale of a column
+    const TO_NATIVE_TYPE = (ctx: eb_lib_compiler.GenerateClassContext, col: string): string => {
+        const COLUMN = ctx.columns[col];
+
+        switch (TO_PRISMA_TYPE(ctx, col)) {
+            case 'Decimal':
+                if (!eb_lib_helpers.isNullOrUndefined(COLUMN.precision)) {
+                    return `@db.Decimal(${COLUMN.precision}, ${eb_lib_helpers.isNullOrUndefined(COLUMN.scale) ? 0 : COLUMN.scale})`;
+                }
+                break;
+
+            case 'String':
+                if (!eb_lib_helpers.isNullOrUndefined(COLUMN.length)) {
+                    return `@db.VarChar(${COLUMN.length})`;
+                }
+                break;
+        }
+    };
+
+    const TO_PRISMA_TYPE = (ctx: eb_lib_compiler.GenerateClassContext, col: string): string => {
+        let type = eb_lib_helpers.normalizeString( ctx.columns[col].type );
+
+        switch (type) {
+            case eb_lib_compiler.TYPE_BIGINT:
+            case eb_lib_compiler.TYPE_INT64:
+            case eb_lib_compiler.TYPE_UINT64:
+                type = 'BigInt';
+                break;
+
+            case eb_lib_compiler.TYPE_BIN:
+            case eb_lib_compiler.TYPE_BINARY:
+            case eb_lib_compiler.TYPE_BLOB:
+                type = 'Bytes';
+                break;
+
+            case eb_lib_compiler.TYPE_BOOL:
+            case eb_lib_compiler.TYPE_BOOLEAN:
+                type = 'Boolean';
+                break;
+
+            case eb_lib_compiler.TYPE_DATE:
+            case eb_lib_compiler.TYPE_DATETIME:
+            case eb_lib_compiler.TYPE_DATETIME_TZ:
+            case eb_lib_compiler.TYPE_TIME:
+                type = 'DateTime';
+                break;
+
+            case eb_lib_compiler.TYPE_DECIMAL:
+                type = 'Decimal';
+                break;
+
+            case eb_lib_compiler.TYPE_ENUM:
+                type = IS_STRING_ENUM(ctx.columns[col]['enum']) ? ctx.columns[col]['enum'] : 'Int';
+                break;
+
+            case eb_lib_compiler.TYPE_FLOAT:
+                type = 'Float';
+                break;
+
+            case eb_lib_compiler.TYPE_GUID:
+            case eb_lib_compiler.TYPE_STR:
+            case eb_lib_compiler.TYPE_STRING:
+            case eb_lib_compiler.TYPE_TEXT:
+            case eb_lib_compiler.TYPE_UUID:
+                type = 'String';
+                break;
+
+            case eb_lib_compiler.TYPE_INT:
+            case eb_lib_compiler.TYPE_INT16:
+            case eb_lib_compiler.TYPE_INT32:
+            case eb_lib_compiler.TYPE_INTEGER:
+            case eb_lib_compiler.TYPE_SMALLINT:
+            case eb_lib_compiler.TYPE_UINT16:
+            case eb_lib_compiler.TYPE_UINT32:
+                type = 'Int';
+                break;
+
+            case eb_lib_compiler.TYPE_JSON:
+                type = 'Json';
+                break;
+
+            case eb_lib_compiler.TYPE__DEFAULT:
+                type = 'String';
+                if (IS_ID(ctx, col)) {
+                    type = 'Int';
+                }
+                break;
+
+            default:
+                throw new Error(`The data type '${type}' is not supported by Prisma!`);
+        }
+
+        return type;
+    };
+
+    const TO_REFERENCED_NATIVE_TYPE = (ctx: eb_lib_compiler.GenerateClassContext, dbName: string): string[] => {
+        const COLUMN = TO_FIELD_NAME(ctx, dbName);
+        if (ctx.columns[COLUMN] && NATIVE_TYPE_PROVIDERS.indexOf(provider) > -1) {
+            const NATIVE_TYPE = TO_NATIVE_TYPE(ctx, COLUMN);
+            if (NATIVE_TYPE) {
+                return [ NATIVE_TYPE ];
+            }
+        }
+
+        return [];
+    };
+
+    const TO_REFERENCED_TYPE = (ctx: eb_lib_compiler.GenerateClassContext, dbName: string) => {
+        const COLUMN = TO_FIELD_NAME(ctx, dbName);
+        if (ctx.columns[COLUMN]) {
+            return TO_PRISMA_TYPE(ctx, COLUMN);
+        }
+
+        return 'Int';
+    };
+
+    // columns
+    for (const CTX of context.classes) {
+        const MODEL = MODELS[ CTX.name ];
+
+        const COLUMNS = CTX.idColumnNames.concat(CTX.columnNames.filter(c => {
+            return CTX.idColumnNames.indexOf(c) < 0;
+        }));
+
+        for (const C of COLUMNS) {
+            const COLUMN = CTX.columns[C];
+            const TYPE = TO_PRISMA_TYPE(CTX, C);
+
+            const ATTRIBUTES: string[] = [];
+            if (IS_ID(CTX, C) && 1 === CTX.idColumnNames.length) {
+                ATTRIBUTES.push('@id');
+            }
+
+            if (eb_lib_helpers.toBooleanSafe(COLUMN.auto)) {
+                ATTRIBUTES.push(`@default(${'String' === TYPE ? 'uuid()' : 'autoincrement()'})`);
+            }
+            else if (!eb_lib_helpers.isEmptyString(COLUMN.dbDefault)) {
+                ATTRIBUTES.push(`@default(dbgenerated(${toPrismaString(COLUMN.dbDefault)}))`);
+            }
+            else if (!eb_lib_helpers.isNullOrUndefined(COLUMN['default'])) {
+                let defaultValue: string;
+                if (TYPE === COLUMN['enum']) {
+                    defaultValue = <string>eb_lib_compiler.getEnumCase(context.enums[ COLUMN['enum'] ], COLUMN['default']);
+                }
+                else {
+                    defaultValue = toPrismaLiteral(COLUMN['default'], TYPE);
+                }
+
+                ATTRIBUTES.push(`@default(${defaultValue})`);
+            }
+
+            if (!eb_lib_helpers.isEmptyString(COLUMN.dbName)) {
+                ATTRIBUTES.push(`@map(${toPrismaString(COLUMN.dbName)})`);
+            }
+
+            const NATIVE_TYPE = TO_NATIVE_TYPE(CTX, C);
+            if (NATIVE_TYPE) {
+                if (NATIVE_TYPE_PROVIDERS.indexOf(provider) > -1) {
+                    ATTRIBUTES.push(NATIVE_TYPE);
+                }
+                else {
+                    CTX.warn(`The length, precision and scale of column '${C}' are ignored, because provider '${provider}' does not support native types!`);
+                }
+            }
+
+            MODEL.fields.push({
+                attributes: ATTRIBUTES,
+                name: C,
+                type: TYPE + (CAN_BE_NULL(CTX, C) && !IS_ID(CTX, C) ? '?' : ''),
+            });
+        }
+
+        if (CTX.idColumnNames.length > 1) {
+            MODEL.attributes.push(`@@id([${CTX.idColumnNames.join(', ')}])`);
+        }
+
+        for (const I of CTX.indexes) {
+            if (!eb_lib_helpers.isEmptyString(I.where)) {
+                CTX.warn(`The filter of index '${I.name}' is ignored, because partial indexes are not supported by Prisma!`);
+            }
+
+            MODEL.attributes.push(
+                `@@${I.unique ? 'unique' : 'index'}([${eb_lib_helpers.asArray(I.columns).join(', ')}], map: ${toPrismaString(I.name)})`
+            );
+        }
+
+        MODEL.attributes.push(`@@map(${toPrismaString(CTX.table)})`);
+    }
+
+    // relations
+    for (const CTX of context.classes) {
+        const MODEL = MODELS[ CTX.name ];
+
+        for (const R of CTX.relationNames) {
+            const RELATION = CTX.relations[R];
+
+            const TARGET = CLASSES[ RELATION.target ];
+            const TARGET_MODEL = MODELS[ RELATION.target ];
+            const HAS_INVERSE_SIDE = !eb_lib_helpers.isEmptyString(RELATION.inversedBy);
+            const IS_OWNING_SIDE = eb_lib_helpers.isEmptyString(RELATION.mappedBy);
+
+            if (eb_lib_compiler.RELATION_MANY_TO_MANY === RELATION.type) {
+                // join table as explicit model
+                const JOIN_MODEL_NAME = eb_lib_naming.toPascalCase(RELATION.joinTable);
+
+                if (IS_OWNING_SIDE) {
+                    const RELATION_NAME = `${CTX.name}_${R}`;
+
+                    let ownerField = toFirstLower(CTX.name);
+                    let targetField = toFirstLower(TARGET.name);
+                    if (ownerField === targetField) {
+                        targetField = R;
+                    }
+
+                    MODELS[ JOIN_MODEL_NAME ] = {
+                        attributes: [
+                            `@@id([${RELATION.column}, ${RELATION.inverseColumn}])`,
+                            `@@map(${toPrismaString(RELATION.joinTable)})`,
+                        ],
+                        fields: [{
+                            attributes: TO_REFERENCED_NATIVE_TYPE(CTX, RELATION.referencedColumn),
+                            name: RELATION.column,
+                            type: TO_REFERENCED_TYPE(CTX, RELATION.referencedColumn),
+                        }, {
+                            attributes: TO_REFERENCED_NATIVE_TYPE(TARGET, RELATION.inverseReferencedColumn),
+                            name: RELATION.inverseColumn,
+                            type: TO_REFERENCED_TYPE(TARGET, RELATION.inverseReferencedColumn),
+                        }, {
+                            attributes: [ `@relation(${toPrismaString(RELATION_NAME)}, fields: [${RELATION.column}], references: [${TO_FIELD_NAME(CTX, RELATION.referencedColumn)}])` ],
+                            name: ownerField,
+                            type: CTX.name,
+                        }, {
+                            attributes: [ `@relation(${toPrismaString(RELATION_NAME + '_inverse')}, fields: [${RELATION.inverseColumn}], references: [${TO_FIELD_NAME(TARGET, RELATION.inverseReferencedColumn)}])` ],
+                            name: targetField,
+                            type: TARGET.name,
+                        }],
+                    };
+
+                    MODEL.fields.push({
+                        attributes: [ `@relation(${toPrismaString(RELATION_NAME)})` ],
+                        name: R,
+                        type: `${JOIN_MODEL_NAME}[]`,
+                    });
+
+                    if (!HAS_INVERSE_SIDE) {
+                        // Prisma requires both sides
+                        TARGET_MODEL.fields.push({
+                            attributes: [ `@relation(${toPrismaString(RELATION_NAME + '_inverse')})` ],
+                            name: toBackRelationName(CTX.name, R),
+                            type: `${JOIN_MODEL_NAME}[]`,
+                        });
+                    }
+                }
+                else {
+                    MODEL.fields.push({
+                        attributes: [ `@relation(${toPrismaString(`${TARGET.name}_${RELATION.mappedBy}_inverse`)})` ],
+                        name: R,
+                        type: `${JOIN_MODEL_NAME}[]`,
+                    });
+                }
+            }
+            else if (IS_OWNING_SIDE) {
+                const RELATION_NAME = `${CTX.name}_${R}`;
+                const IS_ONE_TO_ONE = eb_lib_compiler.RELATION_ONE_TO_ONE === RELATION.type;
+
+                // the field of the join column
+                let joinField: PrismaField;
+                for (const F of MODEL.fields) {
+                    if (F.name === TO_FIELD_NAME(CTX, RELATION.column)) {
+                        joinField = F;
+                        break;
+                    }
+                }
+                if (!joinField) {
+                    joinField = {
+                        attributes: TO_REFERENCED_NATIVE_TYPE(TARGET, RELATION.referencedColumn),
+                        name: RELATION.column,
+                        type: TO_REFERENCED_TYPE(TARGET, RELATION.referencedColumn) + '?',
+                    };
+
+                    MODEL.fields.push(joinField);
+                }
+                if (IS_ONE_TO_ONE && joinField.attributes.indexOf('@id') < 0) {
+                    joinField.attributes.push('@unique');
+                }
+
+                const IS_OPTIONAL = joinField.type.endsWith('?');
+
+                MODEL.fields.push({
+                    attributes: [ `@relation(${toPrismaString(RELATION_NAME)}, fields: [${joinField.name}], references: [${TO_FIELD_NAME(TARGET, RELATION.referencedColumn)}])` ],
+                    name: R,
+                    type: TARGET.name + (IS_OPTIONAL ? '?' : ''),
+                });
+
+                if (!HAS_INVERSE_SIDE) {
+                    // Prisma requires both sides
+                    TARGET_MODEL.fields.push({
+                        attributes: [ `@relation(${toPrismaString(RELATION_NAME)})` ],
+                        name: toBackRelationName(CTX.name, R),
+                        type: CTX.name + (IS_ONE_TO_ONE ? '?' : '[]'),
+                    });
+                }
+            }
+            else {
+                MODEL.fields.push({
+                    attributes: [ `@relation(${toPrismaString(`${TARGET.name}_${RELATION.mappedBy}`)})` ],
+                    name: R,
+                    type: TARGET.name + (eb_lib_compiler.RELATION_ONE_TO_MANY === RELATION.type ? '[]' : '?'),
+                });
+            }
+        }
+    }
+
+    let schemaFile = `// AUTO GENERATED FILE
+//
+// Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+
+datasource db {
+  provider = ${toPrismaString(provider)}
+  url      = env("DATABASE_URL")
+}
+
+generator client {
+  provider = "prisma-client-js"
+}
+`;
+
+    for (const E of Object.keys(context.enums).sort()) {
+        if (!IS_STRING_ENUM(E)) {
+            // stored as 'Int'
+            continue;
+        }
+
+        const VALUES = context.enums[E].values;
+
+        schemaFile += `
+enum ${E} {
+${toAlignedLines(Object.keys(VALUES).map(c => {
+    return [ c, eb_lib_helpers.toStringSafe(VALUES[c]) === c ? '' : `@map(${toPrismaString(VALUES[c])})` ];
+}))}
+}
+`;
+    }
+
+    for (const M of Object.keys(MODELS).sort()) {
+        const MODEL = MODELS[M];
+
+        schemaFile += `
+model ${M} {
+${toAlignedLines(MODEL.fields.map(f => {
+    return [ f.name, f.type, f.attributes.join(' ') ];
+}))}
+${MODEL.attributes.length > 0 ? '\n' + MODEL.attributes.map(a => '  ' + a).join('\n') + '\n' : ''}}
+`;
+    }
+
+    await context.writeFile(SCHEMA_FILE_PATH, schemaFile);
+}
+
+
+function toAlignedLines(rows: string[][]): string {
+    const WIDTHS: number[] = [];
+    for (const R of rows) {
+        R.forEach((cell, i) => {
+            WIDTHS[i] = Math.max(WIDTHS[i] || 0, cell.length);
+        });
+    }
+
+    return rows.map(r => {
+        return '  ' + r.map((cell, i) => {
+            return i < r.length - 1 ? cell + ' '.repeat(WIDTHS[i] - cell.length)
+                                    : cell;
+        }).join(' ').trim();
+    }).join('\n');
+}
+
+function toBackRelationName(className: string, relation: string): string {
+    return toFirstLower(className) + eb_lib_naming.toPascalCase(relation);
+}
+
+function toFirstLower(name: string): string {
+    return name[0].toLowerCase() + name.substr(1);
+}
+
+function toPrismaLiteral(val: any, prismaType: string): string {
+    switch (prismaType) {
+        case 'Boolean':
+            return eb_lib_helpers.toBooleanSafe(val) ? 'true' : 'false';
+
+        case 'BigInt':
+        case 'Decimal':
+        case 'Float':
+        case 'Int':
+            return eb_lib_helpers.toStringSafe(val);
+    }
+
+    return toPrismaString(val);
+}
+
+function toPrismaString(val: any): string {
+    return JSON.stringify( eb_lib_helpers.toStringSafe(val) );
+}
@@ -0,0 +1,805 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_helpers from './helpers';
+import * as eb_lib_naming from './naming';
+import * as Enumerable from 'node-enumerable';
+import * as Path from 'path';
+
+
+/**
+ * A config file of the command line tool.
+ */
+export interface ConfigFile {
+    /**
+     * The URL or path of the JSON schema, which is used by editors.
+     */
+    readonly '$schema'?: string;
+    /**
+     * Build for Doctrine or not.
+     */
+    readonly doctrine?: boolean;
+    /**
+     * Build for Entity Framework or not.
+     */
+    readonly entityFramework?: boolean;
+    /**
+     * Build for Entity Framework Core or not.
+     */
+    readonly entityFrameworkCore?: boolean;
+    /**
+     * One or more entity files or glob patterns.
+     */
+    readonly inputFiles?: string | string[];
+    /**
+     * Skip unchanged classes by a manifest or not.
+     */
+    readonly manifest?: boolean;
+    /**
+     * The output directory.
+     */
+    readonly outDir?: string;
+    /**
+     * One or more plugins to load.
+     */
+    readonly plugins?: string | string[];
+    /**
+     * Build a Prisma schema or not.
+     */
+    readonly prisma?: boolean;
+    /**
+     * Build for Sequelize or not.
+     */
+    readonly sequelize?: boolean;
+    /**
+     * Build a SQL script or not.
+     */
+    readonly sql?: boolean;
+    /**
+     * One or more registered targets.
+     */
+    readonly targets?: string | string[];
+    /**
+     * Build for TypeORM or not.
+     */
+    readonly typeorm?: boolean;
+}
+
+/**
+ * A JSON path as list of keys and indexes.
+ */
+export type JsonPath = (string | number)[];
+
+/**
+ * A JSON schema (or a part of it).
+ */
+export type JsonSchema = { [keyword: string]: any };
+
+/**
+ * A value, which does not match a JSON schema.
+ */
+export interface SchemaError {
+    /**
+     * The message.
+     */
+    readonly message: string;
+    /**
+     * The path of the value.
+     */
+    readonly path: JsonPath;
+}
+
+
+/**
+ * The ID of the JSON schema of config files.
+ */
+export const CONFIG_FILE_SCHEMA_ID = 'https://raw.githubusercontent.com/mkloubert/node-entity-baker/master/schema/config-file.schema.json';
+/**
+ * The ID of the JSON schema of entity files.
+ */
+export const ENTITY_FILE_SCHEMA_ID = 'https://raw.githubusercontent.com/mkloubert/node-entity-baker/master/schema/entity-file.schema.json';
+/**
+ * The URL of the JSON schema dialect.
+ */
+export const JSON_SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+
+/**
+ * Returns the JSON schema of config files.
+ * 
+ * @return {JsonSchema} The schema.
+ */
+export function getConfigFileSchema(): JsonSchema {
+    const CONFIG_FILE: Record<keyof ConfigFile, JsonSchema> = {
+        '$schema': {
+            description: 'The URL or path of this schema.',
+            type: 'string',
+        },
+        doctrine: {
+            description: 'Build for Doctrine.',
+            type: 'boolean',
+        },
+        entityFramework: {
+            description: 'Build for Entity Framework.',
+            type: 'boolean',
+        },
+        entityFrameworkCore: {
+            description: 'Build for Entity Framework Core.',
+            type: 'boolean',
+        },
+        inputFiles: {
+            $ref: '#/$defs/stringOrList',
+            description: `One or more entity files or glob patterns. Default: '${eb_lib_compiler.DEFAULT_ENTITY_FILE}'`,
+        },
+        manifest: {
+            description: 'Skip unchanged classes by a manifest inside the output directory.',
+            type: 'boolean',
+        },
+        outDir: {
+            description: `The output directory. Default: './out'`,
+            type: 'string',
+        },
+        plugins: {
+            $ref: '#/$defs/stringOrList',
+            description: 'One or more plugins (npm packages or paths, relative to the config file).',
+        },
+        prisma: {
+            description: 'Build a Prisma schema.',
+            type: 'boolean',
+        },
+        sequelize: {
+            description: 'Build for Sequelize.',
+            type: 'boolean',
+        },
+        sql: {
+            description: `Build a SQL script with 'CREATE TABLE' statements.`,
+            type: 'boolean',
+        },
+        targets: {
+            $ref: '#/$defs/stringOrList',
+            description: 'One or more registered targets, like the ones of plugins.',
+        },
+        typeorm: {
+            description: 'Build for TypeORM.',
+            type: 'boolean',
+        },
+    };
+
+    return {
+        $schema: JSON_SCHEMA_DRAFT,
+        $id: CONFIG_FILE_SCHEMA_ID,
+        title: 'entity-baker config file',
+        type: 'object',
+        properties: CONFIG_FILE,
+        additionalProperties: false,
+        $defs: {
+            stringOrList: STRING_OR_LIST,
+        },
+    };
+}
+
+/**
+ * Returns the JSON schema of entity files.
+ * 
+ * @return {JsonSchema} The schema.
+ */
+export function getEntityFileSchema(): JsonSchema {
+    const COLUMN: Record<keyof eb_lib_compiler.EntityColumn, JsonSchema> = {
+        auto: {
+            description: 'Is auto generated value or not.',
+            type: 'boolean',
+        },
+        dbDefault: {
+            description: `A raw SQL expression, which is used as default value by the database, like 'CURRENT_TIMESTAMP'.`,
+            type: 'string',
+        },
+        dbName: {
+            description: 'The (custom) name of the underlying database column.',
+            type: 'string',
+        },
+        'default': {
+            description: 'A literal, which is used as initial / default value.',
+        },
+        'enum': {
+            description: 'The name of an enum, which is defined in the entity file (enum columns only).',
+            type: 'string',
+        },
+        id: {
+            description: 'Is ID value or not.',
+            type: 'boolean',
+        },
+        length: {
+            description: 'The maximum length.',
+            type: 'integer',
+            minimum: 0,
+        },
+        'null': {
+            description: 'Can be (null) or not.',
+            type: 'boolean',
+        },
+        order: {
+            description: 'The position inside a composite primary key.',
+            type: 'integer',
+            minimum: 0,
+        },
+        precision: {
+            description: 'The precision (number of digits) of a decimal value.',
+            type: 'integer',
+            minimum: 0,
+        },
+        renamedFrom: {
+            description: 'The name of the column in a previous version of the entity file (schema diffs only).',
+            type: 'string',
+        },
+        scale: {
+            description: 'The scale (number of digits after the decimal point) of a decimal value.',
+            type: 'integer',
+            minimum: 0,
+        },
+        type: {
+            $ref: '#/$defs/dataType',
+        },
+        unsigned: {
+            description: 'Is unsigned value or not.',
+            type: 'boolean',
+        },
+        values: {
+            $ref: '#/$defs/enumValues',
+        },
+    };
+
+    const ENTITY: Record<keyof eb_lib_compiler.EntityClass, JsonSchema> = {
+        columns: {
+            description: 'Table columns, by their names.',
+            type: 'object',
+            additionalProperties: {
+                anyOf: [
+                    { $ref: '#/$defs/dataType' },
+                    { $ref: '#/$defs/column' },
+                ],
+            },
+        },
+        indexes: {
+            $ref: '#/$defs/indexes',
+        },
+        relations: {
+            description: 'Relations to other entities, by their names.',
+            type: 'object',
+            additionalProperties: {
+                anyOf: [
+                    {
+                        description: 'The name of the target entity.',
+                        type: 'string',
+                    },
+                    { $ref: '#/$defs/relation' },
+                ],
+            },
+        },
+        renamedFrom: {
+            description: 'The name of the entity in a previous version of the entity file (schema diffs only).',
+            type: 'string',
+        },
+        table: {
+            description: 'The (custom) name of the underlying table.',
+            type: 'string',
+        },
+        uniqueConstraints: {
+            $ref: '#/$defs/indexes',
+        },
+    };
+
+    const ENTITY_ENUM: Record<keyof eb_lib_compiler.EntityEnum, JsonSchema> = {
+        type: toNameSchema('The data type of the values.', [
+            eb_lib_compiler.TYPE_INT, eb_lib_compiler.TYPE_STRING,
+        ]),
+        values: {
+            $ref: '#/$defs/enumValues',
+        },
+    };
+
+    const ENTITY_FILE: Record<keyof eb_lib_compiler.EntityFile, JsonSchema> = {
+        '$schema': {
+            description: 'The URL or path of this schema.',
+            type: 'string',
+        },
+        entities: {
+            description: 'Entity descriptions, by their names.',
+            type: 'object',
+            additionalProperties: {
+                $ref: '#/$defs/entity',
+            },
+        },
+        enums: {
+            description: 'Enums, which can be used by the columns of all entities.',
+            type: 'object',
+            additionalProperties: {
+                anyOf: [
+                    { $ref: '#/$defs/enumValues' },
+                    { $ref: '#/$defs/enum' },
+                ],
+            },
+        },
+        'namespace': {
+            description: 'The namespace for the classes to use.',
+            type: 'string',
+        },
+        naming: {
+            $ref: '#/$defs/naming',
+        },
+    };
+
+    const INDEX: Record<keyof eb_lib_compiler.EntityIndex, JsonSchema> = {
+        columns: {
+            $ref: '#/$defs/stringOrList',
+            description: 'One or more columns.',
+        },
+        name: {
+            description: 'The (custom) name.',
+            type: 'string',
+        },
+        unique: {
+            description: 'Is unique or not.',
+            type: 'boolean',
+        },
+        where: {
+            description: 'An optional SQL condition for a partial index.',
+            type: 'string',
+        },
+    };
+
+    const NAMING: Record<keyof eb_lib_naming.NamingStrategyOptions, JsonSchema> = {
+        classes: {
+            description: 'The case of class names.',
+            type: 'string',
+        },
+        columns: {
+            description: 'The case of database columns.',
+            type: 'string',
+        },
+        methods: {
+            description: 'The case of properties and method suffixes.',
+            type: 'string',
+        },
+        pluralize: {
+            description: 'Use plural of class names as table names or not.',
+            type: 'boolean',
+        },
+        tables: {
+            description: 'The case of table names.',
+            type: 'string',
+        },
+    };
+
+    const RELATION: Record<keyof eb_lib_compiler.EntityRelation, JsonSchema> = {
+        cascade: {
+            $ref: '#/$defs/stringOrList',
+            description: `One or more operations to cascade, like 'persist' or 'remove' (Doctrine and TypeORM only).`,
+        },
+        column: {
+            description: 'The name of the join column (owning side only).',
+            type: 'string',
+        },
+        fetch: toNameSchema('The fetch mode.', [
+            eb_lib_compiler.FETCH_EAGER, eb_lib_compiler.FETCH_EXTRA_LAZY, eb_lib_compiler.FETCH_LAZY,
+        ]),
+        inverseColumn: {
+            description: 'The name of the join column, which refers to the target entity (many-to-many only).',
+            type: 'string',
+        },
+        inverseReferencedColumn: {
+            description: 'The column of the target entity, the inverse join column refers to (many-to-many only).',
+            type: 'string',
+        },
+        inversedBy: {
+            description: 'The name of the relation of the target entity, which is the inverse side.',
+            type: 'string',
+        },
+        joinTable: {
+            description: 'The name of the join table (many-to-many only).',
+            type: 'string',
+        },
+        mappedBy: {
+            description: 'The name of the relation of the target entity, which is the owning side.',
+            type: 'string',
+        },
+        mappedByColumn: {
+            description: 'The join column of the owning side, which refers to the entity itself.',
+            type: 'string',
+        },
+        referencedColumn: {
+            description: 'The column of the target entity, the join column refers to.',
+            type: 'string',
+        },
+        target: {
+            description: 'The name of the target entity.',
+            type: 'string',
+        },
+        type: toNameSchema('The type / kind of the relation.', [
+            eb_lib_compiler.RELATION_MANY_TO_MANY, eb_lib_compiler.RELATION_MANY_TO_ONE,
+            eb_lib_compiler.RELATION_ONE_TO_MANY, eb_lib_compiler.RELATION_ONE_TO_ONE,
+        ]),
+    };
+
+    return {
+        $schema: JSON_SCHEMA_DRAFT,
+        $id: ENTITY_FILE_SCHEMA_ID,
+        title: 'entity-baker entity file',
+        type: 'object',
+        properties: ENTITY_FILE,
+        additionalProperties: false,
+        $defs: {
+            column: {
+                description: 'An entity column.',
+                type: 'object',
+                properties: COLUMN,
+                additionalProperties: false,
+            },
+            dataType: toNameSchema('The data type.', eb_lib_compiler.DATA_TYPES),
+            entity: {
+                description: 'An entity.',
+                type: 'object',
+                properties: ENTITY,
+                additionalProperties: false,
+            },
+            'enum': {
+                description: 'An enum.',
+                type: 'object',
+                properties: ENTITY_ENUM,
+                required: [ 'values' ],
+                additionalProperties: false,
+            },
+            enumValues: {
+                description: 'The values of an enum, either as list or as object with the case names as keys.',
+                anyOf: [
+                    {
+                        type: 'array',
+                        items: {
+                            type: [ 'string', 'number' ],
+                        },
+                    },
+                    {
+                        type: 'object',
+                        additionalProperties: {
+                            type: [ 'string', 'number' ],
+                        },
+                    },
+                ],
+            },
+            index: {
+                description: 'An index or a unique constraint.',
+                type: 'object',
+                properties: INDEX,
+                required: [ 'columns' ],
+                additionalProperties: false,
+            },
+            indexes: {
+                anyOf: [
+                    { $ref: '#/$defs/index' },
+                    {
+                        type: 'array',
+                        items: {
+                            $ref: '#/$defs/index',
+                        },
+                    },
+                ],
+            },
+            naming: {
+                description: `The naming strategy. Supported cases are '${eb_lib_naming.CASE_CAMEL}', '${eb_lib_naming.CASE_KEBAB}', '${eb_lib_naming.CASE_NONE}', '${eb_lib_naming.CASE_PASCAL}' and '${eb_lib_naming.CASE_SNAKE}'.`,
+                type: 'object',
+                properties: NAMING,
+                additionalProperties: false,
+            },
+            relation: {
+                description: 'A relation to another entity.',
+                type: 'object',
+                properties: RELATION,
+                additionalProperties: false,
+            },
+            stringOrList: STRING_OR_LIST,
+        },
+    };
+}
+
+/**
+ * Returns the contents of the schema files, which are shipped with the package.
+ * 
+ * @return {Object} The contents, by file names.
+ */
+export function getSchemaFiles(): { [fileName: string]: string } {
+    const FILES: { [fileName: string]: string } = {};
+    for (const S of [ getEntityFileSchema(), getConfigFileSchema() ]) {
+        FILES[ Path.basename(S.$id) ] = JSON.stringify(S, null, 4) + '\n';
+    }
+
+    return FILES;
+}
+
+/**
+ * Converts a JSON path to a string, like '$.entities.User.columns.id'.
+ * 
+ * @param {JsonPath} path The path.
+ * 
+ * @return {string} The path as string.
+ */
+export function toJsonPath(path: JsonPath): string {
+    return '$' + path.map(p => {
+        if (eb_lib_helpers.isNumber(p)) {
+            return `[${p}]`;
+        }
+
+        if (/^([a-z|A-Z|_][a-z|A-Z|0-9|_]*)$/.test(p)) {
+            return `.${p}`;
+        }
+
+        return `['${p.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+    }).join('');
+}
+
+/**
+ * Checks a value against a JSON schema.
+ * 
+ * Only the keywords, which are used by the schemas of this module, are supported:
+ * '$ref', 'additionalProperties', 'anyOf', 'enum', 'items', 'minimum', 'pattern', 'properties', 'required' and 'type'.
+ * 
+ * @param {any} value The value to check.
+ * @param {JsonSchema} schema The schema.
+ * 
+ * @return {SchemaError[]} The list of errors.
+ */
+export function validateSchema(value: any, schema: JsonSchema): SchemaError[] {
+    const ERRORS: SchemaError[] = [];
+
+    checkSchema(value, schema, schema, [], ERRORS);
+
+    return ERRORS;
+}
+
+/**
+ * Writes the JSON schemas of entity and config files to a directory.
+ * 
+ * @param {string} dir The directory.
+ */
+export async function writeSchemaFiles(dir: string) {
+    const FILES = getSchemaFiles();
+
+    for (const F in FILES) {
+        await eb_lib_helpers.writeFile(
+            Path.resolve(dir, F), FILES[F], 'utf8'
+        );
+    }
+}
+
+
+const STRING_OR_LIST: JsonSchema = {
+    anyOf: [
+        {
+            type: 'string',
+        },
+        {
+            type: 'array',
+            items: {
+                type: 'string',
+            },
+        },
+    ],
+};
+
+function checkSchema(value: any, schema: JsonSchema, root: JsonSchema, path: JsonPath, errors: SchemaError[]) {
+    if (!eb_lib_helpers.isObj<JsonSchema>(schema)) {
+        return;
+    }
+
+    if (eb_lib_helpers.isString(schema.$ref)) {
+        checkSchema(value, resolveSchema(schema, root), root, path, errors);
+    }
+
+    if (Array.isArray(schema.anyOf)) {
+        const RESULTS = (<JsonSchema[]>schema.anyOf).map(s => {
+            const SUB_ERRORS: SchemaError[] = [];
+            checkSchema(value, s, root, path, SUB_ERRORS);
+
+            return {
+                errors: SUB_ERRORS,
+                types: getTypesOf(resolveSchema(s, root)),
+            };
+        });
+
+        if (RESULTS.every(r => r.errors.length > 0)) {
+            // report the errors of the alternative with the matching type
+            const CANDIDATES = RESULTS.filter(r => {
+                return r.types.length < 1 ||
+                       matchesType(value, r.types);
+            }).sort((x, y) => {
+                return eb_lib_helpers.compareValuesBy(x, y, r => r.errors.length);
+            });
+
+            if (CANDIDATES.length > 0) {
+                eb_lib_helpers.pushMany(errors, CANDIDATES[0].errors);
+            }
+            else {
+                errors.push({
+                    message: `The value must be of type ${toTypeList(RESULTS.map(r => r.types))}!`,
+                    path: path,
+                });
+            }
+        }
+    }
+
+    if (!eb_lib_helpers.isNullOrUndefined(schema.type)) {
+        if (!matchesType(value, schema.type)) {
+            errors.push({
+                message: `The value must be of type ${toTypeList([ schema.type ])}!`,
+                path: path,
+            });
+
+            return;
+        }
+    }
+
+    if (Array.isArray(schema['enum'])) {
+        if ((<any[]>schema['enum']).indexOf(value) < 0) {
+            errors.push({
+                message: `The value '${eb_lib_helpers.toStringSafe(value)}' must be one of ${(<any[]>schema['enum']).map(v => `'${v}'`).join(', ')}!`,
+                path: path,
+            });
+        }
+    }
+
+    if (eb_lib_helpers.isString(schema.pattern) && eb_lib_helpers.isString(value)) {
+        if (!new RegExp(schema.pattern).test(value)) {
+            errors.push({
+                message: `The value '${value}' does not match the pattern '${schema.pattern}'!`,
+                path: path,
+            });
+        }
+    }
+
+    if (eb_lib_helpers.isNumber(schema.minimum) && eb_lib_helpers.isNumber(value)) {
+        if (value < schema.minimum) {
+            errors.push({
+                message: `The value must be greater than or equal to ${schema.minimum}!`,
+                path: path,
+            });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (eb_lib_helpers.isObj<JsonSchema>(schema.items)) {
+            value.forEach((item, index) => {
+                checkSchema(item, schema.items, root, path.concat(index), errors);
+            });
+        }
+    }
+    else if (eb_lib_helpers.isObj(value)) {
+        for (const R of eb_lib_helpers.asArray<string>(schema.required)) {
+            if (eb_lib_helpers.isNullOrUndefined(value[R])) {
+                errors.push({
+                    message: `The property '${R}' is missing!`,
+                    path: path,
+                });
+            }
+        }
+
+        const PROPERTIES: { [name: string]: JsonSchema } = schema.properties || {};
+        for (const P in value) {
+            if (PROPERTIES.hasOwnProperty(P)) {
+                checkSchema(value[P], PROPERTIES[P], root, path.concat(P), errors);
+            }
+            else if (false === schema.additionalProperties) {
+                errors.push({
+                    message: `The property '${P}' is not allowed!`,
+                    path: path.concat(P),
+                });
+            }
+            else if (eb_lib_helpers.isObj<JsonSchema>(schema.additionalProperties)) {
+                checkSchema(value[P], schema.additionalProperties, root, path.concat(P), errors);
+            }
+        }
+    }
+}
+
+function getTypesOf(schema: JsonSchema): string[] {
+    if (!eb_lib_helpers.isNullOrUndefined(schema.type)) {
+        return eb_lib_helpers.asArray<string>(schema.type);
+    }
+
+    if (Array.isArray(schema['enum'])) {
+        // the types of the allowed values
+        return eb_lib_helpers.distinctArray(
+            (<any[]>schema['enum']).map(v => typeof v)
+        );
+    }
+
+    return [];
+}
+
+function matchesType(value: any, type: string | string[]): boolean {
+    return eb_lib_helpers.asArray(type).some(t => {
+        switch (t) {
+            case 'array':
+                return Array.isArray(value);
+
+            case 'boolean':
+                return eb_lib_helpers.isBool(value);
+
+            case 'integer':
+                return eb_lib_helpers.isNumber(value) && value % 1 === 0;
+
+            case 'null':
+                return null === value;
+
+            case 'number':
+                return eb_lib_helpers.isNumber(value);
+
+            case 'object':
+                return eb_lib_helpers.isObj(value);
+
+            case 'string':
+                return eb_lib_helpers.isString(value);
+        }
+
+        return false;
+    });
+}
+
+function resolveSchema(schema: JsonSchema, root: JsonSchema): JsonSchema {
+    if (eb_lib_helpers.isObj<JsonSchema>(schema) && eb_lib_helpers.isString(schema.$ref)) {
+        const DEFINITION = root.$defs[ schema.$ref.replace(/^#\/\$defs\//, '') ];
+        if (!eb_lib_helpers.isObj<JsonSchema>(DEFINITION)) {
+            throw new Error(`The schema '${schema.$ref}' does not exist!`);
+        }
+
+        return DEFINITION;
+    }
+
+    return schema;
+}
+
+function toNameSchema(description: string, names: string[]): JsonSchema {
+    // the compiler ignores the case and surrounding whitespaces,
+    // and handles an empty string as default
+    const PATTERN = '^\\s*(' + names.map(n => {
+        return n.split('').map(c => {
+            if (c.toLowerCase() !== c.toUpperCase()) {
+                return `[${c.toLowerCase()}${c.toUpperCase()}]`;
+            }
+
+            return c.replace(/[\\^$.*+?()[\]{}|\-]/g, '\\$&');
+        }).join('');
+    }).join('|') + ')?\\s*$';
+
+    return {
+        description: description,
+        anyOf: [
+            {
+                'enum': names.map(n => n),
+            },
+            {
+                type: 'string',
+                pattern: PATTERN,
+            },
+        ],
+    };
+}
+
+function toTypeList(types: (string | string[])[]): string {
+    return eb_lib_helpers.distinctArray(
+        Enumerable.from(types).selectMany(t => eb_lib_helpers.asArray(t)).toArray()
+    ).map(t => `'${t}'`).join(' or ');
+}
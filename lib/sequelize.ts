@@ -0,0 +1,600 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_helpers from './helpers';
+import * as Path from 'path';
+
+
+/**
+ * Generates a model for Sequelize.
+ * 
+ * @param {GenerateClassContext} context
+ */
+export async function generateClassForSequelize(context: eb_lib_compiler.GenerateClassContext) {
+    const CLASS_NAME = context.name;
+    const dbTable = context.table;
+
+    let useTypeScript = false;
+    if (context.options.sequelize) {
+        useTypeScript = eb_lib_helpers.toBooleanSafe(context.options.sequelize.typescript);
+    }
+
+    const EXT = useTypeScript ? 'ts' : 'js';
+
+    const OUT_DIR = Path.resolve(
+        Path.join(context.outDir, 'models')
+    );
+
+    await context.output.mkdirs(OUT_DIR);
+
+    const CLASS_FILE_PATH = Path.resolve(
+        Path.join(OUT_DIR,
+                  `${CLASS_NAME}.${EXT}`)
+    );
+
+    const IS_AUTO = (col: string) => {
+        return eb_lib_helpers.toBooleanSafe(
+            context.columns[col].auto
+        );
+    };
+
+    const IS_ID = (col: string) => {
+        return eb_lib_helpers.toBooleanSafe(
+            context.columns[col].id
+        );
+    };
+
+    const CAN_BE_NULL = (col: string) => {
+        return eb_lib_helpers.toBooleanSafe(
+            context.columns[col]['null']
+        );
+    };
+
+    const TO_ENUM = (col: string) => {
+        return context.enums[ context.columns[col]['enum'] ];
+    };
+
+    const IS_STRING_ENUM = (col: string) => {
+        const ENUM = TO_ENUM(col);
+
+        return ENUM &&
+               eb_lib_compiler.TYPE_INT !== ENUM.type;
+    };
+
+    const TO_FIELD_NAME = (dbName: string) => {
+        for (const C of context.columnNames) {
+            if (eb_lib_compiler.getColumnDbName(C, context.columns[C]) === dbName) {
+                return C;
+            }
+        }
+
+        return dbName;
+    };
+
+    const TO_DATA_TYPE = (col: string): string => {
+        const COLUMN = context.columns[col];
+
+        let type = eb_lib_helpers.normalizeString( COLUMN.type );
+        let isNumeric = true;
+
+        switch (type) {
+            case eb_lib_compiler.TYPE_BIGINT:
+            case eb_lib_compiler.TYPE_INT64:
+                type = 'BIGINT';
+                break;
+
+            case eb_lib_compiler.TYPE_BIN:
+            case eb_lib_compiler.TYPE_BINARY:
+            case eb_lib_compiler.TYPE_BLOB:
+                type = 'BLOB';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_BOOL:
+            case eb_lib_compiler.TYPE_BOOLEAN:
+                type = 'BOOLEAN';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_DATE:
+                type = 'DATEONLY';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_DATETIME:
+            case eb_lib_compiler.TYPE_DATETIME_TZ:
+                type = 'DATE';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_DECIMAL:
+                type = 'DECIMAL';
+                if (!eb_lib_helpers.isNullOrUndefined(COLUMN.precision)) {
+                    type += `(${COLUMN.precision}${eb_lib_helpers.isNullOrUndefined(COLUMN.scale) ? '' : `, ${COLUMN.scale}`})`;
+                }
+                break;
+
+            case eb_lib_compiler.TYPE_ENUM:
+                if (IS_STRING_ENUM(col)) {
+                    const VALUES = TO_ENUM(col).values;
+
+                    type = `ENUM(${Object.keys(VALUES).map(c => toStringLiteral(VALUES[c])).join(', ')})`;
+                    isNumeric = false;
+                }
+                else {
+                    type = 'INTEGER';
+                }
+                break;
+
+            case eb_lib_compiler.TYPE_FLOAT:
+                type = 'FLOAT';
+                break;
+
+            case eb_lib_compiler.TYPE_GUID:
+            case eb_lib_compiler.TYPE_UUID:
+                type = 'UUID';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_INT:
+            case eb_lib_compiler.TYPE_INT32:
+            case eb_lib_compiler.TYPE_INTEGER:
+                type = 'INTEGER';
+                break;
+
+            case eb_lib_compiler.TYPE_INT16:
+            case eb_lib_compiler.TYPE_SMALLINT:
+                type = 'SMALLINT';
+                break;
+
+            case eb_lib_compiler.TYPE_JSON:
+                type = 'JSON';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_STR:
+            case eb_lib_compiler.TYPE_STRING:
+                type = 'STRING';
+                if (!eb_lib_helpers.isNullOrUndefined(COLUMN.length)) {
+                    type += `(${COLUMN.length})`;
+                }
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_TEXT:
+                type = 'TEXT';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_TIME:
+                type = 'TIME';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_UINT16:
+                type = 'SMALLINT.UNSIGNED';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_UINT32:
+                type = 'INTEGER.UNSIGNED';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE_UINT64:
+                type = 'BIGINT.UNSIGNED';
+                isNumeric = false;
+                break;
+
+            case eb_lib_compiler.TYPE__DEFAULT:
+                type = 'STRING';
+                isNumeric = false;
+                if (IS_ID(col)) {
+                    type = 'INTEGER';
+                    isNumeric = true;
+                }
+                break;
+
+            default:
+                throw new Error(`The data type '${type}' is not supported by Sequelize!`);
+        }
+
+        if (isNumeric && eb_lib_helpers.toBooleanSafe(COLUMN.unsigned)) {
+            type += '.UNSIGNED';
+        }
+
+        return `DataTypes.${type}`;
+    };
+
+    const TO_TS_TYPE = (col: string): string => {
+        if (TO_ENUM(col)) {
+            let enumType = 'number';
+            if (IS_STRING_ENUM(col)) {
+                const VALUES = TO_ENUM(col).values;
+
+                enumType = Object.keys(VALUES).map(c => toStringLiteral(VALUES[c])).join(' | ');
+            }
+
+            return enumType + (CAN_BE_NULL(col) ? ' | null' : '');
+        }
+
+        if (eb_lib_compiler.TYPE_DATE === eb_lib_helpers.normalizeString(context.columns[col].type)) {
+            // 'DATEONLY' values are strings
+            return 'string' + (CAN_BE_NULL(col) ? ' | null' : '');
+        }
+
+        return eb_lib_compiler.toTypeScriptType(
+            context.columns[col].type,
+            () => CAN_BE_NULL(col),
+            () => IS_ID(col),
+        );
+    };
+
+    let usesLiterals = false;
+
+    // attributes
+    let attributes = '';
+    for (const C of context.columnNames) {
+        const COLUMN = context.columns[C];
+        const DATA_TYPE = TO_DATA_TYPE(C);
+
+        const OPTIONS: string[] = [
+            `type: ${DATA_TYPE}`,
+        ];
+
+        if (IS_ID(C)) {
+            OPTIONS.push(`primaryKey: true`);
+        }
+
+        if (IS_AUTO(C)) {
+            if ('DataTypes.UUID' === DATA_TYPE) {
+                OPTIONS.push(`defaultValue: DataTypes.UUIDV4`);
+            }
+            else {
+                OPTIONS.push(`autoIncrement: true`);
+            }
+        }
+        else if (!eb_lib_helpers.isEmptyString(COLUMN.dbDefault)) {
+            OPTIONS.push(`defaultValue: literal(${toStringLiteral(COLUMN.dbDefault)})`);
+
+            usesLiterals = true;
+        }
+        else if (!eb_lib_helpers.isNullOrUndefined(COLUMN['default'])) {
+            let type = COLUMN.type;
+            if (TO_ENUM(C)) {
+                type = IS_STRING_ENUM(C) ? eb_lib_compiler.TYPE_STRING : eb_lib_compiler.TYPE_INT;
+            }
+
+            OPTIONS.push(`defaultValue: ${toJavaScriptLiteral(COLUMN['default'], type)}`);
+        }
+
+        OPTIONS.push(`allowNull: ${CAN_BE_NULL(C) && !IS_ID(C) ? 'true' : 'false'}`);
+
+        if (!eb_lib_helpers.isEmptyString(COLUMN.dbName)) {
+            OPTIONS.push(`field: ${toStringLiteral(COLUMN.dbName)}`);
+        }
+
+        attributes += `
+        ${C}: {
+            ${OPTIONS.join(`,
+            `)},
+        },`;
+    }
+
+    // indexes
+    let indexes = '';
+    for (const I of context.indexes) {
+        if (!eb_lib_helpers.isEmptyString(I.where)) {
+            context.warn(`The filter of index '${I.name}' is ignored, because it cannot be expressed as Sequelize 'where' object!`);
+        }
+
+        indexes += `
+            {
+                name: ${toStringLiteral(I.name)},${I.unique ? `
+                unique: true,` : ''}
+                fields: [ ${eb_lib_helpers.asArray(I.columns).map(c => {
+                    return toStringLiteral( eb_lib_compiler.getColumnDbName(c, context.columns[c]) );
+                }).join(', ')} ],
+            },`;
+    }
+
+    // associations
+    const TARGETS: string[] = [];
+    let associations = '';
+    let associationProperties = '';
+    for (const R of context.relationNames) {
+        const RELATION = context.relations[R];
+        const TARGET = RELATION.target;
+
+        if (TARGET !== CLASS_NAME) {
+            TARGETS.push(TARGET);
+        }
+
+        const OPTIONS: string[] = [
+            `as: ${toStringLiteral(R)}`,
+        ];
+
+        let method: string;
+        let propertyType: string;
+        switch (RELATION.type) {
+            case eb_lib_compiler.RELATION_MANY_TO_MANY:
+                method = 'belongsToMany';
+                propertyType = `${TARGET}[]`;
+
+                OPTIONS.push(`through: ${toStringLiteral(RELATION.joinTable)}`);
+                OPTIONS.push(`foreignKey: ${toStringLiteral(RELATION.column)}`);
+                OPTIONS.push(`otherKey: ${toStringLiteral(RELATION.inverseColumn)}`);
+                OPTIONS.push(`timestamps: false`);
+                break;
+
+            case eb_lib_compiler.RELATION_ONE_TO_MANY:
+                method = 'hasMany';
+                propertyType = `${TARGET}[]`;
+
+                OPTIONS.push(`foreignKey: ${toStringLiteral(RELATION.mappedByColumn)}`);
+                break;
+
+            default:
+                propertyType = `${TARGET} | null`;
+
+                if (eb_lib_helpers.isEmptyString(RELATION.mappedBy)) {
+                    // owning side
+                    method = 'belongsTo';
+
+                    OPTIONS.push(`foreignKey: ${toStringLiteral(TO_FIELD_NAME(RELATION.column))}`);
+                }
+                else {
+                    method = 'hasOne';
+
+                    OPTIONS.push(`foreignKey: ${toStringLiteral(RELATION.mappedByColumn)}`);
+                }
+                break;
+        }
+
+        associations += `
+        ${CLASS_NAME}.${method}(models.${TARGET}, { ${OPTIONS.join(', ')} });`;
+
+        associationProperties += `
+    /**
+     * The value of '${R}' relation.
+     */
+    declare ${R}?: ${propertyType};
+`;
+    }
+
+    let classFile = `/**
+ * AUTO GENERATED FILE
+ * 
+ * Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+ **/
+
+`;
+
+    const INIT_OPTIONS = `{${attributes}
+    }, {
+        sequelize,
+        modelName: ${toStringLiteral(CLASS_NAME)},
+        tableName: ${toStringLiteral(dbTable)},
+        timestamps: false,${'' === indexes ? '' : `
+        indexes: [${indexes}
+        ],`}
+    }`;
+
+    if (useTypeScript) {
+        let properties = '';
+        for (const C of context.columnNames) {
+            properties += `
+    /**
+     * The value of '${C}' column.
+     */
+    declare ${C}: ${TO_TS_TYPE(C)};
+`;
+        }
+
+        classFile += `import { DataTypes, Model, ModelStatic, Sequelize${usesLiterals ? ', literal' : ''} } from 'sequelize';
+`;
+        for (const T of eb_lib_helpers.distinctArray(TARGETS).sort()) {
+            classFile += `import { ${T} } from './${T}';
+`;
+        }
+
+        classFile += `
+
+/**
+ * An entity for '${dbTable}' table.
+ */
+export class ${CLASS_NAME} extends Model {${properties}${associationProperties}
+    /**
+     * Defines the associations of that model.
+     * 
+     * @param {Object} models All models, by name.
+     */
+    public static associate(models: { [name: string]: ModelStatic<any> }) {${associations}
+    }
+}
+
+/**
+ * Initializes the '${CLASS_NAME}' model.
+ * 
+ * @param {Sequelize} sequelize The Sequelize instance.
+ * 
+ * @return {typeof ${CLASS_NAME}} The model.
+ */
+export function init${CLASS_NAME}(sequelize: Sequelize): typeof ${CLASS_NAME} {
+    ${CLASS_NAME}.init(${INIT_OPTIONS});
+
+    return ${CLASS_NAME};
+}
+`;
+    }
+    else {
+        classFile += `'use strict';
+
+const { DataTypes, Model${usesLiterals ? ', literal' : ''} } = require('sequelize');
+
+
+/**
+ * An entity for '${dbTable}' table.
+ */
+class ${CLASS_NAME} extends Model {
+    /**
+     * Defines the associations of that model.
+     * 
+     * @param {Object} models All models, by name.
+     */
+    static associate(models) {${associations}
+    }
+}
+
+/**
+ * Initializes the '${CLASS_NAME}' model.
+ * 
+ * @param {Sequelize} sequelize The Sequelize instance.
+ * 
+ * @return {typeof ${CLASS_NAME}} The model.
+ */
+function init${CLASS_NAME}(sequelize) {
+    ${CLASS_NAME}.init(${INIT_OPTIONS});
+
+    return ${CLASS_NAME};
+}
+
+module.exports = {
+    ${CLASS_NAME},
+    init${CLASS_NAME},
+};
+`;
+    }
+
+    await context.writeFile(CLASS_FILE_PATH, classFile);
+}
+
+/**
+ * Generates the index of all models of an entity file for Sequelize.
+ * 
+ * @param {GenerateFileContext} context
+ */
+export async function generateFileForSequelize(context: eb_lib_compiler.GenerateFileContext) {
+    let useTypeScript = false;
+    if (context.options.sequelize) {
+        useTypeScript = eb_lib_helpers.toBooleanSafe(context.options.sequelize.typescript);
+    }
+
+    const EXT = useTypeScript ? 'ts' : 'js';
+
+    const OUT_DIR = Path.resolve(
+        Path.join(context.outDir, 'models')
+    );
+
+    await context.output.mkdirs(OUT_DIR);
+
+    const INDEX_FILE_PATH = Path.resolve(
+        Path.join(OUT_DIR,
+                  `index.${EXT}`)
+    );
+
+    const CLASS_NAMES = context.classes.map(c => c.name);
+
+    let indexFile = `/**
+ * AUTO GENERATED FILE
+ * 
+ * Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+ **/
+
+`;
+
+    const INIT_MODELS = `
+    const models = {
+${CLASS_NAMES.map(cn => `        ${cn}: init${cn}(sequelize),`).join('\n')}
+    };
+
+${CLASS_NAMES.map(cn => `    ${cn}.associate(models);`).join('\n')}
+
+    return models;`;
+
+    if (useTypeScript) {
+        indexFile += `import { Sequelize } from 'sequelize';
+${CLASS_NAMES.map(cn => `import { ${cn}, init${cn} } from './${cn}';`).join('\n')}
+
+${CLASS_NAMES.map(cn => `export * from './${cn}';`).join('\n')}
+
+
+/**
+ * Initializes all models and their associations.
+ * 
+ * @param {Sequelize} sequelize The Sequelize instance.
+ * 
+ * @return {Object} The models, by name.
+ */
+export function initModels(sequelize: Sequelize) {${INIT_MODELS}
+}
+`;
+    }
+    else {
+        indexFile += `'use strict';
+
+${CLASS_NAMES.map(cn => `const { ${cn}, init${cn} } = require('./${cn}');`).join('\n')}
+
+
+/**
+ * Initializes all models and their associations.
+ * 
+ * @param {Sequelize} sequelize The Sequelize instance.
+ * 
+ * @return {Object} The models, by name.
+ */
+function initModels(sequelize) {${INIT_MODELS}
+}
+
+module.exports = {
+${CLASS_NAMES.map(cn => `    ${cn},`).join('\n')}
+    initModels,
+};
+`;
+    }
+
+    await context.writeFile(INDEX_FILE_PATH, indexFile);
+}
+
+
+function toJavaScriptLiteral(val: any, type: string): string {
+    switch (eb_lib_helpers.normalizeString(type)) {
+        case eb_lib_compiler.TYPE_BOOL:
+        case eb_lib_compiler.TYPE_BOOLEAN:
+            return eb_lib_helpers.toBooleanSafe(val) ? 'true' : 'false';
+
+        case eb_lib_compiler.TYPE_FLOAT:
+        case eb_lib_compiler.TYPE_INT:
+        case eb_lib_compiler.TYPE_INT16:
+        case eb_lib_compiler.TYPE_INT32:
+        case eb_lib_compiler.TYPE_INTEGER:
+        case eb_lib_compiler.TYPE_SMALLINT:
+        case eb_lib_compiler.TYPE_UINT16:
+        case eb_lib_compiler.TYPE_UINT32:
+            return eb_lib_helpers.toStringSafe(val);
+    }
+
+    return toStringLiteral(val);
+}
+
+function toStringLiteral(val: any): string {
+    return `'${eb_lib_helpers.toStringSafe(val).replace(/\\/g, '\\\\')
+                                               .replace(/'/g, "\\'")
+                                               .replace(/\r/g, '\\r')
+                                               .replace(/\n/g, '\\n')}'`;
+}
@@ -0,0 +1,410 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_helpers from './helpers';
+import * as Enumerable from 'node-enumerable';
+import * as Path from 'path';
+
+
+interface SqlColumn {
+    definition: string;
+    name: string;
+}
+
+
+/**
+ * Generates a SQL script with 'CREATE TABLE' statements for all entities of an entity file.
+ * 
+ * @param {GenerateFileContext} context
+ */
+export async function generateFileForSql(context: eb_lib_compiler.GenerateFileContext) {
+    const OUT_DIR = Path.resolve(context.outDir);
+
+    await context.output.mkdirs(OUT_DIR);
+
+    const SCRIPT_FILE_PATH = Path.resolve(
+        Path.join(OUT_DIR,
+                  'schema.sql')
+    );
+
+    const DIALECT = toSqlDialect(context.options.sql ? context.options.sql.dialect : undefined);
+
+    const CLASSES: { [name: string]: eb_lib_compiler.GenerateClassContext } = {};
+    for (const CTX of context.classes) {
+        CLASSES[ CTX.name ] = CTX;
+    }
+
+    let script = `-- AUTO GENERATED FILE
+--
+-- Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+-- Dialect: ${DIALECT}
+`;
+
+    const JOIN_TABLES: string[] = [];
+    for (const CTX of context.classes) {
+        script += toCreateTableSql(CTX, DIALECT, CLASSES, JOIN_TABLES);
+    }
+
+    await context.writeFile(SCRIPT_FILE_PATH, script);
+}
+
+/**
+ * Quotes the name of a table, column or index.
+ * 
+ * @param {string} name The name.
+ * @param {string} dialect The SQL dialect.
+ * 
+ * @return {string} The quoted name.
+ */
+export function quoteSqlName(name: string, dialect: string): string {
+    switch (dialect) {
+        case eb_lib_compiler.SQL_DIALECT_MSSQL:
+            return `[${name.replace(/\]/g, ']]')}]`;
+
+        case eb_lib_compiler.SQL_DIALECT_MYSQL:
+            return `\`${name.replace(/`/g, '``')}\``;
+    }
+
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Returns the 'CREATE TABLE' statement of a class, including its indexes
+ * and the join tables of its many-to-many relations.
+ * 
+ * @param {GenerateClassContext} ctx The context of the class.
+ * @param {string} dialect The SQL dialect.
+ * @param {Object} classes The contexts of all classes of the entity file, by class name.
+ * @param {string[]} joinTables The join tables, which have already been created.
+ * 
+ * @return {string} The SQL.
+ */
+export function toCreateTableSql(
+    ctx: eb_lib_compiler.GenerateClassContext,
+    dialect: string,
+    classes: { [name: string]: eb_lib_compiler.GenerateClassContext },
+    joinTables: string[],
+): string {
+    const QUOTE = (name: string) => {
+        return quoteSqlName(name, dialect);
+    };
+
+    let sql = '';
+
+    // IDs first
+    const COLUMNS_FOR_SQL = Enumerable.from( ctx.columnNames ).orderBy(cn => {
+        return eb_lib_helpers.toBooleanSafe(ctx.columns[cn].id) ? 0 : 1;
+    }).thenBy(cn => {
+        return ctx.idColumnNames.indexOf(cn);
+    }).thenBy(cn => {
+        return eb_lib_helpers.normalizeString(cn);
+    }).toArray();
+
+    const COLUMNS: SqlColumn[] = COLUMNS_FOR_SQL.map(c => {
+        return {
+            definition: toSqlColumnDefinition(ctx, c, dialect),
+            name: eb_lib_compiler.getColumnDbName(c, ctx.columns[c]),
+        };
+    });
+
+    for (const R of ctx.relationNames) {
+        const RELATION = ctx.relations[R];
+        const TARGET = classes[ RELATION.target ];
+
+        if (eb_lib_compiler.RELATION_MANY_TO_MANY === RELATION.type) {
+            if (!eb_lib_helpers.isEmptyString(RELATION.mappedBy)) {
+                continue;  // defined by owning side
+            }
+
+            if (joinTables.indexOf(RELATION.joinTable) > -1) {
+                continue;
+            }
+            joinTables.push(RELATION.joinTable);
+
+            const JOIN_COLUMNS = [
+                RELATION.column, RELATION.inverseColumn
+            ];
+
+            sql += `
+CREATE TABLE ${QUOTE(RELATION.joinTable)} (
+    ${QUOTE(RELATION.column)} ${toReferencedSqlType(ctx, RELATION.referencedColumn, dialect)} NOT NULL,
+    ${QUOTE(RELATION.inverseColumn)} ${toReferencedSqlType(TARGET, RELATION.inverseReferencedColumn, dialect)} NOT NULL,
+    PRIMARY KEY (${JOIN_COLUMNS.map(c => QUOTE(c)).join(', ')})
+);
+`;
+        }
+        else if (!eb_lib_helpers.isEmptyString(RELATION.column)) {
+            if (COLUMNS.some(c => c.name === RELATION.column)) {
+                continue;  // already defined
+            }
+
+            // join column, which is not defined in 'columns'
+            COLUMNS.push({
+                definition: toReferencedSqlType(TARGET, RELATION.referencedColumn, dialect),
+                name: RELATION.column,
+            });
+        }
+    }
+
+    const LINES = COLUMNS.map(c => {
+        return `${QUOTE(c.name)} ${c.definition}`;
+    });
+
+    if (ctx.idColumnNames.length > 0 && !isInlinePrimaryKey(ctx, dialect)) {
+        LINES.push(`PRIMARY KEY (${ctx.idColumnNames.map(c => {
+            return QUOTE( eb_lib_compiler.getColumnDbName(c, ctx.columns[c]) );
+        }).join(', ')})`);
+    }
+
+    sql += `
+CREATE TABLE ${QUOTE(ctx.table)} (
+${LINES.map(l => '    ' + l).join(',\n')}
+);
+`;
+
+    for (const I of ctx.indexes) {
+        let where = '';
+        if (!eb_lib_helpers.isEmptyString(I.where)) {
+            if (eb_lib_compiler.SQL_DIALECT_MYSQL !== dialect) {
+                where = ` WHERE ${I.where}`;
+            }
+            else {
+                ctx.warn(`The filter of index '${I.name}' is ignored, because partial indexes are not supported by MySQL!`);
+            }
+        }
+
+        sql += `
+CREATE ${I.unique ? 'UNIQUE ' : ''}INDEX ${QUOTE(I.name)} ON ${QUOTE(ctx.table)} (${eb_lib_helpers.asArray(I.columns).map(c => {
+    return QUOTE( eb_lib_compiler.getColumnDbName(c, ctx.columns[c]) );
+}).join(', ')})${where};
+`;
+    }
+
+    return sql;
+}
+
+/**
+ * Returns the default value of a column as SQL expression, like '0' or 'CURRENT_TIMESTAMP'.
+ * The values of auto columns are ignored, because they are generated by the database.
+ * 
+ * @param {GenerateClassContext} ctx The context of the class.
+ * @param {string} col The name of the column.
+ * @param {string} dialect The SQL dialect.
+ * 
+ * @return {string} The expression or (undefined) if there is no default value.
+ */
+export function toSqlColumnDefault(ctx: eb_lib_compiler.GenerateClassContext, col: string, dialect: string): string {
+    const COLUMN = ctx.columns[col];
+
+    if (eb_lib_helpers.toBooleanSafe(COLUMN.auto)) {
+        return undefined;
+    }
+
+    if (!eb_lib_helpers.isEmptyString(COLUMN.dbDefault)) {
+        return eb_lib_helpers.toStringSafe(COLUMN.dbDefault);
+    }
+
+    if (!eb_lib_helpers.isNullOrUndefined(COLUMN['default'])) {
+        return toSqlLiteral(COLUMN['default'], toSqlColumnType(ctx, col, dialect), dialect);
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the definition of a column, like 'VARCHAR(255) NOT NULL', without its name.
+ * 
+ * @param {GenerateClassContext} ctx The context of the class.
+ * @param {string} col The name of the column.
+ * @param {string} dialect The SQL dialect.
+ * 
+ * @return {string} The definition.
+ */
+export function toSqlColumnDefinition(ctx: eb_lib_compiler.GenerateClassContext, col: string, dialect: string): string {
+    const COLUMN = ctx.columns[col];
+    const DB_NAME = eb_lib_compiler.getColumnDbName(col, COLUMN);
+
+    let sqlType = toSqlColumnType(ctx, col, dialect);
+    let definition = '';
+
+    if (eb_lib_helpers.toBooleanSafe(COLUMN.auto)) {
+        switch (sqlType) {
+            case 'CHAR(36)':
+            case 'TEXT':
+            case 'UNIQUEIDENTIFIER':
+            case 'UUID':
+                switch (dialect) {
+                    case eb_lib_compiler.SQL_DIALECT_MSSQL:
+                        definition += ' DEFAULT NEWID()';
+                        break;
+
+                    case eb_lib_compiler.SQL_DIALECT_MYSQL:
+                        definition += ' DEFAULT (UUID())';
+                        break;
+
+                    case eb_lib_compiler.SQL_DIALECT_POSTGRES:
+                        definition += ' DEFAULT gen_random_uuid()';
+                        break;
+                }
+                break;
+
+            default:
+                switch (dialect) {
+                    case eb_lib_compiler.SQL_DIALECT_MSSQL:
+                        definition += ' IDENTITY(1,1)';
+                        break;
+
+                    case eb_lib_compiler.SQL_DIALECT_MYSQL:
+                        definition += ' AUTO_INCREMENT';
+                        break;
+
+                    case eb_lib_compiler.SQL_DIALECT_POSTGRES:
+                        switch (sqlType) {
+                            case 'BIGINT':
+                                sqlType = 'BIGSERIAL';
+                                break;
+
+                            case 'SMALLINT':
+                                sqlType = 'SMALLSERIAL';
+                                break;
+
+                            default:
+                                sqlType = 'SERIAL';
+                                break;
+                        }
+                        break;
+
+                    case eb_lib_compiler.SQL_DIALECT_SQLITE:
+                        // only 'INTEGER PRIMARY KEY' columns
+                        // can be auto incremented
+                        if (isInlinePrimaryKey(ctx, dialect)) {
+                            sqlType = 'INTEGER';
+                            definition += ' PRIMARY KEY AUTOINCREMENT';
+                        }
+                        break;
+                }
+                break;
+        }
+    }
+    else {
+        const DEFAULT_VALUE = toSqlColumnDefault(ctx, col, dialect);
+        if (!eb_lib_helpers.isNullOrUndefined(DEFAULT_VALUE)) {
+            definition += ` DEFAULT ${DEFAULT_VALUE}`;
+        }
+    }
+
+    if (!eb_lib_helpers.toBooleanSafe(COLUMN['null']) || eb_lib_helpers.toBooleanSafe(COLUMN.id)) {
+        definition += ' NOT NULL';
+    }
+
+    const ENUM = ctx.enums[ COLUMN['enum'] ];
+    if (ENUM) {
+        definition += ` CHECK (${quoteSqlName(DB_NAME, dialect)} IN (${Object.keys(ENUM.values).map(c => {
+            return toSqlLiteral(ENUM.values[c], sqlType, dialect);
+        }).join(', ')}))`;
+    }
+
+    return sqlType + definition;
+}
+
+/**
+ * Returns the SQL type of a column, like 'VARCHAR(255)'.
+ * 
+ * @param {GenerateClassContext} ctx The context of the class.
+ * @param {string} col The name of the column.
+ * @param {string} dialect The SQL dialect.
+ * 
+ * @return {string} The SQL type.
+ */
+export function toSqlColumnType(ctx: eb_lib_compiler.GenerateClassContext, col: string, dialect: string): string {
+    const COLUMN = ctx.columns[col];
+
+    const ENUM = ctx.enums[ COLUMN['enum'] ];
+    if (ENUM) {
+        if (eb_lib_compiler.TYPE_INT === ENUM.type) {
+            return eb_lib_compiler.toSqlType(eb_lib_compiler.TYPE_INT, dialect, () => false);
+        }
+
+        const VALUES = Object.keys(ENUM.values).map(c => {
+            return eb_lib_helpers.toStringSafe(ENUM.values[c]);
+        });
+
+        return eb_lib_compiler.toSqlType(eb_lib_compiler.TYPE_STRING, dialect, () => false, {
+            length: Math.max.apply(null, VALUES.map(v => v.length)),
+        });
+    }
+
+    return eb_lib_compiler.toSqlType(COLUMN.type, dialect, () => {
+        return eb_lib_helpers.toBooleanSafe(COLUMN.id);
+    }, COLUMN);
+}
+
+/**
+ * Normalizes the name of a SQL dialect.
+ * 
+ * @param {any} dialect The dialect.
+ * 
+ * @return {string} The normalized dialect, which is 'postgres' by default.
+ */
+export function toSqlDialect(dialect: any): string {
+    dialect = eb_lib_helpers.normalizeString(dialect);
+    if ('' === dialect) {
+        dialect = eb_lib_compiler.SQL_DIALECT_POSTGRES;
+    }
+
+    if (!eb_lib_compiler.SQL_TYPES[dialect]) {
+        throw new Error(`The SQL dialect '${dialect}' is not supported!`);
+    }
+
+    return dialect;
+}
+
+function isInlinePrimaryKey(ctx: eb_lib_compiler.GenerateClassContext, dialect: string) {
+    return eb_lib_compiler.SQL_DIALECT_SQLITE === dialect &&
+           1 === ctx.idColumnNames.length &&
+           eb_lib_helpers.toBooleanSafe(ctx.columns[ ctx.idColumnNames[0] ].auto);
+}
+
+// the SQL type of a column, which is referenced
+// by a join column, without auto generation
+function toReferencedSqlType(ctx: eb_lib_compiler.GenerateClassContext, dbName: string, dialect: string) {
+    for (const C of ctx.columnNames) {
+        if (eb_lib_compiler.getColumnDbName(C, ctx.columns[C]) === dbName) {
+            return toSqlColumnType(ctx, C, dialect);
+        }
+    }
+
+    return eb_lib_compiler.toSqlType(eb_lib_compiler.TYPE_INT, dialect, () => true);
+}
+
+function toSqlLiteral(val: any, sqlType: string, dialect: string) {
+    switch (sqlType) {
+        case 'BIT':
+        case 'BOOLEAN':
+            if (eb_lib_helpers.toBooleanSafe(val)) {
+                return eb_lib_compiler.SQL_DIALECT_POSTGRES === dialect ? 'TRUE' : '1';
+            }
+            return eb_lib_compiler.SQL_DIALECT_POSTGRES === dialect ? 'FALSE' : '0';
+    }
+
+    if (eb_lib_helpers.isNumber(val)) {
+        return eb_lib_helpers.toStringSafe(val);
+    }
+
+    return `'${eb_lib_helpers.toStringSafe(val).replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,316 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_helpers from './helpers';
+import * as eb_lib_import from './import';
+import * as Path from 'path';
+import * as SQLite from 'sqlite3';
+
+
+interface SqliteColumnInfo {
+    cid: number;
+    dflt_value: string;
+    name: string;
+    notnull: number;
+    pk: number;
+    type: string;
+}
+
+interface SqliteIndexColumnInfo {
+    cid: number;
+    name: string;
+    seqno: number;
+}
+
+interface SqliteIndexInfo {
+    name: string;
+    origin: string;
+    partial: number;
+    seq: number;
+    unique: number;
+}
+
+interface SqliteObject {
+    name: string;
+    sql: string;
+    type: string;
+}
+
+
+/**
+ * Reads the tables of a SQLite database file.
+ * 
+ * @param {ImportContext} context The context with the path of the database file as source.
+ * 
+ * @return {Promise<ImportedTable[]>} The promise with the tables.
+ */
+export async function importFromSqlite(context: eb_lib_import.ImportContext): Promise<eb_lib_import.ImportedTable[]> {
+    let file = eb_lib_helpers.toStringSafe(context.source);
+    if (eb_lib_helpers.isEmptyString(file)) {
+        throw new Error(`No SQLite database file defined!`);
+    }
+    if (!Path.isAbsolute(file)) {
+        file = Path.join(process.cwd(), file);
+    }
+    file = Path.resolve(file);
+
+    if (!(await eb_lib_helpers.exists(file))) {
+        throw new Error(`The SQLite database file '${file}' does not exist!`);
+    }
+
+    // load the native module, only if needed
+    let sqlite: typeof SQLite;
+    try {
+        sqlite = require('sqlite3');
+    }
+    catch (e) {
+        throw new Error(`The 'sqlite3' module is not installed: '${eb_lib_helpers.toStringSafe(e)}'`);
+    }
+
+    const DB = await new Promise<SQLite.Database>((resolve, reject) => {
+        const CONNECTION = new sqlite.Database(file, sqlite.OPEN_READONLY, (err) => {
+            if (err) {
+                reject(err);
+            }
+            else {
+                resolve(CONNECTION);
+            }
+        });
+    });
+
+    const QUERY = <T>(sql: string) => {
+        return new Promise<T[]>((resolve, reject) => {
+            DB.all(sql, (err: any, rows: T[]) => {
+                if (err) {
+                    reject(err);
+                }
+                else {
+                    resolve(rows);
+                }
+            });
+        });
+    };
+
+    try {
+        const OBJECTS = await QUERY<SqliteObject>(`SELECT type, name, sql FROM sqlite_master WHERE type IN ('table', 'index') AND name NOT LIKE 'sqlite_%' ORDER BY name`);
+
+        const TABLES: eb_lib_import.ImportedTable[] = [];
+        for (const O of OBJECTS.filter(o => 'table' === o.type)) {
+            const COLUMN_INFOS = await QUERY<SqliteColumnInfo>(`PRAGMA table_info(${toSqlString(O.name)})`);
+
+            const ID_COLUMNS = COLUMN_INFOS.filter(c => c.pk > 0);
+
+            const COLUMNS = COLUMN_INFOS.sort((x, y) => {
+                return eb_lib_helpers.compareValues(x.cid, y.cid);
+            }).map(c => {
+                const TYPE = toEntityType(c.type, c.pk > 0);
+
+                let auto = false;
+                if (1 === ID_COLUMNS.length && c.pk > 0) {
+                    // 'INTEGER PRIMARY KEY' is an alias for the row ID
+                    auto = 'INTEGER' === eb_lib_helpers.toStringSafe(c.type).trim().toUpperCase();
+                }
+
+                return <eb_lib_import.ImportedColumn>Object.assign(TYPE, {
+                    auto: auto,
+                    dbDefault: eb_lib_helpers.isNullOrUndefined(c.dflt_value) ? undefined : eb_lib_helpers.toStringSafe(c.dflt_value),
+                    id: c.pk > 0,
+                    name: c.name,
+                    'null': !c.notnull,
+                    order: c.pk > 0 ? (c.pk - 1) : undefined,
+                });
+            });
+
+            const INDEXES: eb_lib_import.ImportedIndex[] = [];
+            for (const I of await QUERY<SqliteIndexInfo>(`PRAGMA index_list(${toSqlString(O.name)})`)) {
+                if ('pk' === I.origin) {
+                    continue;  // primary key
+                }
+
+                const INDEX_COLUMNS = await QUERY<SqliteIndexColumnInfo>(`PRAGMA index_info(${toSqlString(I.name)})`);
+                if (INDEX_COLUMNS.some(c => c.cid < 0)) {
+                    continue;  // indexes on expressions are not supported
+                }
+
+                let where: string;
+                if (I.partial) {
+                    const INDEX_OBJECT = OBJECTS.filter(o => 'index' === o.type && o.name === I.name)[0];
+                    if (INDEX_OBJECT) {
+                        const MATCH = /\bWHERE\b([\s\S]+)$/i.exec(eb_lib_helpers.toStringSafe(INDEX_OBJECT.sql));
+                        if (MATCH) {
+                            where = MATCH[1].trim();
+                        }
+                    }
+                }
+
+                INDEXES.push({
+                    columns: INDEX_COLUMNS.sort((x, y) => {
+                        return eb_lib_helpers.compareValues(x.seqno, y.seqno);
+                    }).map(c => c.name),
+                    name: I.name,
+                    unique: !!I.unique,
+                    where: where,
+                });
+            }
+
+            TABLES.push({
+                columns: COLUMNS,
+                indexes: INDEXES.sort((x, y) => {
+                    return eb_lib_helpers.compareValuesBy(x, y, i => {
+                        return eb_lib_helpers.normalizeString(i.name);
+                    });
+                }),
+                name: O.name,
+            });
+        }
+
+        return TABLES;
+    }
+    finally {
+        DB.close();
+    }
+}
+
+
+// maps a declared SQLite type, like 'VARCHAR(255)',
+// to a data type of an entity file
+function toEntityType(declaredType: string, isID: boolean) {
+    const RESULT: {
+        length?: number;
+        precision?: number;
+        scale?: number;
+        type: string;
+        unsigned?: boolean;
+    } = {
+        type: eb_lib_compiler.TYPE_STRING,
+    };
+
+    declaredType = eb_lib_helpers.toStringSafe(declaredType).trim().toUpperCase();
+
+    const MATCH = /^([^\(]*)(\(\s*(\d+)\s*(,\s*(\d+)\s*)?\))?/.exec(declaredType);
+    const NAME = MATCH[1].trim();
+    const SIZE = eb_lib_helpers.isEmptyString(MATCH[3]) ? undefined : parseInt(MATCH[3]);
+    const SCALE = eb_lib_helpers.isEmptyString(MATCH[5]) ? undefined : parseInt(MATCH[5]);
+
+    if (NAME.indexOf('UNSIGNED') > -1) {
+        RESULT.unsigned = true;
+    }
+
+    switch (NAME.replace(/\s*UNSIGNED\s*/g, ' ').trim()) {
+        case 'BIGINT':
+        case 'INT8':
+            RESULT.type = eb_lib_compiler.TYPE_BIGINT;
+            break;
+
+        case 'BLOB':
+        case 'BINARY':
+        case 'VARBINARY':
+            RESULT.type = eb_lib_compiler.TYPE_BLOB;
+            break;
+
+        case 'BOOL':
+        case 'BOOLEAN':
+            RESULT.type = eb_lib_compiler.TYPE_BOOL;
+            break;
+
+        case 'DATE':
+            RESULT.type = eb_lib_compiler.TYPE_DATE;
+            break;
+
+        case 'DATETIME':
+        case 'TIMESTAMP':
+            RESULT.type = eb_lib_compiler.TYPE_DATETIME;
+            break;
+
+        case 'DECIMAL':
+        case 'NUMERIC':
+            RESULT.type = eb_lib_compiler.TYPE_DECIMAL;
+            RESULT.precision = SIZE;
+            RESULT.scale = SCALE;
+            break;
+
+        case 'DOUBLE':
+        case 'DOUBLE PRECISION':
+        case 'FLOAT':
+        case 'REAL':
+            RESULT.type = eb_lib_compiler.TYPE_FLOAT;
+            break;
+
+        case 'GUID':
+        case 'UNIQUEIDENTIFIER':
+        case 'UUID':
+            RESULT.type = eb_lib_compiler.TYPE_UUID;
+            break;
+
+        case 'INT':
+        case 'INTEGER':
+        case 'MEDIUMINT':
+            RESULT.type = eb_lib_compiler.TYPE_INT;
+            break;
+
+        case 'JSON':
+            RESULT.type = eb_lib_compiler.TYPE_JSON;
+            break;
+
+        case 'INT2':
+        case 'SMALLINT':
+        case 'TINYINT':
+            RESULT.type = eb_lib_compiler.TYPE_SMALLINT;
+            break;
+
+        case 'CLOB':
+        case 'TEXT':
+            RESULT.type = eb_lib_compiler.TYPE_TEXT;
+            break;
+
+        case 'TIME':
+            RESULT.type = eb_lib_compiler.TYPE_TIME;
+            break;
+
+        default:
+            // s. 'Determination Of Column Affinity'
+            // https://www.sqlite.org/datatype3.html
+            if (NAME.indexOf('INT') > -1) {
+                RESULT.type = eb_lib_compiler.TYPE_INT;
+            }
+            else if (NAME.indexOf('CHAR') > -1 || NAME.indexOf('CLOB') > -1 || NAME.indexOf('TEXT') > -1) {
+                RESULT.type = eb_lib_compiler.TYPE_STRING;
+                RESULT.length = SIZE;
+            }
+            else if ('' === NAME) {
+                RESULT.type = isID ? eb_lib_compiler.TYPE_INT : eb_lib_compiler.TYPE_BLOB;
+            }
+            else if (NAME.indexOf('BLOB') > -1) {
+                RESULT.type = eb_lib_compiler.TYPE_BLOB;
+            }
+            else if (NAME.indexOf('REAL') > -1 || NAME.indexOf('FLOA') > -1 || NAME.indexOf('DOUB') > -1) {
+                RESULT.type = eb_lib_compiler.TYPE_FLOAT;
+            }
+            else {
+                RESULT.type = eb_lib_compiler.TYPE_DECIMAL;
+            }
+            break;
+    }
+
+    return RESULT;
+}
+
+function toSqlString(val: string) {
+    return `'${eb_lib_helpers.toStringSafe(val).replace(/'/g, "''")}'`;
+}
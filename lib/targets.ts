@@ -0,0 +1,337 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_doctrine from './doctrine';
+import * as eb_lib_ef from './ef';
+import * as eb_lib_ef_core from './efcore';
+import * as eb_lib_helpers from './helpers';
+import * as eb_lib_prisma from './prisma';
+import * as eb_lib_sequelize from './sequelize';
+import * as eb_lib_sql from './sql';
+import * as eb_lib_typeorm from './typeorm';
+import * as FS from 'fs';
+import * as Path from 'path';
+
+
+/**
+ * A function, which generates the files of a whole entity file for a target.
+ * 
+ * @param {GenerateFileContext} context The context.
+ */
+export type TargetFileGenerator = (context: eb_lib_compiler.GenerateFileContext) => void | PromiseLike<void>;
+
+/**
+ * A function, which generates the files of a class for a target.
+ * 
+ * @param {GenerateClassContext} context The context.
+ */
+export type TargetGenerator = (context: eb_lib_compiler.GenerateClassContext) => void | PromiseLike<void>;
+
+/**
+ * The context for a target plugin.
+ */
+export interface TargetPluginContext {
+    /**
+     * Registers a target, which generates the files of a whole entity file at once.
+     * 
+     * @param {string} name The name of the target.
+     * @param {TargetFileGenerator} generator The generator.
+     */
+    readonly registerFileTarget: (name: string, generator: TargetFileGenerator) => void;
+    /**
+     * Registers a target.
+     * 
+     * @param {string} name The name of the target.
+     * @param {TargetGenerator} generator The generator.
+     * @param {TargetFileGenerator} [fileGenerator] The generator of the files, which are shared by all classes of an entity file.
+     */
+    readonly registerTarget: (name: string, generator: TargetGenerator, fileGenerator?: TargetFileGenerator) => void;
+}
+
+/**
+ * A function, which registers the targets of a plugin.
+ * 
+ * @param {TargetPluginContext} context The context.
+ */
+export type TargetPluginRegistrator = (context: TargetPluginContext) => void;
+
+
+/**
+ * The prefix of npm packages, which provide targets.
+ */
+export const TARGET_PLUGIN_PREFIX = 'entity-baker-target-';
+
+// built-in targets
+export const TARGET_DOCTRINE = 'doctrine';
+export const TARGET_ENTITY_FRAMEWORK = 'entity-framework';
+export const TARGET_ENTITY_FRAMEWORK_CORE = 'entity-framework-core';
+export const TARGET_PRISMA = 'prisma';
+export const TARGET_SEQUELIZE = 'sequelize';
+export const TARGET_SQL = 'sql';
+export const TARGET_TYPEORM = 'typeorm';
+
+const FILE_TARGETS: { [name: string]: TargetFileGenerator } = {};
+const TARGETS: { [name: string]: TargetGenerator } = {};
+
+
+/**
+ * Finds the target plugins, which are installed in the 'node_modules' folder of a directory.
+ * 
+ * @param {string} [dir] The directory. Default: The current working directory.
+ * 
+ * @return {string[]} The paths of the plugins.
+ */
+export function findTargetPlugins(dir?: string): string[] {
+    if (eb_lib_helpers.isEmptyString(dir)) {
+        dir = process.cwd();
+    }
+
+    const NODE_MODULES = Path.resolve(
+        Path.join(dir, 'node_modules')
+    );
+
+    const PLUGINS: string[] = [];
+    for (const D of readDirSafe(NODE_MODULES)) {
+        if (D.startsWith('@')) {
+            // scoped packages
+            for (const SD of readDirSafe(Path.join(NODE_MODULES, D))) {
+                if (SD.startsWith(TARGET_PLUGIN_PREFIX)) {
+                    PLUGINS.push(Path.join(NODE_MODULES, D, SD));
+                }
+            }
+        }
+        else if (D.startsWith(TARGET_PLUGIN_PREFIX)) {
+            PLUGINS.push(Path.join(NODE_MODULES, D));
+        }
+    }
+
+    return PLUGINS.sort((x, y) => {
+        return eb_lib_helpers.compareValuesBy(x, y, p => {
+            return eb_lib_helpers.normalizeString(p);
+        });
+    });
+}
+
+/**
+ * Returns the generator of a target, which generates the files of a whole entity file at once.
+ * 
+ * @param {EntityTarget} target The target.
+ * 
+ * @return {TargetFileGenerator} The generator or (undefined) if not registered.
+ */
+export function getFileTarget(target: eb_lib_compiler.EntityTarget): TargetFileGenerator {
+    return FILE_TARGETS[ toTargetName(target) ];
+}
+
+/**
+ * Returns the generator of a target.
+ * 
+ * @param {EntityTarget} target The target.
+ * 
+ * @return {TargetGenerator} The generator or (undefined) if not registered.
+ */
+export function getTarget(target: eb_lib_compiler.EntityTarget): TargetGenerator {
+    return TARGETS[ toTargetName(target) ];
+}
+
+/**
+ * Returns the sorted list of the names of all registered targets.
+ * 
+ * @return {string[]} The names.
+ */
+export function getTargetNames(): string[] {
+    return eb_lib_helpers.distinctArray(
+        Object.keys(TARGETS).concat( Object.keys(FILE_TARGETS) )
+    ).sort((x, y) => {
+        return eb_lib_helpers.compareValues(x, y);
+    });
+}
+
+/**
+ * Checks if a target is registered, no matter if it generates classes or whole entity files.
+ * 
+ * @param {EntityTarget} target The target.
+ * 
+ * @return {boolean} Is registered or not.
+ */
+export function hasTarget(target: eb_lib_compiler.EntityTarget): boolean {
+    return !!(getTarget(target) || getFileTarget(target));
+}
+
+/**
+ * Loads a target plugin.
+ * 
+ * A plugin is a module, which exports a 'register()' function
+ * (or is such a function) that receives a 'TargetPluginContext'.
+ * 
+ * @param {string} id The module name or the path of the plugin.
+ * @param {string} [cwd] The directory from where to resolve the module. Default: The current working directory.
+ */
+export function loadTargetPlugin(id: string, cwd?: string) {
+    id = eb_lib_helpers.toStringSafe(id).trim();
+    if ('' === id) {
+        throw new Error(`No plugin defined!`);
+    }
+
+    if (eb_lib_helpers.isEmptyString(cwd)) {
+        cwd = process.cwd();
+    }
+
+    let modulePath: string;
+    if (Path.isAbsolute(id)) {
+        modulePath = id;
+    }
+    else if (id.startsWith('.')) {
+        modulePath = Path.resolve(
+            Path.join(cwd, id)
+        );
+    }
+    else {
+        // npm package
+        modulePath = Path.resolve(
+            Path.join(cwd, 'node_modules', id)
+        );
+    }
+
+    const PLUGIN_MODULE = require(modulePath);
+
+    let registrator: TargetPluginRegistrator;
+    if (eb_lib_helpers.isFunc<TargetPluginRegistrator>(PLUGIN_MODULE)) {
+        registrator = PLUGIN_MODULE;
+    }
+    else if (PLUGIN_MODULE) {
+        registrator = PLUGIN_MODULE.register;
+    }
+
+    if (!eb_lib_helpers.isFunc<TargetPluginRegistrator>(registrator)) {
+        throw new Error(`The plugin '${id}' does not export a 'register()' function!`);
+    }
+
+    registrator({
+        registerFileTarget: registerFileTarget,
+        registerTarget: registerTarget,
+    });
+}
+
+/**
+ * Registers a target, which generates the files of a whole entity file at once.
+ * 
+ * @param {string} name The name of the target. An existing target with the same name is replaced.
+ * @param {TargetFileGenerator} generator The generator.
+ */
+export function registerFileTarget(name: string, generator: TargetFileGenerator) {
+    name = eb_lib_helpers.normalizeString(name);
+    if ('' === name) {
+        throw new Error(`No target name defined!`);
+    }
+
+    if (!eb_lib_helpers.isFunc<TargetFileGenerator>(generator)) {
+        throw new Error(`The generator of target '${name}' must be a function!`);
+    }
+
+    delete TARGETS[name];
+    FILE_TARGETS[name] = generator;
+}
+
+/**
+ * Registers a target.
+ * 
+ * @param {string} name The name of the target. An existing target with the same name is replaced.
+ * @param {TargetGenerator} generator The generator.
+ * @param {TargetFileGenerator} [fileGenerator] The generator of the files, which are shared by all classes
+ *                                              of an entity file, like an index. It is invoked once, after the classes.
+ */
+export function registerTarget(name: string, generator: TargetGenerator, fileGenerator?: TargetFileGenerator) {
+    name = eb_lib_helpers.normalizeString(name);
+    if ('' === name) {
+        throw new Error(`No target name defined!`);
+    }
+
+    if (!eb_lib_helpers.isFunc<TargetGenerator>(generator)) {
+        throw new Error(`The generator of target '${name}' must be a function!`);
+    }
+
+    if (!eb_lib_helpers.isNullOrUndefined(fileGenerator) && !eb_lib_helpers.isFunc<TargetFileGenerator>(fileGenerator)) {
+        throw new Error(`The file generator of target '${name}' must be a function!`);
+    }
+
+    delete FILE_TARGETS[name];
+    TARGETS[name] = generator;
+
+    if (fileGenerator) {
+        FILE_TARGETS[name] = fileGenerator;
+    }
+}
+
+/**
+ * Returns the name of a target.
+ * 
+ * @param {EntityTarget} target The target.
+ * 
+ * @return {string} The name of the target.
+ */
+export function toTargetName(target: eb_lib_compiler.EntityTarget): string {
+    switch (target) {
+        case eb_lib_compiler.EntityFramework.Doctrine:
+            return TARGET_DOCTRINE;
+
+        case eb_lib_compiler.EntityFramework.EntityFramework:
+            return TARGET_ENTITY_FRAMEWORK;
+
+        case eb_lib_compiler.EntityFramework.EntityFrameworkCore:
+            return TARGET_ENTITY_FRAMEWORK_CORE;
+
+        case eb_lib_compiler.EntityFramework.TypeORM:
+            return TARGET_TYPEORM;
+
+        case eb_lib_compiler.EntityFramework.Prisma:
+            return TARGET_PRISMA;
+
+        case eb_lib_compiler.EntityFramework.Sequelize:
+            return TARGET_SEQUELIZE;
+
+        case eb_lib_compiler.EntityFramework.Sql:
+            return TARGET_SQL;
+    }
+
+    return eb_lib_helpers.normalizeString(target);
+}
+
+
+function readDirSafe(dir: string): string[] {
+    try {
+        if (FS.existsSync(dir) && FS.statSync(dir).isDirectory()) {
+            return FS.readdirSync(dir);
+        }
+    }
+    catch (e) {
+        // console.debug(e);
+    }
+
+    return [];
+}
+
+
+// register built-in targets
+registerTarget(TARGET_DOCTRINE, eb_lib_doctrine.generateClassForDoctrine);
+registerTarget(TARGET_ENTITY_FRAMEWORK, eb_lib_ef.generateClassForEntityFramework);
+registerTarget(TARGET_ENTITY_FRAMEWORK_CORE, eb_lib_ef_core.generateClassForEntityFrameworkCore);
+registerTarget(TARGET_SEQUELIZE, eb_lib_sequelize.generateClassForSequelize, eb_lib_sequelize.generateFileForSequelize);
+registerTarget(TARGET_TYPEORM, eb_lib_typeorm.generateClassForTypeORM, eb_lib_typeorm.generateFileForTypeORM);
+registerFileTarget(TARGET_PRISMA, eb_lib_prisma.generateFileForPrisma);
+registerFileTarget(TARGET_SQL, eb_lib_sql.generateFileForSql);
@@ -0,0 +1,517 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_helpers from './helpers';
+import * as Path from 'path';
+
+
+/**
+ * Generates a class for TypeORM.
+ * 
+ * @param {GenerateClassContext} context
+ */
+export async function generateClassForTypeORM(context: eb_lib_compiler.GenerateClassContext) {
+    const CLASS_NAME = context.name;
+    const dbTable = context.table;
+
+    let outDir = context.outDir;
+
+    if (context['namespace'].length > 0) {
+        for (const NS of context['namespace']) {
+            outDir = Path.join(outDir, NS);
+        }
+    }
+
+    outDir = Path.resolve(outDir);
+
+    await context.output.mkdirs(outDir);
+
+    const CLASS_FILENAME = `${CLASS_NAME}.ts`;
+    const CLASS_FILE_PATH = Path.resolve(
+        Path.join(outDir,
+                  CLASS_FILENAME)
+    );
+
+    const IS_AUTO = (col: string) => {
+        return eb_lib_helpers.toBooleanSafe(
+            context.columns[col].auto
+        );
+    };
+
+    const IS_ID = (col: string) => {
+        return eb_lib_helpers.toBooleanSafe(
+            context.columns[col].id
+        );
+    };
+
+    const CAN_BE_NULL = (col: string) => {
+        return eb_lib_helpers.toBooleanSafe(
+            context.columns[col]['null']
+        );
+    };
+
+    const TO_ENUM = (col: string) => {
+        return context.enums[ context.columns[col]['enum'] ];
+    };
+
+    const TO_TS_TYPE = (col: string): string => {
+        if (TO_ENUM(col)) {
+            return context.columns[col]['enum'] + (CAN_BE_NULL(col) ? ' | null' : '');
+        }
+
+        return eb_lib_compiler.toTypeScriptType(
+            context.columns[col].type,
+            () => CAN_BE_NULL(col),
+            () => IS_ID(col),
+        );
+    };
+
+    const TO_TYPEORM_TYPE = (col: string): string => {
+        let type = eb_lib_helpers.normalizeString( context.columns[col].type );
+
+        switch (type) {
+            case eb_lib_compiler.TYPE_BIGINT:
+            case eb_lib_compiler.TYPE_INT64:
+            case eb_lib_compiler.TYPE_UINT64:
+                type = 'bigint';
+                break;
+
+            case eb_lib_compiler.TYPE_BIN:
+            case eb_lib_compiler.TYPE_BINARY:
+                type = 'binary';
+                break;
+
+            case eb_lib_compiler.TYPE_BLOB:
+                type = 'blob';
+                break;
+
+            case eb_lib_compiler.TYPE_BOOL:
+            case eb_lib_compiler.TYPE_BOOLEAN:
+                type = 'boolean';
+                break;
+
+            case eb_lib_compiler.TYPE_DATE:
+                type = 'date';
+                break;
+
+            case eb_lib_compiler.TYPE_DATETIME:
+                type = 'timestamp';
+                break;
+
+            case eb_lib_compiler.TYPE_DATETIME_TZ:
+                type = 'timestamp with time zone';
+                break;
+
+            case eb_lib_compiler.TYPE_DECIMAL:
+                type = 'decimal';
+                break;
+
+            case eb_lib_compiler.TYPE_ENUM:
+                type = eb_lib_compiler.TYPE_INT === TO_ENUM(col).type ? 'int' : 'enum';
+                break;
+
+            case eb_lib_compiler.TYPE_FLOAT:
+                type = 'float';
+                break;
+
+            case eb_lib_compiler.TYPE_GUID:
+            case eb_lib_compiler.TYPE_UUID:
+                type = 'uuid';
+                break;
+
+            case eb_lib_compiler.TYPE_INT:
+            case eb_lib_compiler.TYPE_INT32:
+            case eb_lib_compiler.TYPE_INTEGER:
+            case eb_lib_compiler.TYPE_UINT32:
+                type = 'int';
+                break;
+
+            case eb_lib_compiler.TYPE_INT16:
+            case eb_lib_compiler.TYPE_SMALLINT:
+            case eb_lib_compiler.TYPE_UINT16:
+                type = 'smallint';
+                break;
+
+            case eb_lib_compiler.TYPE_JSON:
+                type = 'json';
+                break;
+
+            case eb_lib_compiler.TYPE_STR:
+            case eb_lib_compiler.TYPE_STRING:
+                type = 'varchar';
+                break;
+
+            case eb_lib_compiler.TYPE_TEXT:
+                type = 'text';
+                break;
+
+            case eb_lib_compiler.TYPE_TIME:
+                type = 'time';
+                break;
+
+            case eb_lib_compiler.TYPE__DEFAULT:
+                type = 'varchar';
+                if (IS_ID(col)) {
+                    type = 'int';
+                }
+                break;
+
+            default:
+                throw new Error(`The data type '${type}' is not supported by TypeORM!`);
+        }
+
+        return type;
+    };
+
+    const TO_COLUMN_OPTIONS = (col: string, isGenerated: boolean) => {
+        const COLUMN = context.columns[col];
+
+        const OPTIONS: string[] = [];
+
+        if (!eb_lib_helpers.isEmptyString(COLUMN.dbName)) {
+            OPTIONS.push(`name: ${toStringLiteral(COLUMN.dbName)}`);
+        }
+
+        const TYPE = TO_TYPEORM_TYPE(col);
+        OPTIONS.push(`type: '${TYPE}'`);
+        if ('enum' === TYPE) {
+            OPTIONS.push(`enum: ${COLUMN['enum']}`);
+        }
+
+        if (eb_lib_helpers.toBooleanSafe(COLUMN.unsigned)) {
+            OPTIONS.push(`unsigned: true`);
+        }
+
+        if (isGenerated) {
+            // generated primary keys do not support
+            // the other options
+            return OPTIONS;
+        }
+
+        for (const O of [ 'length', 'precision', 'scale' ]) {
+            if (!eb_lib_helpers.isNullOrUndefined(COLUMN[O])) {
+                OPTIONS.push(`${O}: ${COLUMN[O]}`);
+            }
+        }
+
+        if (CAN_BE_NULL(col)) {
+            OPTIONS.push(`nullable: true`);
+        }
+
+        if (!eb_lib_helpers.isEmptyString(COLUMN.dbDefault)) {
+            OPTIONS.push(`default: () => ${toStringLiteral(COLUMN.dbDefault)}`);
+        }
+
+        return OPTIONS;
+    };
+
+    const DECORATORS: string[] = [ 'Entity' ];
+    const IMPORTS: string[] = [];
+
+    let classDecorators = `@Entity(${toStringLiteral(dbTable)})`;
+    for (const I of context.indexes) {
+        const OPTIONS: string[] = [];
+        if (I.unique) {
+            OPTIONS.push('unique: true');
+        }
+        if (!eb_lib_helpers.isEmptyString(I.where)) {
+            OPTIONS.push(`where: ${toStringLiteral(I.where)}`);
+        }
+
+        classDecorators += `
+@Index(${toStringLiteral(I.name)}, [ ${eb_lib_helpers.asArray(I.columns).map(c => `'${c}'`).join(', ')} ]${OPTIONS.length > 0 ? `, { ${OPTIONS.join(', ')} }` : ''})`;
+
+        DECORATORS.push('Index');
+    }
+
+    let classBody = '';
+
+    for (const C of context.columnNames) {
+        const COLUMN = context.columns[C];
+        const ENUM = TO_ENUM(C);
+        const IS_GENERATED = IS_ID(C) && IS_AUTO(C);
+        const TS_TYPE = TO_TS_TYPE(C);
+
+        let decorator: string;
+        if (IS_GENERATED) {
+            decorator = 'PrimaryGeneratedColumn';
+        }
+        else if (IS_ID(C)) {
+            decorator = 'PrimaryColumn';
+        }
+        else {
+            decorator = 'Column';
+        }
+        DECORATORS.push(decorator);
+
+        let decoratorArgs = `{ ${TO_COLUMN_OPTIONS(C, IS_GENERATED).join(', ')} }`;
+        if (IS_GENERATED && 'uuid' === TO_TYPEORM_TYPE(C)) {
+            decoratorArgs = `'uuid'${eb_lib_helpers.isEmptyString(COLUMN.dbName) ? '' : `, { name: ${toStringLiteral(COLUMN.dbName)} }`}`;
+        }
+
+        if (ENUM) {
+            IMPORTS.push(COLUMN['enum']);
+        }
+
+        let defaultValue = '';
+        if (!eb_lib_helpers.isNullOrUndefined(COLUMN['default'])) {
+            if (ENUM) {
+                defaultValue = ` = ${COLUMN['enum']}.${eb_lib_compiler.getEnumCase(ENUM, COLUMN['default'])}`;
+            }
+            else {
+                defaultValue = ` = ${toTypeScriptLiteral(COLUMN['default'], TS_TYPE)}`;
+            }
+        }
+
+        classBody += `
+    /**
+     * The value of '${C}' column.
+     */
+    @${decorator}(${decoratorArgs})
+    public ${C}: ${TS_TYPE}${defaultValue};
+`;
+    }
+
+    for (const R of context.relationNames) {
+        const RELATION = context.relations[R];
+        const TARGET = RELATION.target;
+
+        if (TARGET !== CLASS_NAME) {
+            IMPORTS.push(TARGET);
+        }
+
+        let decorator: string;
+        switch (RELATION.type) {
+            case eb_lib_compiler.RELATION_MANY_TO_MANY:
+                decorator = 'ManyToMany';
+                break;
+
+            case eb_lib_compiler.RELATION_MANY_TO_ONE:
+                decorator = 'ManyToOne';
+                break;
+
+            case eb_lib_compiler.RELATION_ONE_TO_MANY:
+                decorator = 'OneToMany';
+                break;
+
+            case eb_lib_compiler.RELATION_ONE_TO_ONE:
+                decorator = 'OneToOne';
+                break;
+        }
+        DECORATORS.push(decorator);
+
+        const ARGS = [ `() => ${TARGET}` ];
+
+        const INVERSE = eb_lib_helpers.toStringSafe(RELATION.inversedBy) ||
+                        eb_lib_helpers.toStringSafe(RELATION.mappedBy);
+        if ('' !== INVERSE) {
+            ARGS.push(`x => x.${INVERSE}`);
+        }
+
+        const OPTIONS: string[] = [];
+        const CASCADE = toTypeORMCascade(RELATION.cascade);
+        if (CASCADE.length > 0) {
+            OPTIONS.push(`cascade: [ ${CASCADE.map(c => `'${c}'`).join(', ')} ]`);
+        }
+        if (eb_lib_compiler.FETCH_EAGER === RELATION.fetch) {
+            OPTIONS.push(`eager: true`);
+        }
+        if (OPTIONS.length > 0) {
+            ARGS.push(`{ ${OPTIONS.join(', ')} }`);
+        }
+
+        let decorators = `@${decorator}(${ARGS.join(', ')})`;
+        if (eb_lib_compiler.RELATION_MANY_TO_MANY === RELATION.type) {
+            if (eb_lib_helpers.isEmptyString(RELATION.mappedBy)) {
+                DECORATORS.push('JoinTable');
+
+                decorators += `
+    @JoinTable({ name: ${toStringLiteral(RELATION.joinTable)}, joinColumn: { name: ${toStringLiteral(RELATION.column)} }, inverseJoinColumn: { name: ${toStringLiteral(RELATION.inverseColumn)} } })`;
+            }
+        }
+        else if (!eb_lib_helpers.isEmptyString(RELATION.column)) {
+            DECORATORS.push('JoinColumn');
+
+            decorators += `
+    @JoinColumn({ name: ${toStringLiteral(RELATION.column)} })`;
+        }
+
+        const IS_COLLECTION = eb_lib_compiler.RELATION_ONE_TO_MANY === RELATION.type ||
+                              eb_lib_compiler.RELATION_MANY_TO_MANY === RELATION.type;
+
+        classBody += `
+    /**
+     * The value of '${R}' relation.
+     */
+    ${decorators}
+    public ${R}: ${TARGET}${IS_COLLECTION ? '[]' : ''};
+`;
+    }
+
+    let classFile = `/**
+ * AUTO GENERATED FILE
+ * 
+ * Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+ **/
+
+import { ${eb_lib_helpers.distinctArray(DECORATORS).sort().join(', ')} } from 'typeorm';
+`;
+    for (const I of eb_lib_helpers.distinctArray(IMPORTS).sort()) {
+        classFile += `import { ${I} } from './${I}';
+`;
+    }
+
+    classFile += `
+
+/**
+ * An entity for '${dbTable}' table.
+ */
+${classDecorators}
+export class ${CLASS_NAME} {${classBody}}
+`;
+
+    await context.writeFile(CLASS_FILE_PATH, classFile);
+
+    for (const E in context.enums) {
+        const ENUM = context.enums[E];
+
+        let enumFile = `/**
+ * AUTO GENERATED FILE
+ * 
+ * Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+ **/
+
+/**
+ * The '${E}' enum.
+ */
+export enum ${E} {`;
+        for (const C in ENUM.values) {
+            enumFile += `
+    ${C} = ${toTypeScriptLiteral(ENUM.values[C], typeof ENUM.values[C])},`;
+        }
+        enumFile += `
+}
+`;
+
+        await context.writeFile(
+            Path.resolve(
+                Path.join(outDir,
+                          `${E}.ts`)
+            ),
+            enumFile
+        );
+    }
+}
+
+/**
+ * Generates the barrel of all classes and enums of an entity file for TypeORM.
+ * 
+ * @param {GenerateFileContext} context
+ */
+export async function generateFileForTypeORM(context: eb_lib_compiler.GenerateFileContext) {
+    let outDir = context.outDir;
+
+    if (context['namespace'].length > 0) {
+        for (const NS of context['namespace']) {
+            outDir = Path.join(outDir, NS);
+        }
+    }
+
+    outDir = Path.resolve(outDir);
+
+    await context.output.mkdirs(outDir);
+
+    const INDEX_FILE_PATH = Path.resolve(
+        Path.join(outDir,
+                  'index.ts')
+    );
+
+    // keep the exports of other entity files,
+    // which use the same directory
+    let exports = context.classes.map(c => c.name)
+                                 .concat(Object.keys(context.enums));
+    if (await context.output.exists(INDEX_FILE_PATH)) {
+        const EXPORT_REGEX = /^export \* from '\.\/([^']+)';$/gm;
+
+        const OLD_INDEX_FILE = await context.output.read(INDEX_FILE_PATH);
+
+        let match: RegExpExecArray;
+        while (match = EXPORT_REGEX.exec(OLD_INDEX_FILE)) {
+            const EXPORT_FILE = Path.join(outDir, `${match[1]}.ts`);
+            if (await context.output.exists(EXPORT_FILE)) {
+                exports.push(match[1]);
+            }
+        }
+    }
+
+    let indexFile = `/**
+ * AUTO GENERATED FILE
+ * 
+ * Generated by node-entity-baker (https://www.npmjs.com/package/entity-baker)
+ **/
+
+`;
+    for (const N of eb_lib_helpers.distinctArray(exports).sort()) {
+        indexFile += `export * from './${N}';
+`;
+    }
+
+    await context.writeFile(INDEX_FILE_PATH, indexFile);
+}
+
+
+function toStringLiteral(val: any): string {
+    return `'${eb_lib_helpers.toStringSafe(val).replace(/\\/g, '\\\\')
+                                               .replace(/'/g, "\\'")
+                                               .replace(/\r/g, '\\r')
+                                               .replace(/\n/g, '\\n')}'`;
+}
+
+function toTypeORMCascade(cascade: string | string[]): string[] {
+    const CASCADE: string[] = [];
+
+    for (const C of eb_lib_helpers.asArray(cascade)) {
+        switch (eb_lib_helpers.normalizeString(C)) {
+            case 'all':
+                CASCADE.push('insert', 'update', 'remove');
+                break;
+
+            case 'persist':
+                CASCADE.push('insert', 'update');
+                break;
+
+            case 'remove':
+                CASCADE.push('remove');
+                break;
+        }
+    }
+
+    return eb_lib_helpers.distinctArray(CASCADE);
+}
+
+function toTypeScriptLiteral(val: any, tsType: string): string {
+    switch (eb_lib_helpers.toStringSafe(tsType).replace(/ \| null$/, '')) {
+        case 'boolean':
+            return eb_lib_helpers.toBooleanSafe(val) ? 'true' : 'false';
+
+        case 'number':
+            return eb_lib_helpers.toStringSafe(val);
+    }
+
+    return toStringLiteral(val);
+}
@@ -0,0 +1,766 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as eb_lib_compiler from './compiler';
+import * as eb_lib_helpers from './helpers';
+import * as eb_lib_naming from './naming';
+import * as eb_lib_schema from './schema';
+const SAX = require('sax');
+
+
+/**
+ * A problem of an entity file, which has been found by 'validate()'.
+ */
+export interface Diagnostic {
+    /**
+     * The code, like 'unknown-type'.
+     */
+    readonly code: string;
+    /**
+     * The column inside the source (beginning at 1), if known.
+     */
+    readonly column?: number;
+    /**
+     * The line inside the source (beginning at 1), if known.
+     */
+    readonly line?: number;
+    /**
+     * The message.
+     */
+    readonly message: string;
+    /**
+     * The JSON path of the value, like '$.entities.User.columns.id'.
+     */
+    readonly path: string;
+    /**
+     * The severity ('error' or 'warning').
+     */
+    readonly severity: string;
+}
+
+/**
+ * Options for 'validate()'.
+ */
+export interface ValidationOptions {
+    /**
+     * The format of the source ('json', 'xml' or 'yaml'). Default: 'json'
+     */
+    readonly format?: string;
+    /**
+     * The naming strategy, which overwrites the one of the entity file.
+     */
+    readonly naming?: eb_lib_naming.NamingStrategy | eb_lib_naming.NamingStrategyOptions;
+    /**
+     * The original content of the entity file, which is used to find the lines and columns of the diagnostics.
+     */
+    readonly source?: string;
+}
+
+interface SourceMap {
+    duplicates: { offset: number, path: eb_lib_schema.JsonPath }[];
+    offsets: { [path: string]: number };
+}
+
+
+/**
+ * A column has already been defined.
+ */
+export const DIAGNOSTIC_DUPLICATE_COLUMN = 'duplicate-column';
+/**
+ * A key of an object has already been defined.
+ */
+export const DIAGNOSTIC_DUPLICATE_KEY = 'duplicate-key';
+/**
+ * An entity has no columns.
+ */
+export const DIAGNOSTIC_EMPTY_ENTITY = 'empty-entity';
+/**
+ * A name cannot be used as identifier.
+ */
+export const DIAGNOSTIC_INVALID_IDENTIFIER = 'invalid-identifier';
+/**
+ * An entity has no ID column.
+ */
+export const DIAGNOSTIC_MISSING_PRIMARY_KEY = 'missing-primary-key';
+/**
+ * A name is a reserved word in PHP, C# or SQL.
+ */
+export const DIAGNOSTIC_RESERVED_WORD = 'reserved-word';
+/**
+ * A value does not match the JSON schema of entity files.
+ */
+export const DIAGNOSTIC_SCHEMA = 'schema';
+/**
+ * A relation refers to an entity, which does not exist.
+ */
+export const DIAGNOSTIC_UNKNOWN_ENTITY = 'unknown-entity';
+/**
+ * A relation cannot be generated, like one, which refers to a composite primary key.
+ */
+export const DIAGNOSTIC_UNSUPPORTED_RELATION = 'unsupported-relation';
+/**
+ * A data type or an enum does not exist.
+ */
+export const DIAGNOSTIC_UNKNOWN_TYPE = 'unknown-type';
+/**
+ * Severity of a problem, which breaks the generation.
+ */
+export const SEVERITY_ERROR = 'error';
+/**
+ * Severity of a problem, which might lead to unexpected results.
+ */
+export const SEVERITY_WARNING = 'warning';
+
+const CSHARP_KEYWORDS = [
+    'abstract', 'as', 'base', 'bool', 'break', 'byte', 'case', 'catch', 'char', 'checked', 'class', 'const',
+    'continue', 'decimal', 'default', 'delegate', 'do', 'double', 'else', 'enum', 'event', 'explicit', 'extern',
+    'false', 'finally', 'fixed', 'float', 'for', 'foreach', 'goto', 'if', 'implicit', 'in', 'int', 'interface',
+    'internal', 'is', 'lock', 'long', 'namespace', 'new', 'null', 'object', 'operator', 'out', 'override',
+    'params', 'private', 'protected', 'public', 'readonly', 'ref', 'return', 'sbyte', 'sealed', 'short', 'sizeof',
+    'stackalloc', 'static', 'string', 'struct', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'uint', 'ulong',
+    'unchecked', 'unsafe', 'ushort', 'using', 'virtual', 'void', 'volatile', 'while',
+];
+// keywords and reserved class names, which cannot be used for classes (case insensitive)
+const PHP_RESERVED_WORDS = [
+    'abstract', 'and', 'array', 'as', 'bool', 'break', 'callable', 'case', 'catch', 'class', 'clone', 'const',
+    'continue', 'declare', 'default', 'do', 'echo', 'else', 'elseif', 'empty', 'enddeclare', 'endfor', 'endforeach',
+    'endif', 'endswitch', 'endwhile', 'enum', 'eval', 'exit', 'extends', 'false', 'final', 'finally', 'float', 'fn',
+    'for', 'foreach', 'function', 'global', 'goto', 'if', 'implements', 'include', 'include_once', 'instanceof',
+    'insteadof', 'int', 'interface', 'isset', 'iterable', 'list', 'match', 'mixed', 'namespace', 'never', 'new',
+    'null', 'object', 'or', 'parent', 'print', 'private', 'protected', 'public', 'readonly', 'require',
+    'require_once', 'return', 'self', 'static', 'string', 'switch', 'throw', 'trait', 'true', 'try', 'unset', 'use',
+    'var', 'void', 'while', 'xor', 'yield',
+];
+// words, which are reserved by most of the supported SQL dialects (case insensitive)
+const SQL_RESERVED_WORDS = [
+    'add', 'all', 'alter', 'and', 'any', 'as', 'asc', 'between', 'by', 'case', 'check', 'column', 'constraint',
+    'create', 'cross', 'current_date', 'current_time', 'current_timestamp', 'current_user', 'database', 'default',
+    'delete', 'desc', 'distinct', 'drop', 'else', 'end', 'exists', 'foreign', 'from', 'full', 'grant', 'group',
+    'having', 'in', 'index', 'inner', 'insert', 'intersect', 'into', 'is', 'join', 'key', 'left', 'like', 'limit',
+    'not', 'null', 'offset', 'on', 'or', 'order', 'outer', 'primary', 'references', 'right', 'select',
+    'session_user', 'set', 'table', 'then', 'to', 'union', 'unique', 'update', 'user', 'using', 'values', 'view',
+    'when', 'where', 'with',
+];
+
+
+/**
+ * Validates an entity file and collects all problems at once.
+ * 
+ * @param {EntityFile} file The entity file.
+ * @param {ValidationOptions} [opts] Custom options.
+ * 
+ * @return {Diagnostic[]} The list of problems.
+ */
+export function validate(file: eb_lib_compiler.EntityFile, opts?: ValidationOptions): Diagnostic[] {
+    if (!opts) {
+        opts = {};
+    }
+
+    const DIAGNOSTICS: Diagnostic[] = [];
+    if (!eb_lib_helpers.isObj<eb_lib_compiler.EntityFile>(file)) {
+        return DIAGNOSTICS;
+    }
+
+    let sourceMap: SourceMap = {
+        duplicates: [],
+        offsets: {},
+    };
+    let lineOffsets: number[] = [];
+    if (!eb_lib_helpers.isEmptyString(opts.source)) {
+        const SOURCE = eb_lib_helpers.toStringSafe(opts.source);
+
+        try {
+            switch (eb_lib_helpers.normalizeString(opts.format)) {
+                case 'xml':
+                    sourceMap = getXmlSourceMap(SOURCE);
+                    break;
+
+                case 'yaml':
+                    sourceMap = getYamlSourceMap(SOURCE);
+                    break;
+
+                default:
+                    sourceMap = getJsonSourceMap(SOURCE);
+                    break;
+            }
+        }
+        catch (e) {
+            // keep what has been found so far
+        }
+
+        lineOffsets = [ 0 ];
+        for (let i = 0; i < SOURCE.length; i++) {
+            if ('\n' === SOURCE[i]) {
+                lineOffsets.push(i + 1);
+            }
+        }
+    }
+
+    const ADD = (severity: string, code: string, path: eb_lib_schema.JsonPath, message: string, offset?: number) => {
+        if (eb_lib_helpers.isNullOrUndefined(offset)) {
+            // the value itself or its nearest parent
+            for (let i = path.length; i >= 0; i--) {
+                offset = sourceMap.offsets[ eb_lib_schema.toJsonPath(path.slice(0, i)) ];
+                if (!eb_lib_helpers.isNullOrUndefined(offset)) {
+                    break;
+                }
+            }
+        }
+
+        let line: number;
+        let column: number;
+        if (!eb_lib_helpers.isNullOrUndefined(offset) && lineOffsets.length > 0) {
+            let lineIndex = lineOffsets.length - 1;
+            while (lineIndex > 0 && lineOffsets[lineIndex] > offset) {
+                --lineIndex;
+            }
+
+            line = lineIndex + 1;
+            column = offset - lineOffsets[lineIndex] + 1;
+        }
+
+        DIAGNOSTICS.push({
+            code: code,
+            column: column,
+            line: line,
+            message: message,
+            path: eb_lib_schema.toJsonPath(path),
+            severity: severity,
+        });
+    };
+
+    let naming: eb_lib_naming.NamingStrategy;
+    try {
+        naming = eb_lib_naming.toNamingStrategy(opts.naming || file.naming);
+    }
+    catch (e) {
+        ADD(SEVERITY_ERROR, DIAGNOSTIC_INVALID_IDENTIFIER, [ 'naming' ],
+            `The naming strategy is invalid: ${eb_lib_helpers.toStringSafe(e)}`);
+
+        naming = eb_lib_naming.createNamingStrategy();
+    }
+    const NAMING = naming;
+
+    // the property / method name of a column or relation
+    const CHECK_METHOD_NAME = (name: string, path: eb_lib_schema.JsonPath, entity: string) => {
+        if (false === eb_lib_compiler.parseForClass(NAMING.toMethodName(name))) {
+            ADD(SEVERITY_ERROR, DIAGNOSTIC_INVALID_IDENTIFIER, path,
+                `The property / method name '${NAMING.toMethodName(name)}' of '${name}' in entity '${entity}' is invalid!`);
+        }
+    };
+    const ENTITIES = eb_lib_helpers.isObj<eb_lib_compiler.EntityDescriptions>(file.entities) ? file.entities : {};
+    const ENUMS = eb_lib_helpers.isObj<eb_lib_compiler.EntityEnumDescriptions>(file.enums) ? file.enums : {};
+
+    // keys, which are defined more than once and have been overwritten by the parser
+    for (const D of sourceMap.duplicates) {
+        const IS_COLUMN = 4 === D.path.length &&
+                          'entities' === D.path[0] && 'columns' === D.path[2];
+
+        ADD(SEVERITY_ERROR, IS_COLUMN ? DIAGNOSTIC_DUPLICATE_COLUMN : DIAGNOSTIC_DUPLICATE_KEY, D.path,
+            IS_COLUMN ? `The column '${D.path[3]}' has already been defined!` : `The key '${D.path[D.path.length - 1]}' has already been defined!`,
+            D.offset);
+    }
+
+    for (const E in ENUMS) {
+        if (false === eb_lib_compiler.parseForClass(E)) {
+            ADD(SEVERITY_ERROR, DIAGNOSTIC_INVALID_IDENTIFIER, [ 'enums', E ],
+                `The enum name '${E}' is invalid!`);
+        }
+    }
+
+    for (const E in ENTITIES) {
+        const ENTITY_PATH: eb_lib_schema.JsonPath = [ 'entities', E ];
+        const ENTITY = ENTITIES[E];
+
+        const CLASS_NAME = eb_lib_compiler.parseForClass(NAMING.toClassName(E));
+        if (false === CLASS_NAME) {
+            ADD(SEVERITY_ERROR, DIAGNOSTIC_INVALID_IDENTIFIER, ENTITY_PATH,
+                `The class name '${NAMING.toClassName(E)}' of entity '${E}' is invalid!`);
+        }
+        else {
+            if (isPhpReservedWord(CLASS_NAME)) {
+                ADD(SEVERITY_WARNING, DIAGNOSTIC_RESERVED_WORD, ENTITY_PATH,
+                    `The class name '${CLASS_NAME}' is a reserved word in PHP!`);
+            }
+            if (isCSharpKeyword(CLASS_NAME)) {
+                ADD(SEVERITY_WARNING, DIAGNOSTIC_RESERVED_WORD, ENTITY_PATH,
+                    `The class name '${CLASS_NAME}' is a keyword in C#!`);
+            }
+        }
+
+        if (!eb_lib_helpers.isObj<eb_lib_compiler.EntityClass>(ENTITY) ||
+            !eb_lib_helpers.isObj<eb_lib_compiler.EntityColumnDescriptions>(ENTITY.columns) ||
+            Object.keys(ENTITY.columns).length < 1) {
+            ADD(SEVERITY_WARNING, DIAGNOSTIC_EMPTY_ENTITY, ENTITY_PATH,
+                `The entity '${E}' has no columns!`);
+
+            continue;
+        }
+
+        let table = eb_lib_helpers.toStringSafe(ENTITY.table).trim();
+        let tablePath = ENTITY_PATH.concat('table');
+        if ('' === table) {
+            table = NAMING.toTableName(NAMING.toClassName(E));
+            tablePath = ENTITY_PATH;
+        }
+        if (isSqlReservedWord(table)) {
+            ADD(SEVERITY_WARNING, DIAGNOSTIC_RESERVED_WORD, tablePath,
+                `The table name '${table}' of entity '${E}' is a reserved word in SQL!`);
+        }
+
+        // database names of the columns, which are case insensitive
+        // in MySQL, MSSQL, SQLite and (unquoted) PostgreSQL
+        const DB_NAMES: { [dbName: string]: string } = {};
+        let hasId = false;
+
+        for (const C in ENTITY.columns) {
+            const COLUMN_PATH = ENTITY_PATH.concat('columns', C);
+
+            let column = ENTITY.columns[C];
+            if (!eb_lib_helpers.isObj<eb_lib_compiler.EntityColumn>(column)) {
+                column = {
+                    type: eb_lib_helpers.toStringSafe(column),
+                };
+            }
+
+            if (eb_lib_helpers.toBooleanSafe(column.id)) {
+                hasId = true;
+            }
+
+            const COLUMN_NAME = eb_lib_compiler.parseForClass(C);
+            if (false === COLUMN_NAME) {
+                ADD(SEVERITY_ERROR, DIAGNOSTIC_INVALID_IDENTIFIER, COLUMN_PATH,
+                    `The column name '${C}' of entity '${E}' is invalid!`);
+            }
+            else {
+                if (isCSharpKeyword(COLUMN_NAME)) {
+                    ADD(SEVERITY_WARNING, DIAGNOSTIC_RESERVED_WORD, COLUMN_PATH,
+                        `The column name '${COLUMN_NAME}' of entity '${E}' is a keyword in C#!`);
+                }
+
+                CHECK_METHOD_NAME(COLUMN_NAME, COLUMN_PATH, E);
+
+                let dbName = eb_lib_helpers.toStringSafe(column.dbName).trim();
+                if ('' === dbName) {
+                    dbName = NAMING.toColumnName(COLUMN_NAME);
+                }
+
+                const DB_NAME_KEY = eb_lib_helpers.normalizeString(dbName);
+                if (eb_lib_helpers.isString(DB_NAMES[DB_NAME_KEY])) {
+                    ADD(SEVERITY_ERROR, DIAGNOSTIC_DUPLICATE_COLUMN, COLUMN_PATH,
+                        `The database column '${dbName}' of column '${C}' is already used by column '${DB_NAMES[DB_NAME_KEY]}'!`);
+                }
+                else {
+                    DB_NAMES[DB_NAME_KEY] = C;
+                }
+
+                if (isSqlReservedWord(dbName)) {
+                    ADD(SEVERITY_WARNING, DIAGNOSTIC_RESERVED_WORD, COLUMN_PATH,
+                        `The database column '${dbName}' of entity '${E}' is a reserved word in SQL!`);
+                }
+            }
+
+            const TYPE_PATH = eb_lib_helpers.isObj(ENTITY.columns[C]) ? COLUMN_PATH.concat('type') : COLUMN_PATH;
+
+            const TYPE = eb_lib_helpers.normalizeString(column.type);
+            if (eb_lib_compiler.TYPE__DEFAULT !== TYPE && eb_lib_compiler.DATA_TYPES.indexOf(TYPE) < 0) {
+                ADD(SEVERITY_ERROR, DIAGNOSTIC_UNKNOWN_TYPE, TYPE_PATH,
+                    `The data type '${TYPE}' of column '${C}' is unknown!`);
+            }
+            else if (eb_lib_compiler.TYPE_ENUM === TYPE && !eb_lib_helpers.isEmptyString(column['enum'])) {
+                const ENUM_NAME = eb_lib_helpers.toStringSafe(column['enum']).trim();
+
+                if (Object.keys(ENUMS).map(e => e.trim()).indexOf(ENUM_NAME) < 0) {
+                    ADD(SEVERITY_ERROR, DIAGNOSTIC_UNKNOWN_TYPE, COLUMN_PATH.concat('enum'),
+                        `The enum '${ENUM_NAME}' of column '${C}' does not exist!`);
+                }
+            }
+        }
+
+        if (!hasId) {
+            ADD(SEVERITY_WARNING, DIAGNOSTIC_MISSING_PRIMARY_KEY, ENTITY_PATH,
+                `The entity '${E}' has no ID column!`);
+        }
+
+        if (eb_lib_helpers.isObj<eb_lib_compiler.EntityRelationDescriptions>(ENTITY.relations)) {
+            for (const R in ENTITY.relations) {
+                const RELATION_PATH = ENTITY_PATH.concat('relations', R);
+
+                const RELATION_NAME = eb_lib_compiler.parseForClass(R);
+                if (false === RELATION_NAME) {
+                    ADD(SEVERITY_ERROR, DIAGNOSTIC_INVALID_IDENTIFIER, RELATION_PATH,
+                        `The relation name '${R}' of entity '${E}' is invalid!`);
+                }
+                else if (Object.keys(ENTITY.columns).some(c => c.trim() === RELATION_NAME)) {
+                    ADD(SEVERITY_ERROR, DIAGNOSTIC_DUPLICATE_COLUMN, RELATION_PATH,
+                        `The relation '${RELATION_NAME}' has the same name as a column of entity '${E}'!`);
+                }
+                else {
+                    CHECK_METHOD_NAME(RELATION_NAME, RELATION_PATH, E);
+                }
+
+                let relation = ENTITY.relations[R];
+                if (!eb_lib_helpers.isObj<eb_lib_compiler.EntityRelation>(relation)) {
+                    relation = {
+                        target: eb_lib_helpers.toStringSafe(relation),
+                    };
+                }
+
+                const TARGET = eb_lib_helpers.toStringSafe(relation.target).trim();
+                if (Object.keys(ENTITIES).map(e => e.trim()).indexOf(TARGET) < 0) {
+                    ADD(SEVERITY_ERROR, DIAGNOSTIC_UNKNOWN_ENTITY,
+                        eb_lib_helpers.isObj(ENTITY.relations[R]) ? RELATION_PATH.concat('target') : RELATION_PATH,
+                        `The target entity '${TARGET}' of relation '${R}' does not exist!`);
+
+                    continue;
+                }
+
+                // join columns, which would refer to a composite primary key
+                const TYPE = eb_lib_helpers.normalizeString(relation.type);
+                if (eb_lib_compiler.RELATION_MANY_TO_MANY === TYPE) {
+                    for (const E2 of [ E, TARGET ]) {
+                        if (countIdColumns(ENTITIES[E2]) > 1) {
+                            ADD(SEVERITY_ERROR, DIAGNOSTIC_UNSUPPORTED_RELATION, RELATION_PATH,
+                                `The many-to-many relation '${R}' cannot refer to entity '${E2}', which has a composite primary key!`);
+                        }
+                    }
+                }
+                else if (('' === TYPE || eb_lib_compiler.RELATION_MANY_TO_ONE === TYPE || eb_lib_compiler.RELATION_ONE_TO_ONE === TYPE) &&
+                         eb_lib_helpers.isEmptyString(relation.mappedBy) &&
+                         eb_lib_helpers.isEmptyString(relation.referencedColumn)) {
+                    if (countIdColumns(ENTITIES[TARGET]) > 1) {
+                        ADD(SEVERITY_ERROR, DIAGNOSTIC_UNSUPPORTED_RELATION, RELATION_PATH,
+                            `The relation '${R}' cannot refer to the composite primary key of entity '${TARGET}'! Define a 'referencedColumn' instead.`);
+                    }
+                }
+            }
+        }
+    }
+
+    // the structure, if not submitted as XML, which has no data types
+    if ('xml' !== eb_lib_helpers.normalizeString(opts.format)) {
+        for (const E of eb_lib_schema.validateSchema(file, eb_lib_schema.getEntityFileSchema())) {
+            const PATH = eb_lib_schema.toJsonPath(E.path);
+            if (DIAGNOSTICS.some(d => SEVERITY_ERROR === d.severity && PATH === d.path)) {
+                continue;  // already reported
+            }
+
+            ADD(SEVERITY_ERROR, DIAGNOSTIC_SCHEMA, E.path, E.message);
+        }
+    }
+
+    return DIAGNOSTICS;
+}
+
+
+function countIdColumns(entity: eb_lib_compiler.EntityClass): number {
+    let count = 0;
+    if (eb_lib_helpers.isObj<eb_lib_compiler.EntityClass>(entity) &&
+        eb_lib_helpers.isObj<eb_lib_compiler.EntityColumnDescriptions>(entity.columns)) {
+        for (const C in entity.columns) {
+            const COLUMN = entity.columns[C];
+
+            if (eb_lib_helpers.isObj<eb_lib_compiler.EntityColumn>(COLUMN) && eb_lib_helpers.toBooleanSafe(COLUMN.id)) {
+                ++count;
+            }
+        }
+    }
+
+    return count;
+}
+
+function getJsonSourceMap(source: string): SourceMap {
+    const MAP: SourceMap = {
+        duplicates: [],
+        offsets: {},
+    };
+
+    let pos = 0;
+
+    const SKIP_WHITESPACES = () => {
+        while (pos < source.length && /\s/.test(source[pos])) {
+            ++pos;
+        }
+    };
+
+    const READ_STRING = (): string => {
+        const START = pos++;
+        while (pos < source.length && '"' !== source[pos]) {
+            if ('\\' === source[pos]) {
+                ++pos;
+            }
+
+            ++pos;
+        }
+        ++pos;
+
+        return JSON.parse(source.substring(START, pos));
+    };
+
+    const READ_VALUE = (path: eb_lib_schema.JsonPath) => {
+        SKIP_WHITESPACES();
+
+        switch (source[pos]) {
+            case '{':
+                {
+                    ++pos;
+
+                    const KEYS: { [key: string]: boolean } = {};
+                    while (pos < source.length) {
+                        SKIP_WHITESPACES();
+                        if ('"' !== source[pos]) {
+                            break;  // end of object
+                        }
+
+                        const OFFSET = pos;
+                        const KEY = READ_STRING();
+                        const KEY_PATH = path.concat(KEY);
+
+                        if (KEYS[KEY]) {
+                            MAP.duplicates.push({
+                                offset: OFFSET,
+                                path: KEY_PATH,
+                            });
+                        }
+                        else {
+                            MAP.offsets[ eb_lib_schema.toJsonPath(KEY_PATH) ] = OFFSET;
+                        }
+                        KEYS[KEY] = true;
+
+                        SKIP_WHITESPACES();
+                        ++pos;  // ':'
+
+                        READ_VALUE(KEY_PATH);
+
+                        SKIP_WHITESPACES();
+                        if (',' === source[pos]) {
+                            ++pos;
+                        }
+                    }
+                    ++pos;  // '}'
+                }
+                break;
+
+            case '[':
+                {
+                    ++pos;
+
+                    let index = 0;
+                    while (pos < source.length) {
+                        SKIP_WHITESPACES();
+                        if (']' === source[pos]) {
+                            break;
+                        }
+
+                        const ITEM_PATH = path.concat(index++);
+
+                        MAP.offsets[ eb_lib_schema.toJsonPath(ITEM_PATH) ] = pos;
+                        READ_VALUE(ITEM_PATH);
+
+                        SKIP_WHITESPACES();
+                        if (',' === source[pos]) {
+                            ++pos;
+                        }
+                        else if (']' !== source[pos]) {
+                            break;  // invalid
+                        }
+                    }
+                    ++pos;  // ']'
+                }
+                break;
+
+            case '"':
+                READ_STRING();
+                break;
+
+            default:
+                // number, boolean or (null)
+                while (pos < source.length && !/[\s,\]\}]/.test(source[pos])) {
+                    ++pos;
+                }
+                break;
+        }
+    };
+
+    READ_VALUE([]);
+
+    return MAP;
+}
+
+function getXmlSourceMap(source: string): SourceMap {
+    const MAP: SourceMap = {
+        duplicates: [],
+        offsets: {},
+    };
+
+    // the paths of the open elements and the number of their children by name
+    const ELEMENTS: { children: { [name: string]: number }, path: eb_lib_schema.JsonPath }[] = [];
+
+    const PARSER = SAX.parser(true, {});
+    PARSER.onerror = (err: any) => {
+        throw err;
+    };
+    PARSER.onopentag = (node: any) => {
+        const OFFSET = PARSER.startTagPosition - 1;
+
+        if (ELEMENTS.length < 1) {
+            // root element
+            ELEMENTS.push({
+                children: {},
+                path: [],
+            });
+
+            return;
+        }
+
+        const PARENT = ELEMENTS[ELEMENTS.length - 1];
+        const NAME: string = node.name;
+
+        const INDEX = PARENT.children[NAME] || 0;
+        PARENT.children[NAME] = INDEX + 1;
+
+        const PATH = PARENT.path.concat(NAME, INDEX);
+        MAP.offsets[ eb_lib_schema.toJsonPath(PATH) ] = OFFSET;
+
+        ELEMENTS.push({
+            children: {},
+            path: PATH,
+        });
+    };
+    PARSER.onclosetag = () => {
+        ELEMENTS.pop();
+    };
+
+    PARSER.write(source).close();
+
+    // elements, which occur only once, are no arrays
+    for (const P of Object.keys(MAP.offsets)) {
+        const OBJECT_PATH = P.replace(/\[0\]/g, '');
+        if (eb_lib_helpers.isNullOrUndefined(MAP.offsets[OBJECT_PATH])) {
+            MAP.offsets[OBJECT_PATH] = MAP.offsets[P];
+        }
+    }
+
+    return MAP;
+}
+
+function getYamlSourceMap(source: string): SourceMap {
+    const MAP: SourceMap = {
+        duplicates: [],
+        offsets: {},
+    };
+
+    // the keys and list items, the following lines can belong to
+    const STACK: { indent: number, isItem: boolean, path: eb_lib_schema.JsonPath }[] = [{
+        indent: -1,
+        isItem: false,
+        path: [],
+    }];
+    // the number of items of each list
+    const ITEM_COUNTS: { [path: string]: number } = {};
+
+    let lineOffset = 0;
+    for (const LINE of source.split('\n')) {
+        const OFFSET = lineOffset;
+        lineOffset += LINE.length + 1;
+
+        const TEXT = LINE.replace(/\r$/, '');
+        const TRIMMED = TEXT.trim();
+        if ('' === TRIMMED || TRIMMED.startsWith('#') || TRIMMED.startsWith('---')) {
+            continue;
+        }
+
+        const INDENT = TEXT.length - TEXT.replace(/^\s+/, '').length;
+
+        let content = TEXT.substr(INDENT);
+        let contentIndent = INDENT;
+
+        if (/^-(\s|$)/.test(content)) {
+            // list item
+            while (STACK[STACK.length - 1].indent > INDENT ||
+                   (STACK[STACK.length - 1].indent === INDENT && STACK[STACK.length - 1].isItem)) {
+                STACK.pop();
+            }
+
+            const LIST_PATH = STACK[STACK.length - 1].path;
+            const INDEX = ITEM_COUNTS[ eb_lib_schema.toJsonPath(LIST_PATH) ] || 0;
+            ITEM_COUNTS[ eb_lib_schema.toJsonPath(LIST_PATH) ] = INDEX + 1;
+
+            const ITEM_PATH = LIST_PATH.concat(INDEX);
+            MAP.offsets[ eb_lib_schema.toJsonPath(ITEM_PATH) ] = OFFSET + INDENT;
+
+            STACK.push({
+                indent: INDENT,
+                isItem: true,
+                path: ITEM_PATH,
+            });
+
+            const ITEM_CONTENT = content.replace(/^-\s*/, '');
+            contentIndent += content.length - ITEM_CONTENT.length;
+            content = ITEM_CONTENT;
+        }
+
+        const KEY_MATCH = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-\[\{][^:#]*?)\s*:(\s|$)/.exec(content);
+        if (!KEY_MATCH) {
+            continue;  // no key
+        }
+
+        let key = KEY_MATCH[1];
+        if (key.startsWith('"')) {
+            key = JSON.parse(key);
+        }
+        else if (key.startsWith("'")) {
+            key = key.substr(1, key.length - 2).replace(/''/g, "'");
+        }
+
+        while (STACK[STACK.length - 1].indent >= contentIndent) {
+            STACK.pop();
+        }
+
+        const KEY_PATH = STACK[STACK.length - 1].path.concat(key);
+        if (eb_lib_helpers.isNullOrUndefined(MAP.offsets[ eb_lib_schema.toJsonPath(KEY_PATH) ])) {
+            MAP.offsets[ eb_lib_schema.toJsonPath(KEY_PATH) ] = OFFSET + contentIndent;
+        }
+        else {
+            MAP.duplicates.push({
+                offset: OFFSET + contentIndent,
+                path: KEY_PATH,
+            });
+        }
+
+        STACK.push({
+            indent: contentIndent,
+            isItem: false,
+            path: KEY_PATH,
+        });
+    }
+
+    return MAP;
+}
+
+function isCSharpKeyword(name: string): boolean {
+    return CSHARP_KEYWORDS.indexOf(name) > -1;
+}
+
+function isPhpReservedWord(name: string): boolean {
+    return PHP_RESERVED_WORDS.indexOf(name.toLowerCase()) > -1;
+}
+
+function isSqlReservedWord(name: string): boolean {
+    return SQL_RESERVED_WORDS.indexOf(name.toLowerCase()) > -1;
+}
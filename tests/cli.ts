@@ -0,0 +1,142 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as Assert from 'assert';
+import * as ChildProcess from 'child_process';
+import * as FS from 'fs';
+import * as FSExtra from 'fs-extra';
+import * as OS from 'os';
+import * as Path from 'path';
+
+
+const CLI_FILE = Path.join(__dirname, '../cli.js');
+
+const ENTITY_FILE = JSON.stringify({
+    'namespace': 'Blog',
+    entities: {
+        Post: {
+            columns: {
+                id: { id: true, auto: true, type: 'int' },
+                title: { type: 'string', length: 255 },
+            },
+        },
+    },
+});
+
+
+/**
+ * '--clean' deletes the generated files of removed entities.
+ */
+export function cleanRemovesFilesOfRemovedEntities() {
+    withTempDir((dir) => {
+        const ENTITIES = JSON.parse(ENTITY_FILE);
+        ENTITIES.entities['Tag'] = {
+            columns: {
+                id: { id: true, auto: true, type: 'int' },
+            },
+        };
+        FS.writeFileSync(Path.join(dir, 'entities.json'), JSON.stringify(ENTITIES), 'utf8');
+
+        let result = runCli(dir, [ 'entities.json', '--target=typeorm', '--out=out', '--manifest' ]);
+        Assert.strictEqual(result.status, 0, result.stderr);
+        Assert.ok(FS.existsSync(Path.join(dir, 'out/Blog/Tag.ts')));
+
+        FS.writeFileSync(Path.join(dir, 'entities.json'), ENTITY_FILE, 'utf8');
+
+        result = runCli(dir, [ 'entities.json', '--target=typeorm', '--out=out', '--clean' ]);
+        Assert.strictEqual(result.status, 0, result.stderr);
+        Assert.ok(FS.existsSync(Path.join(dir, 'out/Blog/Post.ts')));
+        Assert.ok(!FS.existsSync(Path.join(dir, 'out/Blog/Tag.ts')));
+    });
+}
+
+/**
+ * Built-in targets, which generate whole entity files, can be selected by '--target'.
+ */
+export function fileTargetsCanBeSelected() {
+    withTempDir((dir) => {
+        FS.writeFileSync(Path.join(dir, 'entities.json'), ENTITY_FILE, 'utf8');
+
+        const RESULT = runCli(dir, [ 'entities.json', '--target=sql', '--out=out' ]);
+
+        Assert.strictEqual(RESULT.status, 0, RESULT.stderr);
+        Assert.ok(FS.existsSync(Path.join(dir, 'out/schema.sql')));
+    });
+}
+
+/**
+ * Targets of plugins, which have been registered by 'registerFileTarget()', can be selected by '--target'.
+ */
+export function pluginFileTargetsCanBeSelected() {
+    withTempDir((dir) => {
+        FS.writeFileSync(Path.join(dir, 'entities.json'), ENTITY_FILE, 'utf8');
+        FS.writeFileSync(Path.join(dir, 'plugin.js'), `
+exports.register = function(context) {
+    context.registerFileTarget('class-list', async function(fileContext) {
+        await fileContext.output.mkdirs(fileContext.outDir);
+
+        await fileContext.writeFile(
+            require('path').join(fileContext.outDir, 'classes.txt'),
+            fileContext.classes.map(c => c.name).join('\\n')
+        );
+    });
+};
+`, 'utf8');
+        FS.writeFileSync(Path.join(dir, 'config.json'), JSON.stringify({
+            plugins: [ './plugin.js' ],
+        }), 'utf8');
+
+        const RESULT = runCli(dir, [ 'entities.json', '-c', 'config.json', '--target=class-list', '--out=out' ]);
+
+        Assert.strictEqual(RESULT.status, 0, RESULT.stderr);
+        Assert.strictEqual(FS.readFileSync(Path.join(dir, 'out/classes.txt'), 'utf8'), 'Post');
+    });
+}
+
+/**
+ * Unknown targets are rejected.
+ */
+export function unknownTargetsAreRejected() {
+    withTempDir((dir) => {
+        FS.writeFileSync(Path.join(dir, 'entities.json'), ENTITY_FILE, 'utf8');
+
+        const RESULT = runCli(dir, [ 'entities.json', '--target=unknown', '--out=out' ]);
+
+        Assert.strictEqual(RESULT.status, 4);
+        Assert.ok(RESULT.stderr.indexOf(`Unknown target 'unknown'!`) > -1, RESULT.stderr);
+    });
+}
+
+
+function runCli(cwd: string, args: string[]) {
+    return ChildProcess.spawnSync(process.execPath, [ CLI_FILE ].concat(args), {
+        cwd: cwd,
+        encoding: 'utf8',
+        timeout: 60000,
+    });
+}
+
+function withTempDir(action: (dir: string) => void) {
+    const DIR = FS.mkdtempSync(Path.join(OS.tmpdir(), 'entity-baker-'));
+    try {
+        action(DIR);
+    }
+    finally {
+        FSExtra.removeSync(DIR);
+    }
+}
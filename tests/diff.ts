@@ -0,0 +1,257 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as Assert from 'assert';
+import * as eb_lib_compiler from '../lib/compiler';
+import * as eb_lib_diff from '../lib/diff';
+
+
+const OLD_FILE: eb_lib_compiler.EntityFile = {
+    entities: {
+        Product: {
+            table: 'products',
+            columns: {
+                id: { id: true, auto: true, type: 'int' },
+                name: { type: 'string', length: 100 },
+                stock: { type: 'int', 'default': 0 },
+            },
+        },
+    },
+};
+
+// renames 'Product' and its column 'name', adds a column and an entity
+const RENAMED_FILE: eb_lib_compiler.EntityFile = {
+    entities: {
+        Article: {
+            renamedFrom: 'Product',
+            table: 'articles',
+            columns: {
+                id: { id: true, auto: true, type: 'int' },
+                price: { type: 'decimal', precision: 10, scale: 2, 'null': true },
+                stock: { type: 'int', 'default': 0 },
+                title: { renamedFrom: 'name', type: 'string', length: 100 },
+            },
+        },
+        Category: {
+            columns: {
+                id: { id: true, auto: true, type: 'int' },
+            },
+        },
+    },
+};
+
+
+/**
+ * Added, removed and changed columns are detected.
+ */
+export function changedColumns() {
+    Assert.deepStrictEqual(eb_lib_diff.diffEntityFiles(OLD_FILE, OLD_FILE).entities, []);
+
+    const CHANGES = eb_lib_diff.diffEntityFiles(OLD_FILE, {
+        entities: {
+            Product: {
+                table: 'products',
+                columns: {
+                    id: { id: true, auto: true, type: 'int' },
+                    name: { type: 'string', length: 200, 'null': true },
+                    sku: 'string',
+                },
+            },
+        },
+    });
+
+    Assert.deepStrictEqual(CHANGES.entities.map(e => [ e.name, e.kind ]), [
+        [ 'Product', eb_lib_diff.CHANGE_CHANGED ],
+    ]);
+    Assert.deepStrictEqual(CHANGES.entities[0].columns.map(c => [ c.name, c.kind, c.changes ]), [
+        [ 'name', eb_lib_diff.CHANGE_CHANGED, [ eb_lib_diff.COLUMN_CHANGE_NULL, eb_lib_diff.COLUMN_CHANGE_TYPE ] ],
+        [ 'sku', eb_lib_diff.CHANGE_ADDED, [] ],
+        [ 'stock', eb_lib_diff.CHANGE_REMOVED, [] ],
+    ]);
+
+    Assert.deepStrictEqual(eb_lib_diff.toSqlStatements(eb_lib_diff.diffEntityFiles(OLD_FILE, withColumns({
+        name: { type: 'string', length: 200, 'null': true },
+    })), 'postgres'), [
+        `ALTER TABLE "products" ALTER COLUMN "name" TYPE VARCHAR(200)`,
+        `ALTER TABLE "products" ALTER COLUMN "name" DROP NOT NULL`,
+    ]);
+    Assert.deepStrictEqual(eb_lib_diff.toSqlStatements(eb_lib_diff.diffEntityFiles(OLD_FILE, withColumns({
+        name: { type: 'string', length: 200, 'null': true },
+    })), 'sqlite'), [
+        `-- The column 'name' of table 'products' has to be changed manually (null, type).`,
+    ]);
+
+    Assert.deepStrictEqual(eb_lib_diff.toSqlStatements(eb_lib_diff.diffEntityFiles(OLD_FILE, {
+        entities: {},
+    })), [
+        `DROP TABLE "products"`,
+    ]);
+}
+
+/**
+ * Changed default values are migrated by every dialect.
+ */
+export function changedDefaults() {
+    const CHANGES = eb_lib_diff.diffEntityFiles(OLD_FILE, withColumns({
+        name: { type: 'string', length: 100, dbDefault: `'unnamed'` },
+        stock: { type: 'int' },
+    }));
+
+    Assert.deepStrictEqual(CHANGES.entities[0].columns.map(c => [ c.name, c.kind, c.changes ]), [
+        [ 'name', eb_lib_diff.CHANGE_CHANGED, [ eb_lib_diff.COLUMN_CHANGE_DEFAULT ] ],
+        [ 'stock', eb_lib_diff.CHANGE_CHANGED, [ eb_lib_diff.COLUMN_CHANGE_DEFAULT ] ],
+    ]);
+
+    Assert.deepStrictEqual(eb_lib_diff.toSqlStatements(CHANGES, 'postgres'), [
+        `ALTER TABLE "products" ALTER COLUMN "name" SET DEFAULT 'unnamed'`,
+        `ALTER TABLE "products" ALTER COLUMN "stock" DROP DEFAULT`,
+    ]);
+    Assert.deepStrictEqual(eb_lib_diff.toSqlStatements(CHANGES, 'mysql'), [
+        "ALTER TABLE `products` MODIFY COLUMN `name` VARCHAR(100) DEFAULT 'unnamed' NOT NULL",
+        "ALTER TABLE `products` MODIFY COLUMN `stock` INT NOT NULL",
+    ]);
+
+    const MSSQL = eb_lib_diff.toSqlStatements(CHANGES, 'mssql');
+    Assert.strictEqual(MSSQL.length, 2);
+    Assert.strictEqual(MSSQL[0], `ALTER TABLE [products] ADD DEFAULT 'unnamed' FOR [name]`);
+    Assert.ok(MSSQL[1].startsWith('DECLARE @df1 NVARCHAR(128); '), MSSQL[1]);
+    Assert.ok(MSSQL[1].indexOf(`[c].[name] = 'stock'`) > -1, MSSQL[1]);
+    Assert.ok(MSSQL[1].endsWith(`IF @df1 IS NOT NULL EXEC(N'ALTER TABLE [products] DROP CONSTRAINT [' + @df1 + N']')`), MSSQL[1]);
+
+    const EF_CORE = eb_lib_diff.toEntityFrameworkCoreMigration(CHANGES, { name: 'ChangeDefaults' });
+    Assert.ok(EF_CORE.indexOf(`defaultValueSql: "'unnamed'"`) > -1, EF_CORE);
+    Assert.ok(EF_CORE.indexOf(`oldDefaultValue: 0`) > -1, EF_CORE);
+
+    const DOCTRINE = eb_lib_diff.toDoctrineMigration(CHANGES, { name: 'ChangeDefaults' });
+    Assert.ok(DOCTRINE.indexOf(`ALTER TABLE "products" ALTER COLUMN "stock" DROP DEFAULT`) > -1, DOCTRINE);
+    Assert.ok(DOCTRINE.indexOf(`ALTER TABLE "products" ALTER COLUMN "stock" SET DEFAULT 0`) > -1, DOCTRINE);
+}
+
+/**
+ * Changes are rendered as Entity Framework Core and Doctrine migrations, which can be reverted.
+ */
+export function migrations() {
+    const CHANGES = eb_lib_diff.diffEntityFiles(OLD_FILE, RENAMED_FILE);
+
+    const EF_CORE = eb_lib_diff.toEntityFrameworkCoreMigration(CHANGES, {
+        name: 'RenameProducts',
+        time: new Date(Date.UTC(2026, 0, 2, 3, 4, 5)),
+    });
+    Assert.ok(EF_CORE.indexOf(`Migration("20260102030405_RenameProducts")`) > -1, EF_CORE);
+    Assert.ok(EF_CORE.indexOf(`public partial class RenameProducts : Migration`) > -1, EF_CORE);
+    Assert.ok(EF_CORE.indexOf(`migrationBuilder.RenameTable(
+                name: "products",
+                newName: "articles");`) > -1, EF_CORE);
+    Assert.ok(EF_CORE.indexOf(`migrationBuilder.AddColumn<decimal>(
+                name: "price",
+                table: "articles",
+                nullable: true,
+                precision: 10,
+                scale: 2);`) > -1, EF_CORE);
+
+    const DOWN = EF_CORE.substr(EF_CORE.indexOf('void Down('));
+    Assert.ok(DOWN.indexOf(`migrationBuilder.DropTable(
+                name: "Category");`) > -1, DOWN);
+
+    const DOCTRINE = eb_lib_diff.toDoctrineMigration(CHANGES, {
+        name: 'Version1',
+        'namespace': 'App.Migrations',
+    });
+    Assert.ok(DOCTRINE.indexOf(`namespace App\\Migrations;`) > -1, DOCTRINE);
+    Assert.ok(DOCTRINE.indexOf(`return 'Rename Product to Article, Add Category';`) > -1, DOCTRINE);
+    Assert.ok(DOCTRINE.indexOf(`$this->addSql('ALTER TABLE "articles" RENAME COLUMN "name" TO "title"');`) > -1, DOCTRINE);
+    Assert.ok(DOCTRINE.indexOf(`$this->addSql('DROP TABLE "Category"');`) > -1, DOCTRINE);
+}
+
+/**
+ * The default constraint of a MSSQL column is created again, after its type has been changed.
+ */
+export function mssqlDefaultConstraintOfAlteredColumn() {
+    const CHANGES = eb_lib_diff.diffEntityFiles(OLD_FILE, withColumns({
+        stock: { type: 'bigint', 'default': 0 },
+    }));
+
+    const STATEMENTS = eb_lib_diff.toSqlStatements(CHANGES, 'mssql');
+    Assert.strictEqual(STATEMENTS.length, 3);
+    Assert.ok(STATEMENTS[0].startsWith('DECLARE @df1 '), STATEMENTS[0]);
+    Assert.strictEqual(STATEMENTS[1], `ALTER TABLE [products] ALTER COLUMN [stock] BIGINT NOT NULL`);
+    Assert.strictEqual(STATEMENTS[2], `ALTER TABLE [products] ADD DEFAULT 0 FOR [stock]`);
+}
+
+/**
+ * Entities and columns are renamed by 'renamedFrom', in every dialect.
+ */
+export function renamedEntitiesAndColumns() {
+    const CHANGES = eb_lib_diff.diffEntityFiles(OLD_FILE, RENAMED_FILE);
+
+    Assert.deepStrictEqual(CHANGES.entities.map(e => [ e.name, e.kind, e.oldName ]), [
+        [ 'Article', eb_lib_diff.CHANGE_RENAMED, 'Product' ],
+        [ 'Category', eb_lib_diff.CHANGE_ADDED, undefined ],
+    ]);
+    Assert.deepStrictEqual(CHANGES.entities[0].columns.map(c => [ c.name, c.kind, c.oldName ]), [
+        [ 'price', eb_lib_diff.CHANGE_ADDED, undefined ],
+        [ 'title', eb_lib_diff.CHANGE_RENAMED, 'name' ],
+    ]);
+
+    Assert.deepStrictEqual(eb_lib_diff.toSqlStatements(CHANGES, 'mssql').slice(1), [
+        `EXEC sp_rename 'products', 'articles'`,
+        `EXEC sp_rename 'articles.name', 'title', 'COLUMN'`,
+        `ALTER TABLE [articles] ADD [price] DECIMAL(10, 2)`,
+    ]);
+    Assert.deepStrictEqual(eb_lib_diff.toSqlStatements(CHANGES, 'mysql').slice(1), [
+        "RENAME TABLE `products` TO `articles`",
+        "ALTER TABLE `articles` RENAME COLUMN `name` TO `title`",
+        "ALTER TABLE `articles` ADD COLUMN `price` DECIMAL(10, 2)",
+    ]);
+    Assert.deepStrictEqual(eb_lib_diff.toSqlStatements(CHANGES, 'postgres').slice(1), [
+        `ALTER TABLE "products" RENAME TO "articles"`,
+        `ALTER TABLE "articles" RENAME COLUMN "name" TO "title"`,
+        `ALTER TABLE "articles" ADD COLUMN "price" NUMERIC(10, 2)`,
+    ]);
+    Assert.strictEqual(eb_lib_diff.toSqlStatements(CHANGES, 'sqlite')[0], `CREATE TABLE "Category" (
+    "id" INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL
+)`);
+
+    Assert.deepStrictEqual(eb_lib_diff.toSqlStatements(eb_lib_diff.invertChangeSet(CHANGES), 'postgres'), [
+        `ALTER TABLE "articles" RENAME TO "products"`,
+        `ALTER TABLE "products" RENAME COLUMN "title" TO "name"`,
+        `ALTER TABLE "products" DROP COLUMN "price"`,
+        `DROP TABLE "Category"`,
+    ]);
+
+    Assert.throws(() => {
+        eb_lib_diff.diffEntityFiles(OLD_FILE, {
+            entities: {
+                Article: Object.assign({}, OLD_FILE.entities['Product'], { renamedFrom: 'Item' }),
+            },
+        });
+    }, /The entity 'Item', which has been renamed to 'Article', does not exist!/);
+}
+
+
+function withColumns(columns: eb_lib_compiler.EntityColumnDescriptions): eb_lib_compiler.EntityFile {
+    const PRODUCT = OLD_FILE.entities['Product'];
+
+    return {
+        entities: {
+            Product: Object.assign({}, PRODUCT, {
+                columns: Object.assign({}, PRODUCT.columns, columns),
+            }),
+        },
+    };
+}
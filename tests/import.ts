@@ -0,0 +1,80 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as Assert from 'assert';
+import * as eb_lib_compiler from '../lib/compiler';
+import * as eb_lib_import from '../lib/import';
+import * as FS from 'fs';
+import * as FSExtra from 'fs-extra';
+import * as OS from 'os';
+import * as Path from 'path';
+
+
+/**
+ * Importing generated Doctrine XML mappings returns the same entity file.
+ */
+export async function doctrineXmlRoundTrip() {
+    const FILE: eb_lib_compiler.EntityFile = {
+        'namespace': 'Blog',
+        enums: {
+            PostStatus: { values: { Draft: 'draft', Published: 'published' } },
+            Priority: { values: { Low: 1, High: 5 } },
+        },
+        entities: {
+            Post: {
+                table: 'posts',
+                columns: {
+                    id: { id: true, auto: true, type: 'int' },
+                    created: 'datetime',
+                    priority: { type: 'enum', 'enum': 'Priority' },
+                    status: { type: 'enum', 'enum': 'PostStatus', 'null': true },
+                    title: { type: 'string', length: 255 },
+                },
+                relations: {
+                    author: { type: 'many-to-one', target: 'User', inversedBy: 'posts', column: 'author_id', referencedColumn: 'id' },
+                },
+                indexes: [
+                    { columns: [ 'title' ], name: 'idx_title' },
+                ],
+            },
+            User: {
+                table: 'users',
+                columns: {
+                    id: { id: true, auto: true, type: 'int' },
+                },
+                relations: {
+                    posts: { type: 'one-to-many', target: 'Post', mappedBy: 'author' },
+                },
+            },
+        },
+    };
+
+    const OUT_DIR = FS.mkdtempSync(Path.join(OS.tmpdir(), 'entity-baker-'));
+    try {
+        await eb_lib_compiler.compile({
+            file: FILE,
+            outDir: OUT_DIR,
+            target: eb_lib_compiler.EntityFramework.Doctrine,
+        });
+
+        Assert.deepStrictEqual(await eb_lib_import.importEntities(eb_lib_import.IMPORTER_DOCTRINE_XML, OUT_DIR), FILE);
+    }
+    finally {
+        FSExtra.removeSync(OUT_DIR);
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as eb_lib_helpers from '../lib/helpers';
+
+
+// test modules, whose exported functions are the tests
+const TEST_MODULES: { [name: string]: any } = {
+    'cli': require('./cli'),
+    'diff': require('./diff'),
+    'import': require('./import'),
+    'manifest': require('./manifest'),
+    'naming': require('./naming'),
+    'output': require('./output'),
+    'prisma': require('./prisma'),
+    'schema': require('./schema'),
+    'validation': require('./validation'),
+};
+
+const RUN_TESTS = async () => {
+    let failed = 0;
+
+    for (const M in TEST_MODULES) {
+        for (const T in TEST_MODULES[M]) {
+            eb_lib_helpers.write(`${M}.${T}... `);
+
+            try {
+                await Promise.resolve( TEST_MODULES[M][T]() );
+
+                eb_lib_helpers.write_ln(`[OK]`);
+            }
+            catch (e) {
+                ++failed;
+
+                eb_lib_helpers.write_ln(`[ERROR: '${eb_lib_helpers.toStringSafe(e)}']`);
+            }
+        }
+    }
+
+    return failed;
+};
+
+RUN_TESTS().then((failed) => {
+    process.exit(failed > 0 ? 1 : 0);
+}, (err) => {
+    eb_lib_helpers.write_err_ln(`[ERROR] '${eb_lib_helpers.toStringSafe(err)}'`);
+    process.exit(1);
+});
@@ -0,0 +1,158 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as Assert from 'assert';
+import * as eb_lib_compiler from '../lib/compiler';
+import * as eb_lib_output from '../lib/output';
+import * as Path from 'path';
+
+
+const FILE: eb_lib_compiler.EntityFile = {
+    entities: {
+        Post: {
+            columns: {
+                id: { id: true, type: 'int' },
+                title: 'string',
+            },
+        },
+        Tag: {
+            columns: {
+                id: { id: true, type: 'int' },
+            },
+        },
+    },
+};
+
+
+/**
+ * 'cleanExtensions' also deletes the extension files of removed entities.
+ */
+export async function cleanExtensionsRemovesStaleExtensions() {
+    const OUTPUT = new eb_lib_output.MemoryOutputWriter();
+
+    await compile(FILE, OUTPUT, eb_lib_compiler.EntityFramework.EntityFrameworkCore);
+
+    const CLEANED = await compile({
+        entities: {
+            Post: FILE.entities['Post'],
+        },
+    }, OUTPUT, eb_lib_compiler.EntityFramework.EntityFrameworkCore, {
+        cleanExtensions: true,
+    });
+    Assert.deepStrictEqual(toActions(CLEANED).filter(a => eb_lib_compiler.FILE_REMOVED === a[1]), [
+        [ 'Tag.cs', eb_lib_compiler.FILE_REMOVED ],
+        [ 'Tag.Extensions.cs', eb_lib_compiler.FILE_REMOVED ],
+    ]);
+    Assert.deepStrictEqual(Object.keys(OUTPUT.toObject('/out')), [
+        '.entity-baker-manifest.json', 'Post.Extensions.cs', 'Post.cs',
+    ]);
+}
+
+
+/**
+ * 'clean' deletes the files of removed entities, but keeps their extensions.
+ */
+export async function cleanRemovesStaleFiles() {
+    const OUTPUT = new eb_lib_output.MemoryOutputWriter();
+    const ONLY_POST: eb_lib_compiler.EntityFile = {
+        entities: {
+            Post: FILE.entities['Post'],
+        },
+    };
+
+    await compile(FILE, OUTPUT, eb_lib_compiler.EntityFramework.EntityFrameworkCore);
+
+    // without 'clean', stale files are only remembered
+    const KEPT = await compile(ONLY_POST, OUTPUT, eb_lib_compiler.EntityFramework.EntityFrameworkCore);
+    Assert.ok(!KEPT.files.some(f => eb_lib_compiler.FILE_REMOVED === f.action));
+    Assert.deepStrictEqual(Object.keys(OUTPUT.toObject('/out')), [
+        '.entity-baker-manifest.json', 'Post.Extensions.cs', 'Post.cs', 'Tag.Extensions.cs', 'Tag.cs',
+    ]);
+
+    const CLEANED = await compile(ONLY_POST, OUTPUT, eb_lib_compiler.EntityFramework.EntityFrameworkCore, {
+        clean: true,
+    });
+    Assert.deepStrictEqual(toActions(CLEANED).filter(a => eb_lib_compiler.FILE_REMOVED === a[1]), [
+        [ 'Tag.cs', eb_lib_compiler.FILE_REMOVED ],
+    ]);
+    Assert.deepStrictEqual(Object.keys(OUTPUT.toObject('/out')), [
+        '.entity-baker-manifest.json', 'Post.Extensions.cs', 'Post.cs', 'Tag.Extensions.cs',
+    ]);
+}
+
+/**
+ * Classes, whose input and output have not been changed since the last run, are not generated again.
+ */
+export async function unchangedClassesAreSkipped() {
+    const OUTPUT = new eb_lib_output.MemoryOutputWriter();
+
+    const FIRST = await compile(FILE, OUTPUT);
+    Assert.strictEqual(FIRST.written, 3);
+    Assert.ok(OUTPUT.toObject('/out').hasOwnProperty('.entity-baker-manifest.json'));
+
+    const SECOND = await compile(FILE, OUTPUT);
+    Assert.deepStrictEqual(toActions(SECOND), [
+        [ 'Post.ts', eb_lib_compiler.FILE_UNCHANGED ],
+        [ 'Tag.ts', eb_lib_compiler.FILE_UNCHANGED ],
+        [ 'index.ts', eb_lib_compiler.FILE_UNCHANGED ],
+    ]);
+    Assert.strictEqual(SECOND.skipped, 3);
+    Assert.strictEqual(SECOND.written, 0);
+
+    // changed input of 'Post' and edited output of 'Tag'
+    await OUTPUT.write('/out/Tag.ts', '// edited');
+
+    const THIRD = await compile({
+        entities: {
+            Post: {
+                columns: {
+                    id: { id: true, type: 'int' },
+                    title: 'text',
+                },
+            },
+            Tag: FILE.entities['Tag'],
+        },
+    }, OUTPUT);
+    Assert.deepStrictEqual(toActions(THIRD), [
+        [ 'Post.ts', eb_lib_compiler.FILE_OVERWRITTEN ],
+        [ 'Tag.ts', eb_lib_compiler.FILE_OVERWRITTEN ],
+        [ 'index.ts', eb_lib_compiler.FILE_UNCHANGED ],
+    ]);
+    Assert.notStrictEqual(OUTPUT.toObject('/out')['Tag.ts'], '// edited');
+}
+
+
+function compile(
+    file: eb_lib_compiler.EntityFile, output: eb_lib_output.OutputWriter,
+    target = eb_lib_compiler.EntityFramework.TypeORM, opts?: Partial<eb_lib_compiler.EntityCompilerOptions>,
+) {
+    return eb_lib_compiler.compile(Object.assign({
+        file: file,
+        manifest: true,
+        outDir: '/out',
+        output: output,
+        target: target,
+    }, opts));
+}
+
+function toActions(result: eb_lib_compiler.EntityCompilerResult): string[][] {
+    return result.files.map(f => {
+        return [ Path.relative(Path.resolve('/out'), f.path).split(Path.sep).join('/'), f.action ];
+    });
+}
@@ -0,0 +1,119 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as Assert from 'assert';
+import * as eb_lib_compiler from '../lib/compiler';
+import * as eb_lib_naming from '../lib/naming';
+import * as eb_lib_output from '../lib/output';
+import * as eb_lib_validation from '../lib/validation';
+
+
+/**
+ * Converts names to the supported cases.
+ */
+export function cases() {
+    Assert.strictEqual(eb_lib_naming.changeCase('blog_post', 'PascalCase'), 'BlogPost');
+    Assert.strictEqual(eb_lib_naming.changeCase('createdAt', 'snake_case'), 'created_at');
+    Assert.strictEqual(eb_lib_naming.changeCase('created_at', 'camel'), 'createdAt');
+    Assert.strictEqual(eb_lib_naming.changeCase('BlogPost', 'kebab-case'), 'blog-post');
+    Assert.strictEqual(eb_lib_naming.changeCase(' Blog_Post ', 'none'), 'Blog_Post');
+    Assert.throws(() => eb_lib_naming.changeCase('post', 'upper'), /The case 'upper' is not supported!/);
+}
+
+/**
+ * 'compile()' rejects custom strategies, which return invalid identifiers.
+ */
+export async function compileRejectsInvalidMethodNames() {
+    const OUTPUT = new eb_lib_output.MemoryOutputWriter();
+
+    let error: any;
+    try {
+        await eb_lib_compiler.compile({
+            file: POST_FILE,
+            naming: <eb_lib_naming.NamingStrategy>{
+                toMethodName: (name: string) => eb_lib_naming.changeCase(name, eb_lib_naming.CASE_KEBAB),
+            },
+            outDir: '/out',
+            output: OUTPUT,
+            target: eb_lib_compiler.EntityFramework.TypeORM,
+        });
+    }
+    catch (e) {
+        error = e;
+    }
+
+    Assert.ok(error, 'No error');
+    Assert.ok(/The property \/ method name 'created-at' of 'created_at' in entity 'Post' is invalid!/.test(error.message), error.message);
+    Assert.deepStrictEqual(OUTPUT.files, {});
+}
+
+/**
+ * Kebab case cannot be used for class names, properties and methods.
+ */
+export function kebabCaseIsNoIdentifier() {
+    Assert.throws(() => eb_lib_naming.createNamingStrategy({ classes: 'kebab-case' }),
+                  /The case 'kebab' cannot be used for class names!/);
+    Assert.throws(() => eb_lib_naming.createNamingStrategy({ methods: 'kebab' }),
+                  /The case 'kebab' cannot be used for properties and methods!/);
+
+    const DIAGNOSTICS = eb_lib_validation.validate(POST_FILE, {
+        naming: { methods: 'kebab' },
+    });
+    Assert.ok(DIAGNOSTICS.some(d => '$.naming' === d.path), JSON.stringify(DIAGNOSTICS));
+
+    const NAMING = eb_lib_naming.createNamingStrategy({ columns: 'kebab', tables: 'kebab' });
+    Assert.strictEqual(NAMING.toColumnName('createdAt'), 'created-at');
+    Assert.strictEqual(NAMING.toTableName('BlogPost'), 'blog-post');
+}
+
+/**
+ * Custom strategies may only implement some of the methods.
+ */
+export function partialCustomStrategy() {
+    const NAMING = eb_lib_naming.toNamingStrategy(<eb_lib_naming.NamingStrategy>{
+        toTableName: (className: string) => 'tbl_' + className.toLowerCase(),
+    });
+
+    Assert.strictEqual(NAMING.toClassName('BlogPost'), 'BlogPost');
+    Assert.strictEqual(NAMING.toMethodName('created_at'), 'CreatedAt');
+    Assert.strictEqual(NAMING.toTableName('BlogPost'), 'tbl_blogpost');
+}
+
+/**
+ * Returns the English plural of words.
+ */
+export function plurals() {
+    Assert.strictEqual(eb_lib_naming.pluralize('category'), 'categories');
+    Assert.strictEqual(eb_lib_naming.pluralize('day'), 'days');
+    Assert.strictEqual(eb_lib_naming.pluralize('box'), 'boxes');
+    Assert.strictEqual(eb_lib_naming.pluralize('POST'), 'POSTS');
+    Assert.strictEqual(eb_lib_naming.pluralize(''), '');
+}
+
+
+const POST_FILE: any = {
+    entities: {
+        Post: {
+            columns: {
+                created_at: 'datetime',
+                id: { id: true, type: 'int' },
+            },
+        },
+    },
+};
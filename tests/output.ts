@@ -0,0 +1,94 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as Assert from 'assert';
+import * as eb_lib_compiler from '../lib/compiler';
+import * as eb_lib_output from '../lib/output';
+import * as Path from 'path';
+
+
+/**
+ * 'compile()' writes into memory and reads existing files from there.
+ */
+export async function compileIntoMemory() {
+    const OUTPUT = new eb_lib_output.MemoryOutputWriter({
+        '/out/Post.ts': '// outdated',
+    });
+
+    const RESULT = await eb_lib_compiler.compile({
+        file: POST_FILE,
+        outDir: '/out',
+        output: OUTPUT,
+        target: eb_lib_compiler.EntityFramework.TypeORM,
+    });
+
+    Assert.deepStrictEqual(RESULT.files.map(f => [ f.path, f.action ]), [
+        [ Path.resolve('/out/Post.ts'), eb_lib_compiler.FILE_OVERWRITTEN ],
+        [ Path.resolve('/out/index.ts'), eb_lib_compiler.FILE_CREATED ],
+    ]);
+
+    const FILES = OUTPUT.toObject('/out');
+    Assert.deepStrictEqual(Object.keys(FILES), [ 'Post.ts', 'index.ts' ]);
+    Assert.ok(FILES['Post.ts'].indexOf('export class Post') > -1, FILES['Post.ts']);
+}
+
+/**
+ * The in-memory writer handles files and directories like a file system.
+ */
+export async function memoryWriter() {
+    const OUTPUT = new eb_lib_output.MemoryOutputWriter({
+        '/out/a.txt': 'A',
+    });
+
+    Assert.ok(await OUTPUT.exists('/out'));
+    Assert.ok(await OUTPUT.exists('/out/a.txt'));
+    Assert.ok(!(await OUTPUT.exists('/out/sub')));
+
+    await OUTPUT.mkdirs('/out/sub/dir');
+    Assert.ok(await OUTPUT.exists('/out/sub'));
+    Assert.deepStrictEqual(OUTPUT.toObject('/out'), { 'a.txt': 'A' });
+
+    await OUTPUT.write('/out/sub/dir/b.txt', 'B');
+    Assert.strictEqual(await OUTPUT.read('/out/sub/dir/b.txt'), 'B');
+    Assert.deepStrictEqual(OUTPUT.toObject('/out'), { 'a.txt': 'A', 'sub/dir/b.txt': 'B' });
+
+    await OUTPUT.remove('/out/a.txt');
+    Assert.ok(!(await OUTPUT.exists('/out/a.txt')));
+
+    let error: any;
+    try {
+        await OUTPUT.read('/out/a.txt');
+    }
+    catch (e) {
+        error = e;
+    }
+    Assert.ok(error && /does not exist!/.test(error.message), 'No error');
+}
+
+
+const POST_FILE: eb_lib_compiler.EntityFile = {
+    entities: {
+        Post: {
+            columns: {
+                id: { id: true, type: 'int' },
+                title: 'string',
+            },
+        },
+    },
+};
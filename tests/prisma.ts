@@ -0,0 +1,92 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as Assert from 'assert';
+import * as eb_lib_compiler from '../lib/compiler';
+import * as eb_lib_output from '../lib/output';
+
+
+const OUT_DIR = '/out';
+
+const ENTITY_FILE: eb_lib_compiler.EntityFile = {
+    entities: {
+        Product: {
+            columns: {
+                code: { id: true, type: 'string', length: 16 },
+                name: { type: 'string', length: 100 },
+                notes: 'text',
+                price: { type: 'decimal', precision: 10, scale: 2 },
+                weight: { type: 'decimal', precision: 6 },
+            },
+            relations: {
+                category: { type: 'many-to-one', target: 'Category', column: 'category_code', referencedColumn: 'code' },
+            },
+        },
+        Category: {
+            columns: {
+                code: { id: true, type: 'string', length: 8 },
+            },
+        },
+    },
+};
+
+
+/**
+ * Length, precision and scale become native types.
+ */
+export async function nativeTypes() {
+    const SCHEMA = await compileSchema('mysql');
+
+    Assert.ok(/^\s+code\s+String\s+@id @db\.VarChar\(16\)$/m.test(SCHEMA), SCHEMA);
+    Assert.ok(/^\s+name\s+String\s+@db\.VarChar\(100\)$/m.test(SCHEMA), SCHEMA);
+    Assert.ok(/^\s+notes\s+String$/m.test(SCHEMA), SCHEMA);
+    Assert.ok(/^\s+price\s+Decimal\s+@db\.Decimal\(10, 2\)$/m.test(SCHEMA), SCHEMA);
+    Assert.ok(/^\s+weight\s+Decimal\s+@db\.Decimal\(6, 0\)$/m.test(SCHEMA), SCHEMA);
+
+    // foreign key has the type of the referenced column
+    Assert.ok(/^\s+category_code\s+String\?\s+@db\.VarChar\(8\)$/m.test(SCHEMA), SCHEMA);
+}
+
+/**
+ * Providers without native types, like SQLite, ignore length, precision and scale.
+ */
+export async function nativeTypesAreIgnoredBySqlite() {
+    const SCHEMA = await compileSchema('sqlite');
+
+    Assert.strictEqual(SCHEMA.indexOf('@db.'), -1, SCHEMA);
+}
+
+
+async function compileSchema(provider: string): Promise<string> {
+    const OUTPUT = new eb_lib_output.MemoryOutputWriter();
+
+    const RESULT = await eb_lib_compiler.compile({
+        file: ENTITY_FILE,
+        outDir: OUT_DIR,
+        output: OUTPUT,
+        prisma: {
+            provider: provider,
+        },
+        target: eb_lib_compiler.EntityFramework.Prisma,
+    });
+    for (const C of RESULT.classes) {
+        Assert.ifError(C.error);
+    }
+
+    return OUTPUT.toObject(OUT_DIR)['schema.prisma'];
+}
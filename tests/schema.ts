@@ -0,0 +1,97 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as Assert from 'assert';
+import * as eb_lib_schema from '../lib/schema';
+import * as FS from 'fs';
+import * as Path from 'path';
+import * as YAML from 'yamljs';
+
+
+const EXAMPLES_DIR = Path.join(__dirname, '../examples');
+const SCHEMA_DIR = Path.join(__dirname, '../schema');
+
+
+/**
+ * The example files match the schemas.
+ */
+export function examplesMatchSchemas() {
+    const ENTITY_FILE_SCHEMA = eb_lib_schema.getEntityFileSchema();
+    const CONFIG_FILE_SCHEMA = eb_lib_schema.getConfigFileSchema();
+
+    for (const F of [ 'entities.json', 'entities.yaml' ]) {
+        Assert.deepStrictEqual(eb_lib_schema.validateSchema(loadExample(F), ENTITY_FILE_SCHEMA), [], F);
+    }
+    for (const F of [ 'confiig.json', 'config.yaml' ]) {
+        Assert.deepStrictEqual(eb_lib_schema.validateSchema(loadExample(F), CONFIG_FILE_SCHEMA), [], F);
+    }
+}
+
+/**
+ * The committed schema files are the ones, which are generated from the code.
+ */
+export function schemaFilesAreUpToDate() {
+    const FILES = eb_lib_schema.getSchemaFiles();
+
+    Assert.deepStrictEqual(FS.readdirSync(SCHEMA_DIR).sort(), Object.keys(FILES).sort());
+    for (const F in FILES) {
+        Assert.strictEqual(FS.readFileSync(Path.join(SCHEMA_DIR, F), 'utf8'), FILES[F],
+                           `'${F}' is out of date! Run 'npm run schema'.`);
+    }
+}
+
+/**
+ * Type names are accepted in any case, like the compiler does.
+ */
+export function typeNamesIgnoreCase() {
+    const SCHEMA = eb_lib_schema.getEntityFileSchema();
+
+    Assert.deepStrictEqual(eb_lib_schema.validateSchema({
+        entities: {
+            User: {
+                columns: {
+                    id: { id: true, type: 'Int' },
+                    name: 'String',
+                    note: '',
+                },
+            },
+        },
+    }, SCHEMA), []);
+
+    const ERRORS = eb_lib_schema.validateSchema({
+        entities: {
+            User: {
+                colums: {},
+                columns: {
+                    name: 'strng',
+                },
+            },
+        },
+    }, SCHEMA);
+    Assert.deepStrictEqual(ERRORS.map(e => eb_lib_schema.toJsonPath(e.path)), [
+        '$.entities.User.colums',
+        '$.entities.User.columns.name',
+    ]);
+}
+
+
+function loadExample(file: string): any {
+    const CONTENT = FS.readFileSync(Path.join(EXAMPLES_DIR, file), 'utf8');
+
+    return '.yaml' === Path.extname(file) ? YAML.parse(CONTENT) : JSON.parse(CONTENT);
+}
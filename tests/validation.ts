@@ -0,0 +1,169 @@
+/**
+ * This file is part of the node-entity-baker distribution.
+ * Copyright (c) Marcel Joachim Kloubert.
+ * 
+ * node-entity-baker is free software: you can redistribute it and/or modify  
+ * it under the terms of the GNU Lesser General Public License as   
+ * published by the Free Software Foundation, version 3.
+ *
+ * node-entity-baker is distributed in the hope that it will be useful, but 
+ * WITHOUT ANY WARRANTY; without even the implied warranty of 
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the GNU 
+ * Lesser General Public License for more details.
+ *
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program. If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+import * as Assert from 'assert';
+import * as eb_lib_compiler from '../lib/compiler';
+import * as eb_lib_output from '../lib/output';
+import * as eb_lib_validation from '../lib/validation';
+import * as YAML from 'yamljs';
+
+
+/**
+ * 'compile()' rejects entity files with errors, before anything is written.
+ */
+export async function compileRejectsInvalidFiles() {
+    const OUTPUT = new eb_lib_output.MemoryOutputWriter();
+
+    let error: any;
+    try {
+        await eb_lib_compiler.compile({
+            file: {
+                entities: {
+                    Post: {
+                        columns: {
+                            id: { id: true, type: 'int' },
+                            title: 'strin',
+                        },
+                    },
+                },
+            },
+            outDir: '/out',
+            output: OUTPUT,
+            target: eb_lib_compiler.EntityFramework.TypeORM,
+        });
+    }
+    catch (e) {
+        error = e;
+    }
+
+    Assert.ok(error, 'No error');
+    Assert.ok(/The data type 'strin' of column 'title' is unknown!/.test(error.message), error.message);
+    Assert.deepStrictEqual(OUTPUT.files, {});
+}
+
+/**
+ * Database column names, which differ only by case, are duplicates.
+ */
+export function duplicateDbNamesIgnoreCase() {
+    const DIAGNOSTICS = eb_lib_validation.validate({
+        entities: {
+            Post: {
+                columns: {
+                    id: { id: true, type: 'int' },
+                    name: 'string',
+                    Name: 'string',
+                    title: { type: 'string', dbName: 'NAME' },
+                },
+            },
+        },
+    });
+
+    Assert.deepStrictEqual(DIAGNOSTICS.map(d => [ d.code, d.path ]), [
+        [ eb_lib_validation.DIAGNOSTIC_DUPLICATE_COLUMN, '$.entities.Post.columns.Name' ],
+        [ eb_lib_validation.DIAGNOSTIC_DUPLICATE_COLUMN, '$.entities.Post.columns.title' ],
+    ]);
+}
+
+/**
+ * The diagnostics of a JSON file point to the line and the column of the value.
+ */
+export function linesAndColumnsOfJson() {
+    const SOURCE = `{
+  "entities": {
+    "Post": {
+      "columns": {
+        "id": { "id": true, "type": "int" },
+        "title": "strin"
+      }
+    }
+  }
+}`;
+
+    assertUnknownType(eb_lib_validation.validate(JSON.parse(SOURCE), {
+        format: 'json',
+        source: SOURCE,
+    }), 6, 9);
+}
+
+/**
+ * The diagnostics of a XML file point to the line and the column of the element.
+ */
+export function linesAndColumnsOfXml() {
+    const SOURCE = `<?xml version="1.0" encoding="UTF-8" ?>
+<entity_baker>
+  <entities>
+    <Post>
+      <columns>
+        <id>
+          <id>true</id>
+          <type>int</type>
+        </id>
+        <title>strin</title>
+      </columns>
+    </Post>
+  </entities>
+</entity_baker>`;
+
+    // like the result of the XML loader of the command line tool
+    const FILE: eb_lib_compiler.EntityFile = {
+        entities: {
+            Post: {
+                columns: {
+                    id: { id: <any>'true', type: 'int' },
+                    title: 'strin',
+                },
+            },
+        },
+    };
+
+    assertUnknownType(eb_lib_validation.validate(FILE, {
+        format: 'xml',
+        source: SOURCE,
+    }), 10, 9);
+}
+
+/**
+ * The diagnostics of a YAML file point to the line and the column of the key.
+ */
+export function linesAndColumnsOfYaml() {
+    const SOURCE = `entities:
+  Post:
+    columns:
+      id:
+        id: true
+        type: int
+      title: strin
+`;
+
+    assertUnknownType(eb_lib_validation.validate(YAML.parse(SOURCE), {
+        format: 'yaml',
+        source: SOURCE,
+    }), 7, 7);
+}
+
+
+function assertUnknownType(diagnostics: eb_lib_validation.Diagnostic[], line: number, column: number) {
+    Assert.deepStrictEqual(diagnostics, [{
+        code: eb_lib_validation.DIAGNOSTIC_UNKNOWN_TYPE,
+        column: column,
+        line: line,
+        message: `The data type 'strin' of column 'title' is unknown!`,
+        path: '$.entities.Post.columns.title',
+        severity: eb_lib_validation.SEVERITY_ERROR,
+    }]);
+}